@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "PipelineStage" AS ENUM (
+    'analysis',
+    'generation',
+    'quality',
+    'commit'
+);
+
+-- CreateEnum
+CREATE TYPE "StageStatus" AS ENUM (
+    'running',
+    'completed',
+    'failed'
+);
+
+-- CreateTable
+CREATE TABLE "task_stages" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "task_id" UUID NOT NULL,
+    "stage" "PipelineStage" NOT NULL,
+    "status" "StageStatus" NOT NULL DEFAULT 'running',
+    "output" JSONB,
+    "error" TEXT,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "task_stages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_stages_task_id_stage_key" ON "task_stages"("task_id", "stage");
+
+-- AddForeignKey
+ALTER TABLE "task_stages" ADD CONSTRAINT "task_stages_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "requirement_tasks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "task_events" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "task_id" UUID NOT NULL,
+    "status" "RequirementStatus" NOT NULL,
+    "stage" "PipelineStage",
+    "progress" DOUBLE PRECISION NOT NULL DEFAULT 0.0,
+    "model" TEXT,
+    "message" TEXT,
+    "payload" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "task_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_events_task_id_created_at_idx" ON "task_events"("task_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "task_events" ADD CONSTRAINT "task_events_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "requirement_tasks"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "RequirementStatus" ADD VALUE 'paused';
+ALTER TYPE "RequirementStatus" ADD VALUE 'cancelled';
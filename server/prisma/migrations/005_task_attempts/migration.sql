@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "requirement_tasks" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "TaskLifecycleEvent" AS ENUM (
+    'task_created',
+    'task_analyzed',
+    'task_generated',
+    'task_quality_checked',
+    'task_committed',
+    'task_failed',
+    'task_cancelled'
+);
+
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM (
+    'pending',
+    'succeeded',
+    'failed'
+);
+
+-- CreateTable
+CREATE TABLE "webhook_subscriptions" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "project_id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "events" "TaskLifecycleEvent"[],
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "webhook_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_deliveries" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "subscription_id" UUID NOT NULL,
+    "task_id" UUID NOT NULL,
+    "event" "TaskLifecycleEvent" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "DeliveryStatus" NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "response_status" INTEGER,
+    "response_body" TEXT,
+    "error" TEXT,
+    "delivered_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "webhook_subscriptions_project_id_idx" ON "webhook_subscriptions"("project_id");
+
+-- CreateIndex
+CREATE INDEX "webhook_deliveries_subscription_id_created_at_idx" ON "webhook_deliveries"("subscription_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
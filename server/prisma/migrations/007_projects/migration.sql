@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "projects" (
+    "id" TEXT NOT NULL DEFAULT (uuid_generate_v1mc())::text,
+    "name" TEXT NOT NULL,
+    "repository_url" TEXT NOT NULL,
+    "default_branch" TEXT NOT NULL DEFAULT 'main',
+    "language" "CodeLanguage" NOT NULL DEFAULT 'typescript',
+    "output_path" TEXT,
+    "preferred_providers" TEXT[],
+    "min_quality_score" DOUBLE PRECISION NOT NULL DEFAULT 80.0,
+    "credentials_ref" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "projects_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill a project for every project ID already used by a task, using the
+-- settings of its latest task
+INSERT INTO "projects" ("id", "name", "repository_url", "default_branch", "language", "output_path")
+SELECT DISTINCT ON ("project_id")
+    "project_id",
+    "project_id",
+    "repository_url",
+    "branch",
+    "language",
+    "output_path"
+FROM "requirement_tasks"
+ORDER BY "project_id", "created_at" DESC;
+
+-- AddForeignKey
+ALTER TABLE "requirement_tasks" ADD CONSTRAINT "requirement_tasks_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
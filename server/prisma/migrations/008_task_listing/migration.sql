@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "requirement_tasks" ADD COLUMN "quality_score" DOUBLE PRECISION;
+
+-- Backfill the quality score from the latest quality check of each task
+UPDATE "requirement_tasks" AS t
+SET "quality_score" = m."code_quality_score"
+FROM (
+    SELECT DISTINCT ON ("task_id") "task_id", "code_quality_score"
+    FROM "quality_metrics"
+    ORDER BY "task_id", "created_at" DESC
+) AS m
+WHERE m."task_id" = t."id";
+
+-- CreateIndex
+CREATE INDEX "requirement_tasks_project_id_created_at_idx" ON "requirement_tasks"("project_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "requirement_tasks_created_at_idx" ON "requirement_tasks"("created_at");
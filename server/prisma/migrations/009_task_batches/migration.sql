@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "task_batches" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "project_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "task_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "requirement_tasks" ADD COLUMN "batch_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "requirement_tasks_batch_id_idx" ON "requirement_tasks"("batch_id");
+
+-- AddForeignKey
+ALTER TABLE "task_batches" ADD CONSTRAINT "task_batches_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "requirement_tasks" ADD CONSTRAINT "requirement_tasks_batch_id_fkey" FOREIGN KEY ("batch_id") REFERENCES "task_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "LlmCallStatus" AS ENUM ('succeeded', 'failed');
+
+-- CreateTable
+CREATE TABLE "llm_calls" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "task_id" UUID,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "prompt_tokens" INTEGER NOT NULL DEFAULT 0,
+    "completion_tokens" INTEGER NOT NULL DEFAULT 0,
+    "latency_ms" INTEGER NOT NULL,
+    "cost" DOUBLE PRECISION,
+    "status" "LlmCallStatus" NOT NULL,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "llm_calls_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "llm_calls_task_id_idx" ON "llm_calls"("task_id");
+
+-- CreateIndex
+CREATE INDEX "llm_calls_provider_created_at_idx" ON "llm_calls"("provider", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "llm_calls" ADD CONSTRAINT "llm_calls_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "requirement_tasks"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "prompt_templates" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "key" TEXT NOT NULL,
+    "description" TEXT,
+    "active_version" INTEGER NOT NULL DEFAULT 1,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prompt_versions" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "template_id" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "system_message" TEXT,
+    "variables" TEXT[],
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "prompt_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "project_prompts" (
+    "project_id" TEXT NOT NULL,
+    "template_id" UUID NOT NULL,
+    "version" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "project_prompts_pkey" PRIMARY KEY ("project_id", "template_id")
+);
+
+-- AlterTable
+ALTER TABLE "llm_calls" ADD COLUMN "prompt_version_id" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_key_key" ON "prompt_templates"("key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_versions_template_id_version_key" ON "prompt_versions"("template_id", "version");
+
+-- CreateIndex
+CREATE INDEX "llm_calls_prompt_version_id_idx" ON "llm_calls"("prompt_version_id");
+
+-- AddForeignKey
+ALTER TABLE "prompt_versions" ADD CONSTRAINT "prompt_versions_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "prompt_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_prompts" ADD CONSTRAINT "project_prompts_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "project_prompts" ADD CONSTRAINT "project_prompts_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "prompt_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "llm_calls" ADD CONSTRAINT "llm_calls_prompt_version_id_fkey" FOREIGN KEY ("prompt_version_id") REFERENCES "prompt_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- CreateTable
+CREATE TABLE "repository_indexes" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "repository_url" TEXT NOT NULL,
+    "branch" TEXT NOT NULL,
+    "commit_hash" TEXT,
+    "embedding_model" TEXT NOT NULL,
+    "indexed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "repository_indexes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "repository_chunks" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v1mc(),
+    "index_id" UUID NOT NULL,
+    "file_path" TEXT NOT NULL,
+    "file_hash" TEXT NOT NULL,
+    "start_line" INTEGER NOT NULL,
+    "end_line" INTEGER NOT NULL,
+    "symbols" TEXT[],
+    "content" TEXT NOT NULL,
+    "embedding" vector,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "repository_chunks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "repository_indexes_repository_url_branch_key" ON "repository_indexes"("repository_url", "branch");
+
+-- CreateIndex
+CREATE INDEX "repository_chunks_index_id_file_path_idx" ON "repository_chunks"("index_id", "file_path");
+
+-- AddForeignKey
+ALTER TABLE "repository_chunks" ADD CONSTRAINT "repository_chunks_index_id_fkey" FOREIGN KEY ("index_id") REFERENCES "repository_indexes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
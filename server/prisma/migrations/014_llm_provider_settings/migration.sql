@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "llm_provider_settings" (
+    "name" TEXT NOT NULL,
+    "api_type" TEXT,
+    "api_url" TEXT,
+    "api_key" TEXT,
+    "model" TEXT,
+    "enabled" BOOLEAN,
+    "pricing" JSONB,
+    "retry_policy" JSONB,
+    "rate_limit" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "llm_provider_settings_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "llm_provider_defaults" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "default_provider" TEXT,
+    "fallback_order" TEXT[],
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "llm_provider_defaults_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "llm_calls" ADD COLUMN "stage" TEXT,
+ADD COLUMN "routing_rule" TEXT;
@@ -0,0 +1,6 @@
+-- Drop the subscriptions of projects deleted before the foreign key existed
+DELETE FROM "webhook_subscriptions"
+WHERE "project_id" NOT IN (SELECT "id" FROM "projects");
+
+-- AddForeignKey
+ALTER TABLE "webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "requirement_tasks" ADD COLUMN "requirement_search" tsvector GENERATED ALWAYS AS (to_tsvector('english', "requirement_text")) STORED;
+
+-- CreateIndex
+CREATE INDEX "requirement_tasks_requirement_search_idx" ON "requirement_tasks" USING GIN ("requirement_search");
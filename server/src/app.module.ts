@@ -3,11 +3,17 @@ import { EventEmitterModule } from '@nestjs/event-emitter';
 import { ConfigModule } from '@nestjs/config';
 import { authConfig } from '@server/config/auth.config';
 import { dbConfig } from '@server/config/db.config';
-import { llMConfig } from '@server/config/llm.config';
+import { llMConfig, dynamicLlmConfig } from '@server/config/llm.config';
+import { llmRoutingConfig } from '@server/config/llm-routing.config';
 import { configValidator } from '@server/config/config.validator';
 import { gitConfig } from '@server/config/git.config';
 import { redisConfig } from '@server/config/redis.config';
 import { taskQueueConfig } from '@server/config/task-queue.config';
+import { repositoryIndexConfig } from '@server/config/repository-index.config';
+import { RequirementTaskModule } from '@server/requirement-task/requirement-task.module';
+import { PipelineModule } from '@server/pipeline/pipeline.module';
+import { WebhookModule } from '@server/webhook/webhook.module';
+import { ProjectModule } from '@server/project/project.module';
 
 @Module({
   imports: [
@@ -18,13 +24,20 @@ import { taskQueueConfig } from '@server/config/task-queue.config';
         authConfig,
         dbConfig,
         llMConfig,
+        dynamicLlmConfig,
+        llmRoutingConfig,
         gitConfig,
         redisConfig,
         taskQueueConfig,
+        repositoryIndexConfig,
       ],
       validate: configValidator,
     }),
     EventEmitterModule.forRoot(),
+    ProjectModule,
+    RequirementTaskModule,
+    PipelineModule,
+    WebhookModule,
   ],
 })
 export class AppModule {}
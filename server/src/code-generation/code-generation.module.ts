@@ -1,12 +1,13 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { PromptModule } from '@server/core/prompt/prompt.module';
 import { LLMModule } from '@server/core/llm/llm.module';
 import { RequirementTaskModule } from '@server/requirement-task/requirement-task.module';
 import { GitIntegrationModule } from '@server/git-integration/git-integration.module';
 import { QualityCheckModule } from '@server/quality-check/quality-check.module';
+import { RepositoryIndexModule } from '@server/repository-index/repository-index.module';
 import { CodeGenerationServiceImpl } from '@server/code-generation/service/impl/code-generation-imp.service';
 import { CodeGenerationProcessorImpl } from '@server/code-generation/event-listener/processor/impl/code-generate-impl.processor';
-import { CodeGenerateEventListener } from '@server/code-generation/event-listener/code-generate-event.listener';
 import {
   CODE_GENERATION_SERVICE,
   CODE_GENERATION_PROCESSOR,
@@ -21,16 +22,17 @@ const providers = [
     provide: CODE_GENERATION_PROCESSOR,
     useClass: CodeGenerationProcessorImpl,
   },
-  CodeGenerateEventListener,
 ];
 
 @Module({
   imports: [
     PrismaModule,
     LLMModule,
+    PromptModule,
     RequirementTaskModule,
     GitIntegrationModule,
     QualityCheckModule,
+    RepositoryIndexModule,
   ],
   providers,
   exports: providers,
@@ -0,0 +1,12 @@
+import { LLMProvider } from '@server/config/llm.config';
+import { RequirementAnalysisDto } from '@server/core/llm/dto/llm.dto';
+
+export class ResponseAnalyzeTaskDto {
+  analysis: RequirementAnalysisDto;
+  model: LLMProvider;
+}
+
+export class ResponseGenerateCodeDto {
+  generatedCode: Record<string, string>;
+  model: LLMProvider;
+}
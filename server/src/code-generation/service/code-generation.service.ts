@@ -1,6 +1,22 @@
+import { RequirementTask } from '.prisma/client';
 import { LLMProvider } from '@server/config/llm.config';
+import {
+  ResponseAnalyzeTaskDto,
+  ResponseGenerateCodeDto,
+} from '@server/code-generation/dto/code-generation.dto';
+import { PrerequisiteContextDto } from '@server/requirement-task/dto/task-dependency.dto';
+import { RequirementAnalysisDto } from '@server/core/llm/dto/llm.dto';
 
 export interface CodeGenerationService {
+  analyzeTask(
+    task: RequirementTask,
+    prerequisites?: PrerequisiteContextDto[],
+  ): Promise<ResponseAnalyzeTaskDto>;
+  generateTaskCode(
+    task: RequirementTask,
+    requirementAnalysis: RequirementAnalysisDto,
+    prerequisites?: PrerequisiteContextDto[],
+  ): Promise<ResponseGenerateCodeDto>;
   processRequirement(taskId: string): Promise<void>;
   processRequirementWithSpecificModel(
     taskId: string,
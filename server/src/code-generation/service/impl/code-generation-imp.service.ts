@@ -1,23 +1,56 @@
 // src/code-generation/services/code-generation.service.ts
 
 import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common';
-import { EventEmitter2 } from '@nestjs/event-emitter';
-import { PrismaClient, CodeLanguage, RequirementStatus } from '.prisma/client';
+import {
+  PrismaClient,
+  CodeLanguage,
+  RequirementStatus,
+  RequirementTask,
+  PipelineStage,
+} from '.prisma/client';
 import { LLMProvider } from '@server/config/llm.config';
+import { LLMRoutingStage } from '@server/config/llm-routing.config';
 import { CodeGenerationService } from '@server/code-generation/service/code-generation.service';
+import {
+  ResponseAnalyzeTaskDto,
+  ResponseGenerateCodeDto,
+} from '@server/code-generation/dto/code-generation.dto';
+import { PrerequisiteContextDto } from '@server/requirement-task/dto/task-dependency.dto';
+import {
+  RequestLLMDto,
+  RequirementAnalysisDto,
+  GeneratedFilesDto,
+} from '@server/core/llm/dto/llm.dto';
+import { LlmRoutingDecisionDto } from '@server/core/llm/dto/llm-routing.dto';
+import {
+  REQUIREMENT_ANALYSIS_SCHEMA,
+  GENERATED_FILES_SCHEMA,
+  toGeneratedFileMap,
+} from '@server/core/llm/schema/code-generation.schema';
 import { LLMIntegrationService } from '@server/core/llm/service/llm-integration.service';
+import { LlmRouterService } from '@server/core/llm/service/llm-router.service';
 import { RequirementTaskService } from '@server/requirement-task/service/requirement-task.service';
+import { RequirementQueueService } from '@server/requirement-task/service/requirement-queue.service';
+import { TaskStageService } from '@server/requirement-task/service/task-stage.service';
 import { GitIntegrationService } from '@server/git-integration/service/git-integration.service';
 import { QualityCheckService } from '@server/quality-check/service/quality-check.service';
+import { PromptService } from '@server/core/prompt/service/prompt.service';
+import { PromptKey } from '@server/core/prompt/prompt-defaults';
+import { RepositoryIndexService } from '@server/repository-index/service/repository-index.service';
+import { RepositoryChunkDto } from '@server/repository-index/dto/repository-index.dto';
+import { getTaskContext } from '@server/core/context/task-context';
 import {
   PRISMA_REPOSITORY,
   REQUIREMENT_TASK_SERVICE,
+  REQUIREMENT_QUEUE_SERVICE,
+  TASK_STAGE_SERVICE,
   LLM_INTEGRATION_SERVICE,
+  LLM_ROUTER_SERVICE,
   GIT_INTEGRATION_SERVICE,
   QUALITY_CHECK_SERVICE,
+  PROMPT_SERVICE,
+  REPOSITORY_INDEX_SERVICE,
 } from '@server/constants';
-import { CodeGeneratedEvent } from '@server/code-generation/event/code-generate.event';
-import { EventType } from '@server/core/event/event';
 
 /**
  * CodeGenerationServiceImpl
@@ -26,39 +59,50 @@ import { EventType } from '@server/core/event/event';
  * especially Ollama models. It supports model selection, code quality checks, and
  * Git integration for generated code.
  *
- * Guide for using Ollama models:
- * - Always check Ollama availability before using any model.
- * - Use DeepSeek Chat for requirement analysis.
- * - Use Kevin or DeepSeek Coder for code generation.
- * - Compare outputs from multiple models for important tasks.
- * - Always verify code quality.
+ * The providers of each stage are picked by the routing rules, see
+ * `llmRoutingConfig`. By default:
+ * - DeepSeek Chat analyzes the requirement.
+ * - Kevin, then DeepSeek Coder generate the code.
+ * - OpenAI is used when the Ollama models are unavailable.
+ * Outputs of multiple models can be compared for important tasks, and the
+ * code quality is always verified.
  */
 @Injectable()
 export class CodeGenerationServiceImpl
   implements OnModuleInit, CodeGenerationService
 {
   private readonly logger = new Logger(CodeGenerationServiceImpl.name);
-  // System message for LLM context
-  private readonly systemMessage =
-    'You are a helpful assistant specialized in software development.';
 
   constructor(
-    private readonly eventEmitter: EventEmitter2,
-
     @Inject(PRISMA_REPOSITORY)
     private prismaRepository: PrismaClient,
 
     @Inject(REQUIREMENT_TASK_SERVICE)
     private readonly requirementTaskService: RequirementTaskService,
 
+    @Inject(REQUIREMENT_QUEUE_SERVICE)
+    private readonly requirementQueueService: RequirementQueueService,
+
+    @Inject(TASK_STAGE_SERVICE)
+    private readonly taskStageService: TaskStageService,
+
     @Inject(GIT_INTEGRATION_SERVICE)
     private readonly gitIntegrationService: GitIntegrationService,
 
     @Inject(LLM_INTEGRATION_SERVICE)
     private readonly llmIntegrationService: LLMIntegrationService,
 
+    @Inject(LLM_ROUTER_SERVICE)
+    private readonly llmRouterService: LlmRouterService,
+
     @Inject(QUALITY_CHECK_SERVICE)
     private readonly qualityCheckService: QualityCheckService,
+
+    @Inject(PROMPT_SERVICE)
+    private readonly promptService: PromptService,
+
+    @Inject(REPOSITORY_INDEX_SERVICE)
+    private readonly repositoryIndexService: RepositoryIndexService,
   ) {}
 
   /**
@@ -68,15 +112,118 @@ export class CodeGenerationServiceImpl
     this.logger.log('Code Generation Service initialized');
   }
 
+  /**
+   * Analyze the requirement of a task with the providers the routing rules
+   * pick for the analysis stage, in order.
+   *
+   * @param task Task to analyze
+   * @param prerequisites Output of the tasks this task builds on
+   */
+  public async analyzeTask(
+    task: RequirementTask,
+    prerequisites: PrerequisiteContextDto[] = [],
+  ): Promise<ResponseAnalyzeTaskDto> {
+    const requirementContext =
+      prerequisites.length > 0
+        ? `${task.requirement_text}\n\n${this.formatPrerequisites(
+            prerequisites,
+            false,
+          )}`
+        : task.requirement_text;
+
+    const decision = this.llmRouterService.route({
+      stage: LLMRoutingStage.ANALYSIS,
+      language: task.language,
+      priority: task.priority,
+      projectId: task.project_id,
+      prompt: requirementContext,
+    });
+
+    const { result: analysis, provider } = await this.runRouted(
+      decision,
+      (provider) =>
+        this.analyzeRequirement(requirementContext, task.language, {
+          provider,
+          useFallback: false,
+          temperature: 0.1,
+          stage: LLMRoutingStage.ANALYSIS,
+          routingRule: decision.rule ?? undefined,
+        }),
+    );
+    return { analysis, model: provider };
+  }
+
+  /**
+   * Generate code for an analyzed task with the providers the routing rules
+   * pick for the generation stage, in order. Kevin gets its own prompt.
+   *
+   * @param task Task to generate code for
+   * @param requirementAnalysis Structured analysis of the requirement
+   * @param prerequisites Output of the tasks this task builds on
+   */
+  public async generateTaskCode(
+    task: RequirementTask,
+    requirementAnalysis: RequirementAnalysisDto,
+    prerequisites: PrerequisiteContextDto[] = [],
+  ): Promise<ResponseGenerateCodeDto> {
+    const prerequisiteContext =
+      prerequisites.length > 0
+        ? this.formatPrerequisites(prerequisites, true)
+        : '';
+    const repositoryContext = await this.getRepositoryContext(
+      task,
+      requirementAnalysis,
+    );
+
+    const decision = this.llmRouterService.route({
+      stage: LLMRoutingStage.GENERATION,
+      language: task.language,
+      priority: task.priority,
+      projectId: task.project_id,
+      prompt: [
+        JSON.stringify(requirementAnalysis),
+        prerequisiteContext,
+        repositoryContext,
+      ].join('\n'),
+    });
+    const routingRule = decision.rule ?? undefined;
+
+    const { result: generatedCode, provider } = await this.runRouted(
+      decision,
+      (provider) =>
+        provider === LLMProvider.OLLAMA_KEVIN
+          ? this.llmIntegrationService.generateWithKevinModel({
+              requirementAnalysis,
+              language: task.language,
+              prerequisiteContext,
+              repositoryContext,
+              routingRule,
+            })
+          : this.generateCode(
+              requirementAnalysis,
+              task.language,
+              prerequisiteContext,
+              repositoryContext,
+              {
+                provider,
+                useFallback: false,
+                temperature: 0.2,
+                stage: LLMRoutingStage.GENERATION,
+                routingRule,
+              },
+            ),
+    );
+    return { generatedCode, model: provider };
+  }
+
   /**
    * Process a requirement task.
    * This method is triggered when a requirement task is ready.
    *
    * Steps:
-   * 1. Analyze requirement (prefer Ollama DeepSeek Chat if available)
-   * 2. Generate code (prefer Kevin or DeepSeek Coder if available)
-   * 3. Check code quality
-   * 4. Commit code to Git
+   * 1. Analyze requirement (with the routed providers)
+   * 2. Generate code (with the routed providers)
+   * 3. Queue the task so the pipeline runs quality check and commit
    *
    * @param taskId Task ID to process
    */
@@ -99,32 +246,9 @@ export class CodeGenerationServiceImpl
         details: { message: 'Starting requirement analysis' },
       });
 
-      // 1. Check Ollama availability
-      const ollamaStatus =
-        await this.llmIntegrationService.checkOllamaAvailability();
-      const useOllama = ollamaStatus.available;
-
-      this.logger.log(
-        `Ollama availability: ${
-          useOllama ? 'Available' : 'Unavailable'
-        }, Models: ${ollamaStatus.models.join(', ')}`,
-      );
-
-      // 2. Requirement analysis (prefer DeepSeek Chat)
-      let requirementAnalysis;
-      if (useOllama) {
-        requirementAnalysis =
-          await this.llmIntegrationService.analyzeRequirementWithOllama({
-            requirementContext: task.requirement_text,
-            language: task.language,
-            systemMessage: this.systemMessage,
-          });
-      } else {
-        requirementAnalysis = await this.analyzeRequirement(
-          task.requirement_text,
-          task.language,
-        );
-      }
+      // 1. Requirement analysis
+      const analysisResult = await this.analyzeTask(task);
+      const requirementAnalysis = analysisResult.analysis;
 
       await this.requirementTaskService.updateTaskStatus({
         taskId,
@@ -136,58 +260,14 @@ export class CodeGenerationServiceImpl
         },
       });
 
-      // 3. Code generation (prefer Kevin, fallback to DeepSeek Coder)
-      let generatedCode;
-      let modelToUse = LLMProvider.OPENAI; // Declare and assign modelToUse
-      if (useOllama) {
-        const kevinAvailable =
-          await this.llmIntegrationService.testSpecificOllamaModel({
-            modelName: LLMProvider.OLLAMA_KEVIN,
-            systemMessage: this.systemMessage,
-          });
-
-        if (kevinAvailable) {
-          this.logger.log('Using Kevin model for code generation');
-          const kevinResponse =
-            await this.llmIntegrationService.generateWithKevinModel({
-              prompt:
-                `Generate code in ${task.language.toLowerCase()} for: ${
-                  requirementAnalysis.title
-                }\n` +
-                `Functionality: ${requirementAnalysis.functionality}\n` +
-                `Components: ${this.formatList(
-                  requirementAnalysis.components,
-                )}`,
-              systemMessage: this.systemMessage,
-            });
-          generatedCode = this.extractJsonFromText(kevinResponse);
-          modelToUse = LLMProvider.OLLAMA_KEVIN;
-        } else {
-          generatedCode =
-            await this.llmIntegrationService.generateCodeWithOllamaModel({
-              requirementAnalysis,
-              language: task.language,
-              languageContext: this.getLanguageContext(task.language),
-              systemMessage: this.systemMessage,
-              provider: LLMProvider.OLLAMA_DEEPSEEK_CODER,
-              temperature: 0.2,
-            });
-          modelToUse = LLMProvider.OLLAMA_DEEPSEEK_CODER;
-        }
-      } else {
-        generatedCode = await this.generateCode(
-          requirementAnalysis,
-          task.language,
-        );
-      }
-
-      const codeGeneratedEvent = new CodeGeneratedEvent({
-        modelToUse,
+      // 2. Code generation
+      const generationResult = await this.generateTaskCode(
         task,
-        generatedCode,
         requirementAnalysis,
-      });
-      this.eventEmitter.emit(EventType.CODE_GENERATION, codeGeneratedEvent);
+      );
+
+      // 3. Hand the remaining stages over to the pipeline
+      await this.queueGeneratedTask(task, analysisResult, generationResult);
     } catch (error) {
       this.logger.error(
         `Error processing task ${taskId}: ${error.message}`,
@@ -238,7 +318,6 @@ export class CodeGenerationServiceImpl
         const isAvailable =
           await this.llmIntegrationService.testSpecificOllamaModel({
             modelName: requestedModel,
-            systemMessage: this.systemMessage,
           });
 
         if (!isAvailable) {
@@ -249,7 +328,7 @@ export class CodeGenerationServiceImpl
       }
 
       // Requirement analysis
-      let requirementAnalysis;
+      let requirementAnalysis: RequirementAnalysisDto;
 
       if (requestedModel.includes('ollama')) {
         switch (requestedModel) {
@@ -258,36 +337,14 @@ export class CodeGenerationServiceImpl
               await this.llmIntegrationService.analyzeRequirementWithOllama({
                 requirementContext: task.requirement_text,
                 language: task.language,
-                systemMessage: this.systemMessage,
               });
             break;
           default:
-            const analysisPrompt = `
-            Analyze the following software requirement and break it down into structured components.
-            The code will be implemented in ${task.language.toLowerCase()}.
-            
-            Requirement:
-            ${task.requirement_text}
-            
-            Please provide:
-            1. A clear title for this requirement
-            2. The main functionality being requested
-            3. Key components or modules needed
-            4. Expected inputs and outputs
-            5. Any dependencies or constraints mentioned
-            6. Suggested file structure for implementation
-          `;
-
-            const result = await this.llmIntegrationService.callLLmApi({
-              prompt: analysisPrompt,
-              systemMessage: this.systemMessage,
-              options: {
-                provider: requestedModel,
-                useFallback: true,
-              },
-            });
-
-            requirementAnalysis = this.parseAnalysisResult(result);
+            requirementAnalysis = await this.analyzeRequirement(
+              task.requirement_text,
+              task.language,
+              { provider: requestedModel },
+            );
         }
       } else {
         requirementAnalysis = await this.analyzeRequirement(
@@ -309,31 +366,28 @@ export class CodeGenerationServiceImpl
 
       // Code generation
       let generatedCode;
+      const repositoryContext = await this.getRepositoryContext(
+        task,
+        requirementAnalysis,
+      );
 
       if (requestedModel.includes('ollama')) {
         switch (requestedModel) {
           case LLMProvider.OLLAMA_KEVIN:
-            const kevinResponse =
+            generatedCode =
               await this.llmIntegrationService.generateWithKevinModel({
-                prompt:
-                  `Generate code in ${task.language.toLowerCase()} for: ${
-                    requirementAnalysis.title
-                  }\n` +
-                  `Functionality: ${requirementAnalysis.functionality}\n` +
-                  `Components: ${this.formatList(
-                    requirementAnalysis.components,
-                  )}`,
-                systemMessage: this.systemMessage,
+                requirementAnalysis,
+                language: task.language,
+                repositoryContext,
               });
-            generatedCode = this.extractJsonFromText(kevinResponse);
             break;
           default:
             generatedCode =
               await this.llmIntegrationService.generateCodeWithOllamaModel({
                 requirementAnalysis,
                 language: task.language,
-                languageContext: this.getLanguageContext(task.language),
-                systemMessage: this.systemMessage,
+                languageContext: await this.getLanguageContext(task.language),
+                repositoryContext,
                 provider: requestedModel,
                 temperature: 0.2,
               });
@@ -342,15 +396,15 @@ export class CodeGenerationServiceImpl
         generatedCode = await this.generateCode(
           requirementAnalysis,
           task.language,
+          '',
+          repositoryContext,
         );
       }
-      const codeGeneratedEvent = new CodeGeneratedEvent({
-        modelToUse: requestedModel,
+      await this.queueGeneratedTask(
         task,
-        generatedCode,
-        requirementAnalysis,
-      });
-      this.eventEmitter.emit(EventType.CODE_GENERATION, codeGeneratedEvent);
+        { analysis: requirementAnalysis, model: requestedModel },
+        { generatedCode, model: requestedModel },
+      );
     } catch (error) {
       this.logger.error(
         `Error processing task with specific model ${taskId}: ${error.message}`,
@@ -372,7 +426,7 @@ export class CodeGenerationServiceImpl
    * 1. Analyze requirement (DeepSeek Chat)
    * 2. Generate code with multiple models
    * 3. Select best output (by file count)
-   * 4. Commit best output to main branch, others to comparison branches
+   * 4. Queue the task so the pipeline runs quality check and commit
    *
    * @param taskId Task ID to process
    */
@@ -410,7 +464,6 @@ export class CodeGenerationServiceImpl
         await this.llmIntegrationService.analyzeRequirementWithOllama({
           requirementContext: task.requirement_text,
           language: task.language,
-          systemMessage: this.systemMessage,
         });
 
       await this.requirementTaskService.updateTaskStatus({
@@ -428,8 +481,7 @@ export class CodeGenerationServiceImpl
         await this.llmIntegrationService.generateCodeWithOllamaModel({
           requirementAnalysis,
           language: task.language,
-          languageContext: this.getLanguageContext(task.language),
-          systemMessage: this.systemMessage,
+          languageContext: await this.getLanguageContext(task.language),
           provider: LLMProvider.OLLAMA_DEEPSEEK_CHAT,
           temperature: 0.2,
         });
@@ -449,27 +501,23 @@ export class CodeGenerationServiceImpl
 
       if (Object.keys(bestModelCode).length === 0) {
         // Fallback to Kevin if all models failed
-        const kevinResponse =
-          await this.llmIntegrationService.generateWithKevinModel({
-            prompt:
-              `Generate code in ${task.language.toLowerCase()} for: ${
-                requirementAnalysis.title
-              }\n` +
-              `Functionality: ${requirementAnalysis.functionality}\n` +
-              `Components: ${this.formatList(requirementAnalysis.components)}`,
-            systemMessage: this.systemMessage,
-          });
-        bestModelCode = this.extractJsonFromText(kevinResponse);
+        bestModelCode = await this.llmIntegrationService.generateWithKevinModel(
+          {
+            requirementAnalysis,
+            language: task.language,
+          },
+        );
         bestModel = LLMProvider.OLLAMA_KEVIN;
       }
 
-      const codeGeneratedEvent = new CodeGeneratedEvent({
-        modelToUse: bestModel,
+      await this.queueGeneratedTask(
         task,
-        generatedCode: bestModelCode,
-        requirementAnalysis,
-      });
-      this.eventEmitter.emit(EventType.CODE_GENERATION, codeGeneratedEvent);
+        {
+          analysis: requirementAnalysis,
+          model: LLMProvider.OLLAMA_DEEPSEEK_CHAT,
+        },
+        { generatedCode: bestModelCode, model: bestModel },
+      );
     } catch (error) {
       this.logger.error(
         `Error processing task with model comparison ${taskId}: ${error.message}`,
@@ -485,242 +533,250 @@ export class CodeGenerationServiceImpl
   }
 
   /**
-   * Analyze and understand a requirement using LLM.
+   * Persist the analysis and generation outputs, then queue the task so the
+   * pipeline resumes it from the quality check.
    *
-   * @param requirementText The raw requirement text
-   * @param language Target programming language
+   * @param task Task that was processed
+   * @param analysisResult Analysis stage output
+   * @param generationResult Generation stage output
    * @private
    */
-  private async analyzeRequirement(
-    requirementText: string,
-    language: CodeLanguage,
-  ): Promise<Record<string, any>> {
-    const prompt = `
-      Analyze the following software requirement and break it down into structured components.
-      The code will be implemented in ${language.toLowerCase()}.
-      
-      Requirement:
-      ${requirementText}
-      
-      Please provide:
-      1. A clear title for this requirement
-      2. The main functionality being requested
-      3. Key components or modules needed
-      4. Expected inputs and outputs
-      5. Any dependencies or constraints mentioned
-      6. Suggested file structure for implementation
-    `;
-
-    const result = await this.llmIntegrationService.callLLmApi({
-      prompt,
-      systemMessage: this.systemMessage,
-      options: {
-        // use default LLMProvider.OPENAI
-      },
+  private async queueGeneratedTask(
+    task: RequirementTask,
+    analysisResult: ResponseAnalyzeTaskDto,
+    generationResult: ResponseGenerateCodeDto,
+  ): Promise<void> {
+    await this.taskStageService.completeStage({
+      taskId: task.id,
+      stage: PipelineStage.analysis,
+      output: { ...analysisResult },
+    });
+    await this.taskStageService.completeStage({
+      taskId: task.id,
+      stage: PipelineStage.generation,
+      output: { ...generationResult },
     });
 
-    // Parse the LLM response into a structured format
-    return this.parseAnalysisResult(result);
+    await this.requirementQueueService.addTask(task.id, task.priority);
   }
 
   /**
-   * Generate code based on the analyzed requirement.
+   * Run a stage with the providers picked by the router, trying the next
+   * provider when one fails.
    *
-   * @param requirementAnalysis Structured analysis of the requirement
-   * @param language Target programming language
+   * @param decision Routing decision of the stage
+   * @param run Runs the stage with a provider
    * @private
    */
-  private async generateCode(
-    requirementAnalysis: Record<string, any>,
-    language: CodeLanguage,
-  ): Promise<Record<string, string>> {
-    // Prepare language-specific context
-    const languageContext = this.getLanguageContext(language);
-
-    // Create the main prompt for code generation
-    const prompt = `
-      Generate code in ${language.toLowerCase()} based on the following analyzed requirement:
-      
-      Title: ${requirementAnalysis.title}
-      
-      Functionality: ${requirementAnalysis.functionality}
-      
-      Components needed:
-      ${this.formatList(requirementAnalysis.components)}
-      
-      Inputs and Outputs:
-      ${requirementAnalysis.inputsOutputs}
-      
-      Dependencies and Constraints:
-      ${requirementAnalysis.dependencies}
-      
-      File Structure:
-      ${this.formatList(requirementAnalysis.fileStructure)}
-      
-      ${languageContext}
-      
-      For each file in the file structure, provide the complete code with proper documentation.
-      Format the response as a JSON object where keys are file paths and values are the file content.
-    `;
-
-    const result = await this.llmIntegrationService.callLLmApi({
-      prompt,
-      systemMessage: this.systemMessage,
-      options: {
-        // use default LLMProvider.OPENAI
-      },
-    });
+  private async runRouted<T>(
+    decision: LlmRoutingDecisionDto,
+    run: (provider: LLMProvider) => Promise<T>,
+  ): Promise<{ result: T; provider: LLMProvider }> {
+    let lastError: Error | null = null;
 
-    // Extract the code from the LLM response
-    try {
-      // Try to parse directly as JSON
-      return JSON.parse(result);
-    } catch (error) {
-      // Fallback: extract JSON block from text response
-      return this.extractJsonFromText(result);
+    for (const provider of decision.providers) {
+      try {
+        return { result: await run(provider), provider };
+      } catch (error) {
+        // A cancelled task must not fall through to the next provider
+        if (getTaskContext()?.signal.aborted) {
+          throw error;
+        }
+
+        this.logger.warn(
+          `${decision.stage} with ${provider} failed, trying the next provider: ${error.message}`,
+        );
+        lastError = error;
+      }
     }
+
+    throw new Error(
+      lastError
+        ? `All providers of the ${decision.stage} stage failed. Last error: ${lastError.message}`
+        : `No LLM provider available for the ${decision.stage} stage`,
+    );
   }
 
   /**
-   * Get language-specific context for code generation.
+   * Analyze and understand a requirement using LLM.
    *
+   * @param requirementText The raw requirement text
    * @param language Target programming language
+   * @param options Provider and call options, defaults to the fallback order
    * @private
    */
-  private getLanguageContext(language: CodeLanguage): string {
-    // Provide specific guidance based on language
-    const contexts = {
-      typescript: `
-        Use TypeScript best practices:
-        - Use interfaces for data structures
-        - Apply proper typing throughout the code
-        - Leverage decorators when appropriate
-        - Follow NestJS patterns (controllers, services, modules)
-        - Use dependency injection
-        - Implement error handling with try/catch
-        - Add JSDoc comments for all functions and classes
-      `,
-      javascript: `
-        Use JavaScript best practices:
-        - Use ES6+ features (arrow functions, destructuring, etc.)
-        - Apply proper error handling with try/catch
-        - Add JSDoc comments for all functions and classes
-        - Implement async/await patterns for asynchronous code
-      `,
-      python: `
-        Use Python best practices:
-        - Follow PEP 8 style guidelines
-        - Use type hints (Python 3.5+)
-        - Add docstrings for all functions and classes
-        - Implement proper error handling with try/except
-      `,
-      java: `
-        Use Java best practices:
-        - Follow standard Java conventions
-        - Use appropriate design patterns
-        - Implement proper exception handling
-        - Add JavaDoc comments for all methods and classes
-      `,
-      // Add other languages as needed
-    };
-
-    const languageKey = language.toString().toLowerCase();
-    return (
-      contexts[languageKey] ||
-      'Follow standard coding conventions and best practices for this language.'
+  private async analyzeRequirement(
+    requirementText: string,
+    language: CodeLanguage,
+    options: RequestLLMDto['options'] = {},
+  ): Promise<RequirementAnalysisDto> {
+    const { prompt, systemMessage, promptVersionId } =
+      await this.promptService.renderPrompt({
+        key: PromptKey.REQUIREMENT_ANALYSIS,
+        variables: {
+          language: language.toLowerCase(),
+          requirement: requirementText,
+        },
+      });
+
+    return this.llmIntegrationService.callStructuredLLmApi<RequirementAnalysisDto>(
+      {
+        prompt,
+        systemMessage,
+        promptVersionId,
+        schemaName: 'requirement_analysis',
+        schema: REQUIREMENT_ANALYSIS_SCHEMA,
+        options,
+      },
     );
   }
 
   /**
-   * Parse analysis result from LLM response.
+   * Generate code based on the analyzed requirement.
    *
-   * @param result LLM response text
+   * @param requirementAnalysis Structured analysis of the requirement
+   * @param language Target programming language
+   * @param prerequisiteContext Output of the tasks this task builds on
+   * @param repositoryContext Existing code relevant to the requirement
+   * @param options Provider and call options, defaults to the fallback order
    * @private
    */
-  private parseAnalysisResult(result: string): Record<string, any> {
-    return {
-      title: this.extractTitle(result),
-      functionality: this.extractSection(result, 'main functionality'),
-      components: this.extractComponents(result),
-      inputsOutputs: this.extractSection(result, 'inputs and outputs'),
-      dependencies: this.extractSection(result, 'dependencies or constraints'),
-      fileStructure: this.extractFileStructure(result),
-    };
-  }
+  private async generateCode(
+    requirementAnalysis: RequirementAnalysisDto,
+    language: CodeLanguage,
+    prerequisiteContext = '',
+    repositoryContext = '',
+    options: RequestLLMDto['options'] = {},
+  ): Promise<Record<string, string>> {
+    const { prompt, systemMessage, promptVersionId } =
+      await this.promptService.renderPrompt({
+        key: PromptKey.CODE_GENERATION,
+        variables: {
+          language: language.toLowerCase(),
+          title: requirementAnalysis.title,
+          functionality: requirementAnalysis.functionality,
+          components: this.formatList(requirementAnalysis.components),
+          inputsOutputs: requirementAnalysis.inputsOutputs ?? '',
+          dependencies: requirementAnalysis.dependencies ?? '',
+          fileStructure: this.formatList(requirementAnalysis.fileStructure),
+          languageContext: await this.getLanguageContext(language),
+          prerequisiteContext,
+          repositoryContext,
+        },
+      });
 
-  /**
-   * Extract a title from LLM response.
-   *
-   * @param text LLM response text
-   * @private
-   */
-  private extractTitle(text: string): string {
-    const titleRegex = /(?:title|name):\s*(.*?)(?:\n|$)/i;
-    const match = text.match(titleRegex);
-    return match ? match[1].trim() : 'Untitled Requirement';
+    const result =
+      await this.llmIntegrationService.callStructuredLLmApi<GeneratedFilesDto>({
+        prompt,
+        systemMessage,
+        promptVersionId,
+        schemaName: 'generated_files',
+        schema: GENERATED_FILES_SCHEMA,
+        options,
+      });
+
+    return toGeneratedFileMap(result);
   }
 
   /**
-   * Extract a specific section from LLM response.
+   * Get language-specific context for code generation.
    *
-   * @param text LLM response text
-   * @param section Section name to extract
+   * @param language Target programming language
    * @private
    */
-  private extractSection(text: string, section: string): string {
-    const sectionRegex = new RegExp(
-      `(?:${section}|\\d+\\.\\s*(?:[\\w\\s]+${section}[\\w\\s]+)):?\\s*([\\s\\S]*?)(?:\\n\\s*\\d+\\.|\\n\\s*(?:[A-Z]|\\w+:)|$)`,
-      'i',
-    );
-    const match = text.match(sectionRegex);
-    return match ? match[1].trim() : '';
+  private async getLanguageContext(language: CodeLanguage): Promise<string> {
+    const { prompt } = await this.promptService.renderPrompt({
+      key: `${PromptKey.LANGUAGE_CONTEXT}.${language}`,
+    });
+    return prompt;
   }
 
   /**
-   * Extract components from LLM response.
+   * Describe the existing code of the target repository most relevant to
+   * the requirement. Generation goes on without it when retrieval fails.
    *
-   * @param text LLM response text
+   * @param task Task to generate code for
+   * @param requirementAnalysis Structured analysis of the requirement
    * @private
    */
-  private extractComponents(text: string): string[] {
-    // Try to find components section
-    const componentsSection = this.extractSection(text, 'components|modules');
+  private async getRepositoryContext(
+    task: RequirementTask,
+    requirementAnalysis: RequirementAnalysisDto,
+  ): Promise<string> {
+    if (!this.repositoryIndexService.isEnabled()) {
+      return '';
+    }
 
-    if (!componentsSection) {
-      return [];
+    let chunks: RepositoryChunkDto[];
+    try {
+      chunks = await this.repositoryIndexService.retrieveContext({
+        repositoryUrl: task.repository_url,
+        branch: task.branch,
+        projectId: task.project_id,
+        query: [
+          requirementAnalysis.title,
+          requirementAnalysis.functionality,
+          ...(requirementAnalysis.components || []),
+        ].join('\n'),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Could not retrieve repository context of task ${task.id}: ${error.message}`,
+      );
+      return '';
     }
 
-    // Split by bullet points or numbered items
-    const componentLines = componentsSection
-      .split(/\n\s*[-*•]|\n\s*\d+\.\s+/)
-      .filter(Boolean);
+    if (chunks.length === 0) {
+      return '';
+    }
 
-    return componentLines.map((line) => line.trim());
+    const sections = chunks.map((chunk) => {
+      const symbols =
+        chunk.symbols.length > 0 ? ` (${chunk.symbols.join(', ')})` : '';
+      return `--- ${chunk.filePath}:${chunk.startLine}-${chunk.endLine}${symbols} ---\n${chunk.content}`;
+    });
+
+    return (
+      'Existing code of the repository related to this requirement. Reuse ' +
+      'its utilities and follow its conventions instead of duplicating ' +
+      'them:\n\n' +
+      sections.join('\n\n')
+    );
   }
 
   /**
-   * Extract file structure from LLM response.
+   * Describe the prerequisite tasks the generated code builds on.
    *
-   * @param text LLM response text
+   * @param prerequisites Output of the prerequisite tasks
+   * @param includeFiles Whether to include the content of generated files
    * @private
    */
-  private extractFileStructure(text: string): string[] {
-    const fileStructureSection = this.extractSection(text, 'file structure');
-
-    if (!fileStructureSection) {
-      return [];
-    }
-
-    // Split by bullet points, numbered items, or file paths
-    const fileLines = fileStructureSection
-      .split(/\n\s*[-*•]|\n\s*\d+\.\s+|\n\s*(?:\/|\\)/)
-      .filter(Boolean);
+  private formatPrerequisites(
+    prerequisites: PrerequisiteContextDto[],
+    includeFiles: boolean,
+  ): string {
+    const sections = prerequisites.map((prerequisite) => {
+      const files = Object.entries(prerequisite.files);
+      const header =
+        `Prerequisite task: ${prerequisite.requirementText}\n` +
+        `Commit: ${prerequisite.commitHash || 'not committed'}\n` +
+        `Files:\n${this.formatList(files.map(([path]) => path))}`;
+
+      if (!includeFiles) {
+        return header;
+      }
 
-    return fileLines.map((line) => {
-      // Clean up file paths
-      const cleaned = line.trim().replace(/^(?:\/|\\|-\s*|•\s*|\d+\.\s*)/, '');
-      return cleaned;
+      return [
+        header,
+        ...files.map(([path, content]) => `--- ${path} ---\n${content}`),
+      ].join('\n');
     });
+
+    return (
+      'This requirement builds on the output of earlier tasks, reuse their ' +
+      'files instead of recreating them:\n\n' +
+      sections.join('\n\n')
+    );
   }
 
   /**
@@ -736,59 +792,4 @@ export class CodeGenerationServiceImpl
 
     return items.map((item) => `- ${item}`).join('\n');
   }
-
-  /**
-   * Extract JSON from text response when direct parsing fails.
-   *
-   * @param text LLM response text
-   * @private
-   */
-  private extractJsonFromText(text: string): Record<string, string> {
-    // Try to find JSON block in the text
-    const jsonBlockRegex = /```(?:json)?\s*({[\s\S]*?})\s*```|({[\s\S]*?})/;
-    const match = text.match(jsonBlockRegex);
-
-    if (match && (match[1] || match[2])) {
-      try {
-        return JSON.parse(match[1] || match[2]);
-      } catch (error) {
-        this.logger.error('Failed to parse JSON from extracted block', error);
-      }
-    }
-
-    // Fallback: try to construct JSON from file sections
-    const fileBlockRegex = /```(?:\w+)?\s*\/([^/]+\/[^`]+)```/g;
-    const fileBlocks = [...text.matchAll(fileBlockRegex)];
-
-    const result: Record<string, string> = {};
-
-    for (const match of fileBlocks) {
-      const parts = match[1].split('\n');
-      if (parts.length > 0) {
-        const filePath = parts[0].trim();
-        const content = parts.slice(1).join('\n');
-        result[filePath] = content;
-      }
-    }
-
-    if (Object.keys(result).length > 0) {
-      return result;
-    }
-
-    // Last resort: extract filename/path headers and code blocks
-    const headers = text.match(/#{1,3}\s+([^#\n]+\.[\w]+)/g) || [];
-    const codeBlocks = text.match(/```(?:\w+)?\s*([\s\S]*?)```/g) || [];
-
-    if (headers.length > 0 && headers.length === codeBlocks.length) {
-      for (let i = 0; i < headers.length; i++) {
-        const filePath = headers[i].replace(/^#{1,3}\s+/, '').trim();
-        const content = codeBlocks[i]
-          .replace(/```(?:\w+)?\s*([\s\S]*?)```/, '$1')
-          .trim();
-        result[filePath] = content;
-      }
-    }
-
-    return result;
-  }
 }
@@ -11,9 +11,12 @@ export function configValidator(config: Record<string, unknown>) {
     LLM_API_URL: string().required(),
     LLM_API_KEY: string().required(),
     LLM_API_MODEL: string().default('gpt-4'),
+    LLM_CACHE_TTL: string().default('86400'),
+    LLM_STRUCTURED_OUTPUT_MAX_REPAIRS: string().default('2'),
     GIT_USERNAME: string().required(),
     GIT_EMAIL: string().required(),
     GIT_SSH_KEY_PATH: string().required(),
+    GIT_SSH_KEY_DIR: string().optional(),
     GIT_TEMPLATE_PATH: string().required(),
     REDIS_HOST: string().required(),
     REDIS_PORT: string().default('6379'),
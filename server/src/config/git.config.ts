@@ -4,6 +4,8 @@ export type GitConfig = {
   gitUsername: string;
   gitEmail: string;
   gitSshKeyPath: string;
+  // Directory holding the SSH keys projects can refer to
+  gitSshKeyDir?: string;
   templatePath: string;
 };
 
@@ -11,5 +13,6 @@ export const gitConfig = registerAs<GitConfig>('git', () => ({
   gitUsername: process.env.GIT_USERNAME,
   gitEmail: process.env.GIT_EMAIL,
   gitSshKeyPath: process.env.GIT_SSH_KEY_PATH,
+  gitSshKeyDir: process.env.GIT_SSH_KEY_DIR,
   templatePath: process.env.GIT_TEMPLATE_PATH,
 }));
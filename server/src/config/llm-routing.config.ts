@@ -0,0 +1,109 @@
+import { registerAs } from '@nestjs/config';
+import * as fs from 'fs';
+import { CodeLanguage, TaskPriority } from '.prisma/client';
+import { LLMProvider } from '@server/config/llm.config';
+
+export enum LLMRoutingStage {
+  ANALYSIS = 'analysis',
+  GENERATION = 'generation',
+  SYNTAX_CHECK = 'syntax_check',
+  EVALUATION = 'evaluation',
+}
+
+// Conditions of a rule, every condition set must hold
+export type LLMRoutingMatch = {
+  languages?: CodeLanguage[];
+  priorities?: TaskPriority[];
+  projectIds?: string[];
+  // Estimated tokens of the prompt
+  minPromptTokens?: number;
+  maxPromptTokens?: number;
+};
+
+export type LLMRoutingRule = {
+  name: string;
+  // Stages the rule applies to, every stage when omitted
+  stages?: LLMRoutingStage[];
+  match?: LLMRoutingMatch;
+  // Tried in order until one succeeds
+  providers: LLMProvider[];
+  // Providers whose estimated cost of a call exceeds this are skipped (USD)
+  maxCost?: number;
+};
+
+export type LLMRoutingConfig = {
+  // The first rule matching a call picks its providers
+  rules: LLMRoutingRule[];
+  // Completion tokens assumed when estimating the cost of a call
+  expectedCompletionTokens: number;
+};
+
+// Local models first, as the pipeline always preferred them
+const DEFAULT_RULES: LLMRoutingRule[] = [
+  {
+    name: 'default-analysis',
+    stages: [LLMRoutingStage.ANALYSIS],
+    providers: [LLMProvider.OLLAMA_DEEPSEEK_CHAT, LLMProvider.OPENAI],
+  },
+  {
+    name: 'default-generation',
+    stages: [LLMRoutingStage.GENERATION],
+    providers: [
+      LLMProvider.OLLAMA_KEVIN,
+      LLMProvider.OLLAMA_DEEPSEEK_CODER,
+      LLMProvider.OPENAI,
+    ],
+  },
+  {
+    name: 'default-quality-check',
+    stages: [LLMRoutingStage.SYNTAX_CHECK, LLMRoutingStage.EVALUATION],
+    providers: [LLMProvider.OLLAMA_DEEPSEEK_CHAT, LLMProvider.OPENAI],
+  },
+];
+
+export const llmRoutingConfig = registerAs<LLMRoutingConfig>(
+  'llmRouting',
+  () => ({
+    rules: getRoutingRules(),
+    expectedCompletionTokens: parseInt(
+      process.env.LLM_ROUTING_EXPECTED_COMPLETION_TOKENS || '2048',
+      10,
+    ),
+  }),
+);
+
+/**
+ * Read the routing rules from the JSON file at `LLM_ROUTING_RULES_FILE`,
+ * or use the default rules
+ */
+function getRoutingRules(): LLMRoutingRule[] {
+  const file = process.env.LLM_ROUTING_RULES_FILE;
+  if (!file) {
+    return DEFAULT_RULES;
+  }
+
+  const rules: LLMRoutingRule[] = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(rules)) {
+    throw new Error(`${file} must hold an array of routing rules`);
+  }
+
+  const stages = Object.values(LLMRoutingStage);
+  rules.forEach((rule, index) => {
+    if (!rule.name) {
+      throw new Error(`Routing rule ${index} of ${file} has no name`);
+    }
+    if (!Array.isArray(rule.providers) || rule.providers.length === 0) {
+      throw new Error(`Routing rule ${rule.name} has no providers`);
+    }
+    const unknown = (rule.stages || []).filter(
+      (stage) => !stages.includes(stage),
+    );
+    if (unknown.length) {
+      throw new Error(
+        `Routing rule ${rule.name} has unknown stages: ${unknown.join(', ')}`,
+      );
+    }
+  });
+
+  return rules;
+}
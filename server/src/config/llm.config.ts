@@ -28,20 +28,113 @@ export enum LLMProvider {
   OLLAMA_MINICPM_V = 'ollama-minicpm-v',
   OLLAMA_KEVIN = 'ollama-kevin',
   OLLAMA = 'ollama',
+  // Serves recorded or scripted responses, for running offline
+  REPLAY = 'replay',
 }
 
+export enum LLMReplayMode {
+  // Call the real providers and save every response as a fixture
+  RECORD = 'record',
+  // Answer every call from the fixtures, failing on a missing one
+  REPLAY = 'replay',
+  // Answer every call with the first scripted response whose pattern
+  // matches the prompt
+  MOCK = 'mock',
+}
+
+export type LLMConfig = {
+  llmApiUrl: string;
+  llmApiKey: string;
+  llmApiModel: string;
+  // Seconds a provider response stays cached, 0 disables the cache
+  responseCacheTtl: number;
+  // Re-prompts of a structured output call that fails schema validation
+  structuredOutputMaxRepairs: number;
+};
+
+export const llMConfig = registerAs<LLMConfig>('llm', () => ({
+  llmApiUrl: process.env.LLM_API_URL,
+  llmApiKey: process.env.LLM_API_KEY,
+  llmApiModel: process.env.LLM_API_MODEL || 'gpt-4',
+  responseCacheTtl: parseInt(process.env.LLM_CACHE_TTL || '86400', 10),
+  structuredOutputMaxRepairs: parseInt(
+    process.env.LLM_STRUCTURED_OUTPUT_MAX_REPAIRS || '2',
+    10,
+  ),
+}));
+
+// USD per million tokens
+export type LLMPrice = {
+  prompt: number;
+  completion: number;
+};
+
+export type LLMRetryPolicy = {
+  // Time without a response before a request is aborted (ms)
+  timeoutMs: number;
+  // Retries after the first attempt, 0 disables retrying
+  maxRetries: number;
+  // Exponential backoff base and ceiling, a Retry-After header takes
+  // precedence (ms)
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // HTTP status codes worth retrying, network errors and timeouts are
+  // always retried
+  retryableStatusCodes: number[];
+};
+
+// Limits shared by every instance, 0 disables a limit
+export type LLMRateLimit = {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+  maxInFlight: number;
+  // Time a call may wait for capacity before it fails (ms)
+  maxWaitMs: number;
+};
+
 export type SingleLLMConfig = {
+  // Key of the provider, `ollama-<model>` for local models
+  name: LLMProvider;
   apiUrl: string;
   apiKey: string;
   model: string;
   enabled?: boolean;
   apiType: LLMProvider;
+  // Prices keyed by model, '*' applies to models without their own price
+  pricing?: Record<string, LLMPrice>;
+  retryPolicy?: LLMRetryPolicy;
+  rateLimit?: LLMRateLimit;
+  // Set when settings stored through the provider API apply
+  managed?: boolean;
+};
+
+export type LLMReplayConfig = {
+  mode: LLMReplayMode;
+  // Directory holding one JSON file per recorded response
+  fixturesDir: string;
+  // JSON file with the scripted responses of the mock mode
+  mockFile?: string;
+};
+
+export type LLMEmbeddingConfig = {
+  // `ollama` stands for the local Ollama server
+  provider: LLMProvider;
+  model: string;
+  // Texts sent per request
+  batchSize: number;
 };
 
 export type DynamicLLMConfig = {
   providers: Record<string, SingleLLMConfig>;
-  defaultProvider: LLMProvider.OPENAI;
+  defaultProvider: LLMProvider;
   fallbackOrder: LLMProvider[];
+  // Local Ollama server the installed models are discovered from, absent
+  // when Ollama is disabled
+  ollamaApiUrl?: string;
+  // Absent unless `LLM_REPLAY_MODE` is set
+  replay?: LLMReplayConfig;
+  // Absent when no provider can compute embeddings
+  embedding?: LLMEmbeddingConfig;
 };
 
 export const dynamicLlmConfig = registerAs<DynamicLLMConfig>(
@@ -63,6 +156,7 @@ export const dynamicLlmConfig = registerAs<DynamicLLMConfig>(
 
       if (apiKey) {
         config[provider] = {
+          name: provider,
           apiUrl:
             process.env[`${upperProvider}_API_URL`] || getDefaultUrl(provider),
           apiKey,
@@ -70,6 +164,11 @@ export const dynamicLlmConfig = registerAs<DynamicLLMConfig>(
             process.env[`${upperProvider}_MODEL`] || getDefaultModel(provider),
           enabled: process.env[`${upperProvider}_ENABLED`] !== 'false',
           apiType: provider,
+          pricing: {
+            ...getDefaultPricing(provider),
+            ...parsePricing(process.env[`${upperProvider}_PRICING`]),
+          },
+          ...getProviderLimits(provider),
         };
       }
     });
@@ -79,56 +178,152 @@ export const dynamicLlmConfig = registerAs<DynamicLLMConfig>(
     const ollamaEnabled = process.env.OLLAMA_ENABLED !== 'false';
 
     if (ollamaEnabled) {
-      const ollamaModels = [
-        'llama2',
-        'llama3',
-        'llama3.1',
-        'llama3.2',
-        'deepseek-coder',
-        'deepseek-chat',
-        'deepseek-r1',
-        'qwen',
-        'qwen2',
-        'qwen2.5',
-        'phi',
-        'phi3',
-        'mistral',
-        'mixtral',
-        'codellama',
-        'vicuna',
-        'openchat',
-        'qwq',
-        'minicpm-v',
-        'kevin',
-      ];
-
-      const enabledOllamaModels = process.env.OLLAMA_MODELS
+      // Registered until the installed models are discovered, or when the
+      // server cannot be reached
+      const configuredOllamaModels = process.env.OLLAMA_MODELS
         ? process.env.OLLAMA_MODELS.split(',').map((m) => m.trim())
         : ['llama3.1'];
 
-      enabledOllamaModels.forEach((model) => {
-        if (ollamaModels.includes(model)) {
-          config[`ollama-${model}`] = {
-            apiUrl: ollamaUrl, // 使用原生 URL
-            apiKey: 'ollama',
-            model: model,
-            enabled: true,
-            apiType: LLMProvider.OLLAMA,
-          };
-        }
+      configuredOllamaModels.filter(Boolean).forEach((model) => {
+        const ollamaConfig = createOllamaProviderConfig(ollamaUrl, model);
+        config[ollamaConfig.name] = ollamaConfig;
       });
     }
 
+    const replay = getReplayConfig();
+    if (replay && replay.mode !== LLMReplayMode.RECORD) {
+      config[LLMProvider.REPLAY] = {
+        name: LLMProvider.REPLAY,
+        apiUrl: replay.fixturesDir,
+        apiKey: 'replay',
+        model: replay.mode,
+        enabled: true,
+        apiType: LLMProvider.REPLAY,
+        pricing: { '*': { prompt: 0, completion: 0 } },
+      };
+    }
+
     return {
       providers: config,
       defaultProvider: LLMProvider.OPENAI,
       fallbackOrder: (process.env.LLM_FALLBACK_ORDER || '')
         .split(',')
         .filter(Boolean) as LLMProvider[],
+      ollamaApiUrl: ollamaEnabled ? ollamaUrl : undefined,
+      replay,
+      // Recorded prompts would not match without the same retrieved context
+      embedding: replay ? undefined : getEmbeddingConfig(config, ollamaEnabled),
     };
   },
 );
 
+/**
+ * Provider name of an Ollama model, the default `latest` tag is left out
+ * @param model Ollama model name, e.g. `llama3.1:latest` or `qwen2.5-coder:7b`
+ */
+export function getOllamaProviderName(model: string): LLMProvider {
+  return `ollama-${model.replace(/:latest$/, '')}` as LLMProvider;
+}
+
+/**
+ * Provider settings of a model of the local Ollama server
+ * @param apiUrl Ollama server URL
+ * @param model Ollama model name
+ */
+export function createOllamaProviderConfig(
+  apiUrl: string,
+  model: string,
+): SingleLLMConfig {
+  return {
+    name: getOllamaProviderName(model),
+    apiUrl,
+    apiKey: 'ollama',
+    model,
+    enabled: true,
+    apiType: LLMProvider.OLLAMA,
+    // Local models cost nothing per token
+    pricing: { '*': { prompt: 0, completion: 0 } },
+    ...getProviderLimits(LLMProvider.OLLAMA),
+  };
+}
+
+/**
+ * Retry policy and rate limits configured for a provider type
+ * @param apiType Provider type
+ */
+export function getProviderLimits(
+  apiType: LLMProvider,
+): Required<Pick<SingleLLMConfig, 'retryPolicy' | 'rateLimit'>> {
+  if (apiType === LLMProvider.OLLAMA) {
+    return {
+      // Local models may load for minutes before answering
+      retryPolicy: getRetryPolicy('OLLAMA', 600000),
+      // Every model of the server counts toward the same limits, as the
+      // server runs one generation at a time by default
+      rateLimit: getRateLimit('OLLAMA', 1, 900000),
+    };
+  }
+
+  const upperProvider = apiType.toUpperCase();
+  return {
+    retryPolicy: getRetryPolicy(upperProvider, 120000),
+    rateLimit: getRateLimit(upperProvider, 0, 120000),
+  };
+}
+
+/**
+ * Read the replay settings from `LLM_REPLAY_MODE`, `LLM_REPLAY_FIXTURES_DIR`
+ * and `LLM_REPLAY_MOCK_FILE`
+ */
+function getReplayConfig(): LLMReplayConfig | undefined {
+  const mode = process.env.LLM_REPLAY_MODE as LLMReplayMode;
+  if (!mode) {
+    return undefined;
+  }
+  if (!Object.values(LLMReplayMode).includes(mode)) {
+    throw new Error(`Unknown LLM_REPLAY_MODE '${mode}'`);
+  }
+
+  return {
+    mode,
+    fixturesDir: process.env.LLM_REPLAY_FIXTURES_DIR || 'test/fixtures/llm',
+    mockFile: process.env.LLM_REPLAY_MOCK_FILE,
+  };
+}
+
+/**
+ * Read the embedding settings from `LLM_EMBEDDING_PROVIDER`,
+ * `LLM_EMBEDDING_MODEL` and `LLM_EMBEDDING_BATCH_SIZE`. Defaults to OpenAI
+ * when it is configured, else to the local Ollama server.
+ */
+function getEmbeddingConfig(
+  providers: Record<string, SingleLLMConfig>,
+  ollamaEnabled: boolean,
+): LLMEmbeddingConfig | undefined {
+  const provider =
+    (process.env.LLM_EMBEDDING_PROVIDER as LLMProvider) ||
+    (providers[LLMProvider.OPENAI] && LLMProvider.OPENAI) ||
+    (ollamaEnabled && LLMProvider.OLLAMA);
+  if (!provider) {
+    return undefined;
+  }
+
+  const defaultModels: Record<string, string> = {
+    openai: 'text-embedding-3-small',
+    ollama: 'nomic-embed-text',
+  };
+  const model = process.env.LLM_EMBEDDING_MODEL || defaultModels[provider];
+  if (!model) {
+    throw new Error(`LLM_EMBEDDING_MODEL is required for ${provider}`);
+  }
+
+  return {
+    provider,
+    model,
+    batchSize: parseInt(process.env.LLM_EMBEDDING_BATCH_SIZE || '64', 10),
+  };
+}
+
 function getDefaultUrl(provider: string): string {
   const urls: Record<string, string> = {
     openai: 'https://api.openai.com/v1',
@@ -136,27 +331,6 @@ function getDefaultUrl(provider: string): string {
     google: 'https://generativelanguage.googleapis.com/v1',
     deepseek: 'https://api.deepseek.com/v1',
     qwen: 'https://dashscope.aliyuncs.com/api/v1',
-    'ollama-llama2': 'http://localhost:11434',
-    'ollama-llama3': 'http://localhost:11434',
-    'ollama-llama3.1': 'http://localhost:11434',
-    'ollama-llama3.2': 'http://localhost:11434',
-    'ollama-deepseek-coder': 'http://localhost:11434',
-    'ollama-deepseek-chat': 'http://localhost:11434',
-    'ollama-deepseek-r1': 'http://localhost:11434',
-    'ollama-qwen': 'http://localhost:11434',
-    'ollama-qwen2': 'http://localhost:11434',
-    'ollama-qwen2.5': 'http://localhost:11434',
-    'ollama-phi': 'http://localhost:11434',
-    'ollama-phi3': 'http://localhost:11434',
-    'ollama-mistral': 'http://localhost:11434',
-    'ollama-mixtral': 'http://localhost:11434',
-    'ollama-codellama': 'http://localhost:11434',
-    'ollama-vicuna': 'http://localhost:11434',
-    'ollama-openchat': 'http://localhost:11434',
-    'ollama-qwq': 'http://localhost:11434',
-    'ollama-minicpm-v': 'http://localhost:11434',
-    'ollama-kevin': 'http://localhost:11434',
-    ollama: 'http://localhost:11434',
   };
   return urls[provider] || '';
 }
@@ -171,3 +345,96 @@ function getDefaultModel(provider: string): string {
   };
   return models[provider] || '';
 }
+
+function getDefaultPricing(provider: string): Record<string, LLMPrice> {
+  const pricing: Record<string, Record<string, LLMPrice>> = {
+    openai: {
+      'gpt-4': { prompt: 30, completion: 60 },
+      'gpt-4-turbo': { prompt: 10, completion: 30 },
+      'gpt-4o': { prompt: 2.5, completion: 10 },
+      'gpt-4o-mini': { prompt: 0.15, completion: 0.6 },
+      'text-embedding-3-small': { prompt: 0.02, completion: 0 },
+      'text-embedding-3-large': { prompt: 0.13, completion: 0 },
+    },
+    anthropic: {
+      'claude-3.7': { prompt: 3, completion: 15 },
+      'claude-3-7-sonnet-latest': { prompt: 3, completion: 15 },
+      'claude-3-5-haiku-latest': { prompt: 0.8, completion: 4 },
+    },
+    google: {
+      'gemini-pro': { prompt: 0.5, completion: 1.5 },
+      'gemini-1.5-flash': { prompt: 0.075, completion: 0.3 },
+    },
+    deepseek: {
+      'deepseek-chat': { prompt: 0.27, completion: 1.1 },
+      'deepseek-coder': { prompt: 0.27, completion: 1.1 },
+    },
+    qwen: {
+      'qwen-turbo': { prompt: 0.05, completion: 0.2 },
+    },
+  };
+  return pricing[provider] || {};
+}
+
+/**
+ * Parse a price table override, e.g.
+ * `{"gpt-4o": {"prompt": 2.5, "completion": 10}}`
+ */
+function parsePricing(value?: string): Record<string, LLMPrice> {
+  if (!value) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Invalid LLM price table '${value}': ${error.message}`);
+  }
+}
+
+/**
+ * Read the retry policy of a provider from `<PROVIDER>_TIMEOUT_MS`,
+ * `<PROVIDER>_MAX_RETRIES`, `<PROVIDER>_RETRY_BASE_DELAY_MS`,
+ * `<PROVIDER>_RETRY_MAX_DELAY_MS` and `<PROVIDER>_RETRYABLE_STATUS_CODES`
+ */
+function getRetryPolicy(
+  upperProvider: string,
+  defaultTimeoutMs: number,
+): LLMRetryPolicy {
+  const env = (name: string) => process.env[`${upperProvider}_${name}`];
+
+  return {
+    timeoutMs: parseInt(env('TIMEOUT_MS') || `${defaultTimeoutMs}`, 10),
+    maxRetries: parseInt(env('MAX_RETRIES') || '3', 10),
+    baseDelayMs: parseInt(env('RETRY_BASE_DELAY_MS') || '1000', 10),
+    maxDelayMs: parseInt(env('RETRY_MAX_DELAY_MS') || '30000', 10),
+    retryableStatusCodes: (
+      env('RETRYABLE_STATUS_CODES') || '408,409,429,500,502,503,504,529'
+    )
+      .split(',')
+      .map((code) => parseInt(code.trim(), 10))
+      .filter((code) => !isNaN(code)),
+  };
+}
+
+/**
+ * Read the rate limits of a provider from `<PROVIDER>_RPM`, `<PROVIDER>_TPM`,
+ * `<PROVIDER>_MAX_IN_FLIGHT` and `<PROVIDER>_RATE_LIMIT_MAX_WAIT_MS`
+ */
+function getRateLimit(
+  upperProvider: string,
+  defaultMaxInFlight: number,
+  defaultMaxWaitMs: number,
+): LLMRateLimit {
+  const env = (name: string) => process.env[`${upperProvider}_${name}`];
+
+  return {
+    requestsPerMinute: parseInt(env('RPM') || '0', 10),
+    tokensPerMinute: parseInt(env('TPM') || '0', 10),
+    maxInFlight: parseInt(env('MAX_IN_FLIGHT') || `${defaultMaxInFlight}`, 10),
+    maxWaitMs: parseInt(
+      env('RATE_LIMIT_MAX_WAIT_MS') || `${defaultMaxWaitMs}`,
+      10,
+    ),
+  };
+}
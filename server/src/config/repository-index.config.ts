@@ -0,0 +1,25 @@
+import { registerAs } from '@nestjs/config';
+
+export type RepositoryIndexConfig = {
+  // Retrieval of existing code for generation, needs an embedding provider
+  enabled: boolean;
+  // Chunks of existing code added to a generation prompt
+  maxResults: number;
+  // Larger files, usually generated or vendored, are not indexed (bytes)
+  maxFileSize: number;
+  // Lines of a chunk, chunks end early at a top-level declaration
+  chunkLines: number;
+};
+
+export const repositoryIndexConfig = registerAs<RepositoryIndexConfig>(
+  'repositoryIndex',
+  () => ({
+    enabled: process.env.REPOSITORY_INDEX_ENABLED !== 'false',
+    maxResults: parseInt(process.env.REPOSITORY_INDEX_MAX_RESULTS || '8', 10),
+    maxFileSize: parseInt(
+      process.env.REPOSITORY_INDEX_MAX_FILE_SIZE || '200000',
+      10,
+    ),
+    chunkLines: parseInt(process.env.REPOSITORY_INDEX_CHUNK_LINES || '60', 10),
+  }),
+);
@@ -3,14 +3,34 @@
  */
 export const LLM_SERVICE = Symbol('LLM_SERVICE');
 export const LLM_INTEGRATION_SERVICE = Symbol('LLM_INTEGRATION_SERVICE');
+export const LLM_USAGE_SERVICE = Symbol('LLM_USAGE_SERVICE');
+export const LLM_CACHE_SERVICE = Symbol('LLM_CACHE_SERVICE');
+export const LLM_HEALTH_SERVICE = Symbol('LLM_HEALTH_SERVICE');
+export const LLM_RATE_LIMITER_SERVICE = Symbol('LLM_RATE_LIMITER_SERVICE');
+export const LLM_STRUCTURED_OUTPUT_SERVICE = Symbol(
+  'LLM_STRUCTURED_OUTPUT_SERVICE',
+);
+export const LLM_OLLAMA_SERVICE = Symbol('LLM_OLLAMA_SERVICE');
+export const LLM_REPLAY_SERVICE = Symbol('LLM_REPLAY_SERVICE');
+export const LLM_PROVIDER_SERVICE = Symbol('LLM_PROVIDER_SERVICE');
+export const LLM_ROUTER_SERVICE = Symbol('LLM_ROUTER_SERVICE');
 export const REQUIREMENT_ANALYSIS_SERVICE = Symbol(
   'REQUIREMENT_ANALYSIS_SERVICE',
 );
 export const REQUIREMENT_QUEUE_SERVICE = Symbol('REQUIREMENT_QUEUE_SERVICE');
 export const REQUIREMENT_TASK_SERVICE = Symbol('REQUIREMENT_TASK_SERVICE');
+export const TASK_STAGE_SERVICE = Symbol('TASK_STAGE_SERVICE');
+export const TASK_STREAM_SERVICE = Symbol('TASK_STREAM_SERVICE');
+export const TASK_DEPENDENCY_SERVICE = Symbol('TASK_DEPENDENCY_SERVICE');
 export const CODE_GENERATION_SERVICE = Symbol('CODE_GENERATION_SERVICE');
 export const GIT_INTEGRATION_SERVICE = Symbol('GIT_INTEGRATION_SERVICE');
 export const QUALITY_CHECK_SERVICE = Symbol('QUALITY_CHECK_SERVICE');
+export const PIPELINE_SERVICE = Symbol('PIPELINE_SERVICE');
+export const WEBHOOK_SERVICE = Symbol('WEBHOOK_SERVICE');
+export const PROJECT_SERVICE = Symbol('PROJECT_SERVICE');
+export const PROMPT_SERVICE = Symbol('PROMPT_SERVICE');
+export const REPOSITORY_INDEX_SERVICE = Symbol('REPOSITORY_INDEX_SERVICE');
+export const WEBHOOK_DELIVERY_SERVICE = Symbol('WEBHOOK_DELIVERY_SERVICE');
 
 /**
  * Define processor token
@@ -25,6 +45,13 @@ export const STRUCTURAL_ANALYER_PROVIDER = Symbol(
   'STRUCTURAL_ANALYER_PROVIDER',
 );
 
+/**
+ * Define strategy token
+ */
+export const WEBHOOK_NOTIFICATION_STRATEGY = Symbol(
+  'WEBHOOK_NOTIFICATION_STRATEGY',
+);
+
 /**
  * Define repository token
  */
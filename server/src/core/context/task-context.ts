@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CodeLanguage, TaskPriority } from '.prisma/client';
+import { LLMProvider } from '@server/config/llm.config';
+
+/**
+ * Context of the requirement task currently being processed
+ */
+export interface TaskContext {
+  taskId: string;
+  // Project of the task, selects the versions of the prompts
+  projectId?: string;
+  // Aborted when the task is cancelled
+  signal: AbortSignal;
+  // Providers of the task's project tried first, in order
+  preferredProviders?: LLMProvider[];
+  // Language and priority of the task, matched by the routing rules
+  language?: CodeLanguage;
+  priority?: TaskPriority;
+}
+
+const taskContextStorage = new AsyncLocalStorage<TaskContext>();
+
+/**
+ * Run a function with the given task context, so that every async call
+ * made from it can reach the task ID and abort signal
+ * @param context Task context
+ * @param fn Function to run
+ */
+export function runWithTaskContext<T>(
+  context: TaskContext,
+  fn: () => Promise<T>,
+): Promise<T> {
+  return taskContextStorage.run(context, fn);
+}
+
+/**
+ * Get the context of the task being processed, if any
+ */
+export function getTaskContext(): TaskContext | undefined {
+  return taskContextStorage.getStore();
+}
@@ -1,4 +1,5 @@
 export * from './app-errors';
 export * from './common-error-code';
 export * from './to-error-response';
+export * from './to-http-status';
 export * from './app-error-to-http-exception.interceptor';
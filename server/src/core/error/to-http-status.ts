@@ -0,0 +1,38 @@
+import { HttpStatus } from '@nestjs/common';
+import { AppError } from './app-errors';
+import { CommonErrorCode } from './common-error-code';
+
+/**
+ * HTTP status of a common error code, or null when it has none
+ * @param code Error code
+ */
+export function mapCommonErrorCodeToHttpStatus(
+  code: string,
+): HttpStatus | null {
+  switch (code) {
+    case CommonErrorCode.ValidationError:
+      return HttpStatus.BAD_REQUEST;
+    case CommonErrorCode.UnauthorizedError:
+      return HttpStatus.UNAUTHORIZED;
+    case CommonErrorCode.ForbiddenError:
+      return HttpStatus.FORBIDDEN;
+    case CommonErrorCode.NotFoundError:
+      return HttpStatus.NOT_FOUND;
+    case CommonErrorCode.ConflictError:
+      return HttpStatus.CONFLICT;
+    default:
+      return null;
+  }
+}
+
+/**
+ * HTTP status of an error caught by a controller, errors other than
+ * AppError are server errors
+ * @param error Caught error
+ */
+export function toHttpStatus(error: unknown): HttpStatus {
+  return (
+    (error instanceof AppError && mapCommonErrorCodeToHttpStatus(error.code)) ||
+    HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
@@ -1,4 +1,5 @@
 import { Logger } from '@nestjs/common';
+import { TaskLifecycleEvent } from '.prisma/client';
 import { IEvent } from './base.event';
 
 // Generic EventListener interface - Single Responsibility
@@ -27,6 +28,11 @@ export interface ICodeStorageStrategy {
 
 export interface INotificationStrategy {
   notifyCompletion(taskId: string): Promise<void>;
+  notifyEvent(
+    taskId: string,
+    event: TaskLifecycleEvent,
+    data: Record<string, any>,
+  ): Promise<void>;
 }
 
 export interface IAnalyticsStrategy<TEvent extends IEvent> {
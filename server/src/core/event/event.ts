@@ -2,3 +2,11 @@ export enum EventType {
   CODE_GENERATION = 'code-generation',
   CODE_COMMIT = 'code-commit',
 }
+
+export enum TaskEventType {
+  STATUS = 'task.status',
+  QUEUE = 'task.queue',
+  LLM_OUTPUT = 'task.llm-output',
+  LLM_RETRY = 'task.llm-retry',
+  LIFECYCLE = 'task.lifecycle',
+}
@@ -0,0 +1,17 @@
+import { TaskEventType } from '@server/core/event/event';
+
+// Live update of a requirement task, pushed to SSE and WebSocket clients
+export interface TaskStreamEvent<T = Record<string, any>> {
+  taskId: string;
+  type: TaskEventType;
+  data: T;
+  timestamp: string;
+}
+
+export function createTaskStreamEvent<T = Record<string, any>>(
+  taskId: string,
+  type: TaskEventType,
+  data: T,
+): TaskStreamEvent<T> {
+  return { taskId, type, data, timestamp: new Date().toISOString() };
+}
@@ -9,7 +9,12 @@ import {
 import { Observable, iif, throwError } from 'rxjs';
 import { catchError } from 'rxjs/operators';
 
-import { AppError, CommonErrorCode, toErrorResponse } from '@server/core/error';
+import {
+  AppError,
+  CommonErrorCode,
+  mapCommonErrorCodeToHttpStatus,
+  toErrorResponse,
+} from '@server/core/error';
 
 export abstract class ErrorToHttpExceptionInterceptor
   implements NestInterceptor
@@ -46,20 +51,7 @@ export abstract class ErrorToHttpExceptionInterceptor
     if (httpStatus) return httpStatus;
 
     // Fallback to the common mapper
-    switch (code) {
-      case CommonErrorCode.ValidationError:
-        return HttpStatus.BAD_REQUEST;
-      case CommonErrorCode.UnauthorizedError:
-        return HttpStatus.UNAUTHORIZED;
-      case CommonErrorCode.ForbiddenError:
-        return HttpStatus.FORBIDDEN;
-      case CommonErrorCode.NotFoundError:
-        return HttpStatus.NOT_FOUND;
-      case CommonErrorCode.ConflictError:
-        return HttpStatus.CONFLICT;
-      default:
-        return this.defaultHttpStatus();
-    }
+    return mapCommonErrorCodeToHttpStatus(code) ?? this.defaultHttpStatus();
   }
 
   private mapToHttpException(err: any): HttpException {
@@ -0,0 +1,277 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  Logger,
+  Inject,
+} from '@nestjs/common';
+import { toHttpStatus } from '@server/core/error';
+import { LlmUsageService } from '@server/core/llm/service/llm-usage.service';
+import { LlmCacheService } from '@server/core/llm/service/llm-cache.service';
+import { LlmHealthService } from '@server/core/llm/service/llm-health.service';
+import { LlmOllamaService } from '@server/core/llm/service/llm-ollama.service';
+import { LlmProviderService } from '@server/core/llm/service/llm-provider.service';
+import {
+  QueryLlmUsageDto,
+  ProviderUsageDto,
+} from '@server/core/llm/dto/llm-usage.dto';
+import {
+  LlmCacheStatsDto,
+  PurgeLlmCacheDto,
+} from '@server/core/llm/dto/llm-cache.dto';
+import { ProviderHealthDto } from '@server/core/llm/dto/llm-health.dto';
+import {
+  OllamaModelDto,
+  OllamaModelDetailDto,
+  OllamaPullStatusDto,
+  PullOllamaModelDto,
+} from '@server/core/llm/dto/llm-ollama.dto';
+import {
+  CreateLlmProviderDto,
+  UpdateLlmProviderDto,
+  UpdateLlmProviderDefaultsDto,
+  LlmProviderDto,
+  LlmProviderListDto,
+} from '@server/core/llm/dto/llm-provider.dto';
+import {
+  LLM_USAGE_SERVICE,
+  LLM_CACHE_SERVICE,
+  LLM_HEALTH_SERVICE,
+  LLM_OLLAMA_SERVICE,
+  LLM_PROVIDER_SERVICE,
+} from '@server/constants';
+
+@Controller('llm')
+export class LlmController {
+  private readonly logger = new Logger(LlmController.name);
+
+  constructor(
+    @Inject(LLM_USAGE_SERVICE)
+    private readonly llmUsageService: LlmUsageService,
+
+    @Inject(LLM_CACHE_SERVICE)
+    private readonly llmCacheService: LlmCacheService,
+
+    @Inject(LLM_HEALTH_SERVICE)
+    private readonly llmHealthService: LlmHealthService,
+
+    @Inject(LLM_OLLAMA_SERVICE)
+    private readonly llmOllamaService: LlmOllamaService,
+
+    @Inject(LLM_PROVIDER_SERVICE)
+    private readonly llmProviderService: LlmProviderService,
+  ) {}
+
+  @Get('providers')
+  getProviders(): LlmProviderListDto {
+    return this.llmProviderService.listProviders();
+  }
+
+  @Post('providers')
+  async createProvider(
+    @Body() dto: CreateLlmProviderDto,
+  ): Promise<LlmProviderDto> {
+    try {
+      return await this.llmProviderService.createProvider(dto);
+    } catch (error) {
+      this.logger.error(
+        `Error creating LLM provider: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to create LLM provider: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Put('providers/defaults')
+  async updateProviderDefaults(
+    @Body() dto: UpdateLlmProviderDefaultsDto,
+  ): Promise<LlmProviderListDto> {
+    try {
+      return await this.llmProviderService.updateDefaults(dto);
+    } catch (error) {
+      this.logger.error(
+        `Error updating LLM provider defaults: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to update LLM provider defaults: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Patch('providers/:name')
+  async updateProvider(
+    @Param('name') name: string,
+    @Body() dto: UpdateLlmProviderDto,
+  ): Promise<LlmProviderDto> {
+    try {
+      return await this.llmProviderService.updateProvider(name, dto);
+    } catch (error) {
+      this.logger.error(
+        `Error updating LLM provider: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to update LLM provider: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  // Restores the env settings of the provider, if any
+  @Delete('providers/:name')
+  async deleteProvider(@Param('name') name: string): Promise<void> {
+    try {
+      await this.llmProviderService.deleteProvider(name);
+    } catch (error) {
+      this.logger.error(
+        `Error deleting LLM provider: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to delete LLM provider: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get('providers/health')
+  getProviderHealth(): ProviderHealthDto[] {
+    return this.llmHealthService.getHealth();
+  }
+
+  @Get('usage/providers')
+  async getProviderUsage(
+    @Query() query: QueryLlmUsageDto,
+  ): Promise<ProviderUsageDto[]> {
+    try {
+      return await this.llmUsageService.getProviderUsage(query);
+    } catch (error) {
+      this.logger.error(
+        `Error getting provider usage: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to get provider usage: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get('cache/stats')
+  async getCacheStats(): Promise<LlmCacheStatsDto> {
+    try {
+      return await this.llmCacheService.getStats();
+    } catch (error) {
+      this.logger.error(
+        `Error getting cache stats: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to get cache stats: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Delete('cache')
+  async purgeCache(
+    @Query() query: PurgeLlmCacheDto,
+  ): Promise<{ deleted: number }> {
+    try {
+      const deleted = await this.llmCacheService.purge(query);
+      return { deleted };
+    } catch (error) {
+      this.logger.error(`Error purging cache: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to purge cache: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get('ollama/models')
+  async listOllamaModels(): Promise<OllamaModelDto[]> {
+    try {
+      return await this.llmOllamaService.refreshModels();
+    } catch (error) {
+      this.logger.error(
+        `Error listing Ollama models: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to list Ollama models: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post('ollama/models')
+  async pullOllamaModel(
+    @Body() dto: PullOllamaModelDto,
+  ): Promise<OllamaPullStatusDto> {
+    try {
+      return await this.llmOllamaService.pullModel(dto.name);
+    } catch (error) {
+      this.logger.error(
+        `Error pulling Ollama model: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to pull Ollama model: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get('ollama/pulls')
+  getOllamaPulls(): OllamaPullStatusDto[] {
+    return this.llmOllamaService.getPullStatuses();
+  }
+
+  // Names with a namespace, e.g. `hf.co/org/model`, must be URL-encoded
+  @Get('ollama/models/:name')
+  async showOllamaModel(
+    @Param('name') name: string,
+  ): Promise<OllamaModelDetailDto> {
+    try {
+      return await this.llmOllamaService.showModel(name);
+    } catch (error) {
+      this.logger.error(
+        `Error showing Ollama model: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to show Ollama model: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Delete('ollama/models/:name')
+  async deleteOllamaModel(@Param('name') name: string): Promise<void> {
+    try {
+      await this.llmOllamaService.deleteModel(name);
+    } catch (error) {
+      this.logger.error(
+        `Error deleting Ollama model: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to delete Ollama model: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { LLMProvider } from '@server/config/llm.config';
+import {
+  LLMTokenUsageDto,
+  LLMMessageDto,
+  LLMResponseFormatDto,
+} from '@server/core/llm/dto/llm.dto';
+
+export class LlmCacheKeyDto {
+  provider: LLMProvider;
+  model: string;
+  prompt?: string;
+  systemMessage?: string;
+  // Conversations with more than a single user message
+  messages?: LLMMessageDto[];
+  temperature?: number;
+  maxTokens?: number;
+  // Schema-constrained calls are cached apart from free-text ones
+  responseFormat?: LLMResponseFormatDto;
+}
+
+export class LlmCacheEntryDto {
+  content: string;
+  usage: LLMTokenUsageDto;
+  createdAt: string;
+}
+
+export class PurgeLlmCacheDto {
+  provider?: string;
+  // Matched against keys without the cache namespace, e.g. `openai:gpt-4o`,
+  // or against the model part when a provider is given, e.g. `gpt-4o`
+  prefix?: string;
+}
+
+export class LlmCacheProviderStatsDto {
+  provider: string;
+  hits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export class LlmCacheStatsDto {
+  ttl: number;
+  hits: number;
+  misses: number;
+  hitRate: number;
+  providers: LlmCacheProviderStatsDto[];
+}
@@ -0,0 +1,24 @@
+export enum CircuitState {
+  // Calls go through
+  CLOSED = 'closed',
+  // Calls are skipped until the cooldown ends
+  OPEN = 'open',
+  // A single probe call decides whether the circuit closes again
+  HALF_OPEN = 'half_open',
+}
+
+export class ProviderHealthDto {
+  provider: string;
+  model: string;
+  state: CircuitState;
+  // Over the rolling window
+  calls: number;
+  failures: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  lastError?: string;
+  lastFailureAt?: string;
+  openedAt?: string;
+  nextProbeAt?: string;
+}
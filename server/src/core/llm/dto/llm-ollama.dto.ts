@@ -0,0 +1,48 @@
+import { LLMProvider } from '@server/config/llm.config';
+
+export enum OllamaPullState {
+  PULLING = 'pulling',
+  SUCCEEDED = 'succeeded',
+  FAILED = 'failed',
+}
+
+export class OllamaModelDto {
+  // Ollama model name with its tag, e.g. `qwen2.5-coder:7b`
+  name: string;
+  // Name the model is registered under as an LLM provider
+  provider: LLMProvider;
+  // Bytes
+  size: number;
+  digest: string;
+  modifiedAt: string;
+  family?: string;
+  parameterSize?: string;
+  quantizationLevel?: string;
+}
+
+export class OllamaModelDetailDto {
+  name: string;
+  provider: LLMProvider;
+  modelfile?: string;
+  parameters?: string;
+  template?: string;
+  details?: Record<string, any>;
+  modelInfo?: Record<string, any>;
+}
+
+export class PullOllamaModelDto {
+  name: string;
+}
+
+export class OllamaPullStatusDto {
+  name: string;
+  state: OllamaPullState;
+  // Latest progress message of Ollama, e.g. `pulling manifest`
+  status?: string;
+  // Bytes of the layer being downloaded
+  completed?: number;
+  total?: number;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+}
@@ -0,0 +1,61 @@
+import {
+  LLMProvider,
+  LLMPrice,
+  LLMRetryPolicy,
+  LLMRateLimit,
+} from '@server/config/llm.config';
+
+export class CreateLlmProviderDto {
+  // Letters, digits, dots, dashes, underscores and colons
+  name: string;
+  // API the provider speaks, other types than anthropic, google and ollama
+  // are called through the OpenAI compatible API
+  apiType: LLMProvider;
+  apiUrl: string;
+  apiKey?: string;
+  model: string;
+  enabled?: boolean;
+  pricing?: Record<string, LLMPrice>;
+  // Omitted fields keep the configured values
+  retryPolicy?: Partial<LLMRetryPolicy>;
+  rateLimit?: Partial<LLMRateLimit>;
+}
+
+export class UpdateLlmProviderDto {
+  apiType?: LLMProvider;
+  apiUrl?: string;
+  apiKey?: string;
+  model?: string;
+  enabled?: boolean;
+  pricing?: Record<string, LLMPrice>;
+  // Omitted fields keep the configured values
+  retryPolicy?: Partial<LLMRetryPolicy>;
+  rateLimit?: Partial<LLMRateLimit>;
+}
+
+export class UpdateLlmProviderDefaultsDto {
+  defaultProvider?: LLMProvider;
+  // An empty order restores the env config
+  fallbackOrder?: LLMProvider[];
+}
+
+export class LlmProviderDto {
+  name: LLMProvider;
+  apiType: LLMProvider;
+  apiUrl: string;
+  // Masked, e.g. `sk-...a1b2`
+  apiKey: string;
+  model: string;
+  enabled: boolean;
+  // Whether settings stored through the API apply
+  managed: boolean;
+  pricing?: Record<string, LLMPrice>;
+  retryPolicy?: LLMRetryPolicy;
+  rateLimit?: LLMRateLimit;
+}
+
+export class LlmProviderListDto {
+  defaultProvider: LLMProvider;
+  fallbackOrder: LLMProvider[];
+  providers: LlmProviderDto[];
+}
@@ -0,0 +1,30 @@
+import { LLMProvider } from '@server/config/llm.config';
+import { LLMTokenUsageDto, LLMMessageDto } from '@server/core/llm/dto/llm.dto';
+
+export class LlmReplayFixtureDto {
+  // Hash of the normalized prompt, also the file name
+  key: string;
+  // Provider and model the response was recorded from
+  provider: LLMProvider;
+  model: string;
+  systemMessage?: string;
+  messages?: LLMMessageDto[];
+  prompt?: string;
+  content: string;
+  usage: LLMTokenUsageDto;
+  recordedAt: string;
+}
+
+export class LlmReplayMockDto {
+  // Regular expression matched against the prompt, or the last user
+  // message of a conversation
+  pattern: string;
+  flags?: string;
+  // Objects are answered as JSON, for structured output calls
+  response: string | Record<string, any> | any[];
+}
+
+export class LlmReplayResponseDto {
+  content: string;
+  usage: LLMTokenUsageDto;
+}
@@ -0,0 +1,30 @@
+import { CodeLanguage, TaskPriority } from '.prisma/client';
+import { LLMProvider } from '@server/config/llm.config';
+import { LLMRoutingStage } from '@server/config/llm-routing.config';
+
+export class RouteLLMDto {
+  stage: LLMRoutingStage;
+  // Taken from the running task when omitted
+  language?: CodeLanguage;
+  priority?: TaskPriority;
+  projectId?: string;
+  // Sized to match the prompt size conditions and the cost budget
+  prompt?: string;
+  systemMessage?: string;
+}
+
+export class LlmRoutingSkipDto {
+  provider: LLMProvider;
+  reason: string;
+}
+
+export class LlmRoutingDecisionDto {
+  stage: LLMRoutingStage;
+  // Null when no rule matched and the fallback order applies
+  rule: string | null;
+  // Providers to try in order
+  providers: LLMProvider[];
+  skipped: LlmRoutingSkipDto[];
+  // Why the providers were chosen
+  reason: string;
+}
@@ -0,0 +1,41 @@
+import { LlmCallStatus } from '.prisma/client';
+
+export class RecordLlmCallDto {
+  taskId?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  latencyMs: number;
+  status: LlmCallStatus;
+  error?: string;
+  promptVersionId?: string;
+  stage?: string;
+  routingRule?: string;
+}
+
+export class QueryLlmUsageDto {
+  // ISO 8601 bounds of the call date
+  from?: string;
+  to?: string;
+}
+
+export class LlmUsageTotalsDto {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  // USD, calls without a price count as free
+  cost: number;
+}
+
+export class ProviderUsageDto extends LlmUsageTotalsDto {
+  provider: string;
+  model: string;
+}
+
+export class LlmUsageSummaryDto {
+  totals: LlmUsageTotalsDto;
+  providers: ProviderUsageDto[];
+}
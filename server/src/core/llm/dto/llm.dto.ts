@@ -1,40 +1,161 @@
 import { CodeLanguage } from '.prisma/client';
 import { LLMProvider } from '@server/config/llm.config';
+import { LLMRoutingStage } from '@server/config/llm-routing.config';
+
+export class LLMResponseFormatDto {
+  // Letters, digits, underscores and dashes only
+  name: string;
+  // JSON Schema the response must match
+  schema: Record<string, any>;
+}
+
+export enum LLMMessageRole {
+  SYSTEM = 'system',
+  USER = 'user',
+  ASSISTANT = 'assistant',
+  TOOL = 'tool',
+}
+
+export class LLMToolCallDto {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export class LLMMessageDto {
+  role: LLMMessageRole;
+  content: string;
+  // Tools an assistant message asked to call
+  toolCalls?: LLMToolCallDto[];
+  // Call and tool a tool message answers
+  toolCallId?: string;
+  toolName?: string;
+}
 
 export class RequestLLMDto {
-  prompt: string;
+  // Single-turn prompt, sent after `messages` as the last user message
+  prompt?: string;
+  // Sent before `messages` as the first system message
   systemMessage?: string;
+  // Conversation so far, e.g. earlier attempts and the feedback on them
+  messages?: LLMMessageDto[];
+  // Registry version the prompt was rendered from, recorded with the call
+  promptVersionId?: string;
   options?: {
     useFallback?: boolean;
     temperature?: number;
     maxTokens?: number;
     provider?: LLMProvider;
     excludeProviders?: LLMProvider[];
+    // Set to false to always call the provider, bypassing the response cache
+    cache?: boolean;
+    // Ask the provider for JSON matching the schema, when it supports it
+    responseFormat?: LLMResponseFormatDto;
+    // Pipeline stage of the call, fallback calls are routed by its rules
+    stage?: LLMRoutingStage;
+    // Routing rule that picked the provider, recorded with the call
+    routingRule?: string;
   };
 }
 
+export class RequestStructuredLLMDto extends RequestLLMDto {
+  schemaName: string;
+  schema: Record<string, any>;
+  // Re-prompts with the validation errors before giving up, defaults to
+  // the configured number
+  maxRepairs?: number;
+}
+
 export class RequestProviderLLMDto extends RequestLLMDto {
   provider: LLMProvider;
 }
 
+export class LLMTokenUsageDto {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export class LLMStreamChunkDto {
+  provider: LLMProvider;
+  delta: string;
+  // Set on the last chunk of a provider, which carries no delta
+  done: boolean;
+  // Set on the first chunk of a fallback provider, the deltas received
+  // before belong to a failed provider and must be discarded
+  restart?: boolean;
+  // Token usage reported by the provider, set on the `done` chunk
+  usage?: LLMTokenUsageDto;
+  // Set on every chunk of a response replayed from the cache
+  cached?: boolean;
+}
+
+export class LLMRetryDto {
+  provider: LLMProvider;
+  model: string;
+  // Retry about to be made, starting at 1
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  // HTTP status or network error of the failed attempt
+  reason: string;
+}
+
+export class RequestEmbeddingDto {
+  input: string[];
+}
+
+export class EmbeddingResultDto {
+  provider: LLMProvider;
+  model: string;
+  // One vector per input, in input order
+  embeddings: number[][];
+  promptTokens: number;
+}
+
+export class RequirementAnalysisDto {
+  title: string;
+  functionality: string;
+  components: string[];
+  inputsOutputs: string;
+  dependencies: string;
+  fileStructure: string[];
+}
+
+export class GeneratedFileDto {
+  path: string;
+  content: string;
+}
+
+export class GeneratedFilesDto {
+  files: GeneratedFileDto[];
+}
+
 export class RequestLLMWithOllamaDto {
-  systemMessage: string;
-  requirementAnalysis: Record<string, any>;
+  requirementAnalysis: RequirementAnalysisDto;
   language: CodeLanguage;
   languageContext: string;
+  // Output of the tasks the code builds on
+  prerequisiteContext?: string;
+  // Existing code of the repository relevant to the requirement
+  repositoryContext?: string;
   provider?: LLMProvider;
   temperature?: number; // double
+  // Routing rule that picked the provider
+  routingRule?: string;
 }
 
 export class AnalyzeLLMWithOllamaDto {
-  systemMessage: string;
   requirementContext: string;
   language: CodeLanguage;
 }
 
 export class RequestLLMWithOllamaKevinDto {
-  systemMessage: string;
-  prompt: string;
+  requirementAnalysis: RequirementAnalysisDto;
+  language: CodeLanguage;
+  prerequisiteContext?: string;
+  repositoryContext?: string;
+  // Routing rule that picked the Kevin model
+  routingRule?: string;
 }
 
 export class OllamaAvailabilityResponseDto {
@@ -43,6 +164,5 @@ export class OllamaAvailabilityResponseDto {
 }
 
 export class OllamaModelTestDto {
-  systemMessage: string;
   modelName: LLMProvider;
 }
@@ -1,8 +1,33 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { RedisClientModule } from '@server/core/redis-client/redis-client.module';
+import { PromptModule } from '@server/core/prompt/prompt.module';
 import { LLmServiceImpl } from '@server/core/llm/service/impl/llm-impl.service';
 import { LlmIntegrationServiceImpl } from '@server/core/llm/service/impl/llm-integration-imp.service';
-import { LLM_SERVICE, LLM_INTEGRATION_SERVICE } from '@server/constants';
+import { LlmUsageServiceImpl } from '@server/core/llm/service/impl/llm-usage-impl.service';
+import { LlmCacheServiceImpl } from '@server/core/llm/service/impl/llm-cache-impl.service';
+import { LlmHealthServiceImpl } from '@server/core/llm/service/impl/llm-health-impl.service';
+import { LlmRateLimiterServiceImpl } from '@server/core/llm/service/impl/llm-rate-limiter-impl.service';
+import { LlmStructuredOutputServiceImpl } from '@server/core/llm/service/impl/llm-structured-output-impl.service';
+import { LlmOllamaServiceImpl } from '@server/core/llm/service/impl/llm-ollama-impl.service';
+import { LlmReplayServiceImpl } from '@server/core/llm/service/impl/llm-replay-impl.service';
+import { LlmProviderServiceImpl } from '@server/core/llm/service/impl/llm-provider-impl.service';
+import { LlmRouterServiceImpl } from '@server/core/llm/service/impl/llm-router-impl.service';
+import { LlmController } from '@server/core/llm/controller/llm.controller';
+import {
+  LLM_SERVICE,
+  LLM_INTEGRATION_SERVICE,
+  LLM_USAGE_SERVICE,
+  LLM_CACHE_SERVICE,
+  LLM_HEALTH_SERVICE,
+  LLM_RATE_LIMITER_SERVICE,
+  LLM_STRUCTURED_OUTPUT_SERVICE,
+  LLM_OLLAMA_SERVICE,
+  LLM_REPLAY_SERVICE,
+  LLM_PROVIDER_SERVICE,
+  LLM_ROUTER_SERVICE,
+} from '@server/constants';
 
 const providers = [
   {
@@ -13,10 +38,47 @@ const providers = [
     provide: LLM_INTEGRATION_SERVICE,
     useClass: LlmIntegrationServiceImpl,
   },
+  {
+    provide: LLM_USAGE_SERVICE,
+    useClass: LlmUsageServiceImpl,
+  },
+  {
+    provide: LLM_CACHE_SERVICE,
+    useClass: LlmCacheServiceImpl,
+  },
+  {
+    provide: LLM_HEALTH_SERVICE,
+    useClass: LlmHealthServiceImpl,
+  },
+  {
+    provide: LLM_RATE_LIMITER_SERVICE,
+    useClass: LlmRateLimiterServiceImpl,
+  },
+  {
+    provide: LLM_STRUCTURED_OUTPUT_SERVICE,
+    useClass: LlmStructuredOutputServiceImpl,
+  },
+  {
+    provide: LLM_OLLAMA_SERVICE,
+    useClass: LlmOllamaServiceImpl,
+  },
+  {
+    provide: LLM_REPLAY_SERVICE,
+    useClass: LlmReplayServiceImpl,
+  },
+  {
+    provide: LLM_PROVIDER_SERVICE,
+    useClass: LlmProviderServiceImpl,
+  },
+  {
+    provide: LLM_ROUTER_SERVICE,
+    useClass: LlmRouterServiceImpl,
+  },
 ];
 
 @Module({
-  imports: [HttpModule],
+  imports: [HttpModule, PrismaModule, RedisClientModule, PromptModule],
+  controllers: [LlmController],
   providers,
   exports: providers,
 })
@@ -0,0 +1,58 @@
+import { SchemaObject } from 'ajv';
+import { GeneratedFilesDto } from '@server/core/llm/dto/llm.dto';
+
+export const REQUIREMENT_ANALYSIS_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    functionality: { type: 'string' },
+    components: { type: 'array', items: { type: 'string' } },
+    inputsOutputs: { type: 'string' },
+    dependencies: { type: 'string' },
+    fileStructure: { type: 'array', items: { type: 'string' } },
+  },
+  required: [
+    'title',
+    'functionality',
+    'components',
+    'inputsOutputs',
+    'dependencies',
+    'fileStructure',
+  ],
+  additionalProperties: false,
+};
+
+// A list rather than a map keyed by path, since JSON modes of providers
+// handle fixed properties far better than arbitrary keys
+export const GENERATED_FILES_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {
+    files: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', minLength: 1 },
+          content: { type: 'string' },
+        },
+        required: ['path', 'content'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['files'],
+  additionalProperties: false,
+};
+
+/**
+ * Map the generated files by path, the shape the pipeline stores and commits
+ * @param output Output validated against GENERATED_FILES_SCHEMA
+ */
+export function toGeneratedFileMap(
+  output: GeneratedFilesDto,
+): Record<string, string> {
+  return Object.fromEntries(
+    output.files.map((file) => [file.path, file.content]),
+  );
+}
@@ -0,0 +1,207 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Cluster as RedisCluster } from 'ioredis';
+import * as crypto from 'crypto';
+import { LlmCacheService } from '@server/core/llm/service/llm-cache.service';
+import {
+  LlmCacheKeyDto,
+  LlmCacheEntryDto,
+  LlmCacheStatsDto,
+  LlmCacheProviderStatsDto,
+  PurgeLlmCacheDto,
+} from '@server/core/llm/dto/llm-cache.dto';
+import { llMConfig } from '@server/config/llm.config';
+import { REDIS_REPOSITORY } from '@server/constants';
+
+// Namespace of the cached responses, keys are `<namespace>:<provider>:<model>:<hash>`
+const CACHE_KEY_PREFIX = 'llm-cache';
+
+// Hash of the hit and miss counters, kept outside of the cache namespace so
+// that purging the cache keeps the metrics
+const CACHE_STATS_KEY = 'llm-cache-stats';
+
+// Keys scanned and deleted per round trip when purging
+const PURGE_BATCH_SIZE = 500;
+
+@Injectable()
+export class LlmCacheServiceImpl implements LlmCacheService {
+  private readonly logger = new Logger(LlmCacheServiceImpl.name);
+
+  constructor(
+    @Inject(REDIS_REPOSITORY)
+    private readonly redisRepository: RedisCluster,
+
+    @Inject(llMConfig.KEY)
+    private readonly config: ConfigType<typeof llMConfig>,
+  ) {}
+
+  public isEnabled(): boolean {
+    return this.config.responseCacheTtl > 0;
+  }
+
+  /**
+   * Address a response by everything that shapes it
+   * @param dto Request parameters
+   */
+  public getKey(dto: LlmCacheKeyDto): string {
+    const hash = crypto
+      .createHash('sha256')
+      .update(
+        JSON.stringify([
+          dto.prompt ?? null,
+          dto.systemMessage ?? null,
+          dto.temperature ?? null,
+          dto.maxTokens ?? null,
+          // Single-turn keys stay the same as before conversations
+          ...(dto.messages ? [dto.messages] : []),
+          // Free-text keys stay the same as before response formats
+          ...(dto.responseFormat
+            ? [
+                {
+                  name: dto.responseFormat.name,
+                  schema: crypto
+                    .createHash('sha256')
+                    .update(JSON.stringify(dto.responseFormat.schema))
+                    .digest('hex'),
+                },
+              ]
+            : []),
+        ]),
+      )
+      .digest('hex');
+
+    return `${CACHE_KEY_PREFIX}:${dto.provider}:${dto.model}:${hash}`;
+  }
+
+  /**
+   * Read a cached response and count the hit or miss. Redis failures are
+   * treated as misses, the provider is called instead.
+   * @param key Cache key
+   * @param provider Provider name the metrics are attributed to
+   */
+  public async get(
+    key: string,
+    provider: string,
+  ): Promise<LlmCacheEntryDto | null> {
+    try {
+      const value = await this.redisRepository.get(key);
+      await this.redisRepository.hincrby(
+        CACHE_STATS_KEY,
+        `${provider}:${value ? 'hits' : 'misses'}`,
+        1,
+      );
+
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      this.logger.warn(`Failed to read cached response: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Cache a complete response for the configured TTL
+   * @param key Cache key
+   * @param entry Response and usage
+   */
+  public async set(key: string, entry: LlmCacheEntryDto): Promise<void> {
+    try {
+      await this.redisRepository.set(
+        key,
+        JSON.stringify(entry),
+        'EX',
+        this.config.responseCacheTtl,
+      );
+    } catch (error) {
+      this.logger.warn(`Failed to cache response: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the cache TTL and the hit rate of every provider
+   */
+  public async getStats(): Promise<LlmCacheStatsDto> {
+    const counters = await this.redisRepository.hgetall(CACHE_STATS_KEY);
+
+    const providers = new Map<string, LlmCacheProviderStatsDto>();
+    Object.entries(counters).forEach(([field, value]) => {
+      const separator = field.lastIndexOf(':');
+      const provider = field.substring(0, separator);
+      const counter = field.substring(separator + 1);
+      if (counter !== 'hits' && counter !== 'misses') {
+        return;
+      }
+
+      const stats = providers.get(provider) || {
+        provider,
+        hits: 0,
+        misses: 0,
+        hitRate: 0,
+      };
+      stats[counter] = parseInt(value, 10) || 0;
+      stats.hitRate = this.getHitRate(stats.hits, stats.misses);
+      providers.set(provider, stats);
+    });
+
+    const providerStats = [...providers.values()].sort((a, b) =>
+      a.provider.localeCompare(b.provider),
+    );
+    const hits = providerStats.reduce((sum, stats) => sum + stats.hits, 0);
+    const misses = providerStats.reduce((sum, stats) => sum + stats.misses, 0);
+
+    return {
+      ttl: this.config.responseCacheTtl,
+      hits,
+      misses,
+      hitRate: this.getHitRate(hits, misses),
+      providers: providerStats,
+    };
+  }
+
+  /**
+   * Delete the cached responses of a provider, or matching a key prefix.
+   * Every master node is scanned since keys are spread across the cluster.
+   * @param dto Provider or key prefix, the whole cache when both are omitted
+   * @returns Number of deleted keys
+   */
+  public async purge(dto: PurgeLlmCacheDto): Promise<number> {
+    // With a provider, the prefix applies to the model and hash part
+    const prefix = dto.provider
+      ? `${dto.provider}:${dto.prefix ?? ''}`
+      : dto.prefix ?? '';
+    const pattern = `${CACHE_KEY_PREFIX}:${this.escapePattern(prefix)}*`;
+
+    let deleted = 0;
+    for (const node of this.redisRepository.nodes('master')) {
+      const stream = node.scanStream({
+        match: pattern,
+        count: PURGE_BATCH_SIZE,
+      });
+
+      for await (const keys of stream) {
+        // Keys live in different slots, so they are unlinked one by one
+        const results = await Promise.all(
+          (keys as string[]).map((key) => this.redisRepository.unlink(key)),
+        );
+        deleted += results.reduce((sum, count) => sum + count, 0);
+      }
+    }
+
+    this.logger.log(`Purged ${deleted} cached responses matching ${pattern}`);
+    return deleted;
+  }
+
+  /**
+   * @private
+   */
+  private getHitRate(hits: number, misses: number): number {
+    return hits + misses > 0 ? hits / (hits + misses) : 0;
+  }
+
+  /**
+   * Escape the glob characters of a SCAN pattern
+   * @private
+   */
+  private escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, '\\$&');
+  }
+}
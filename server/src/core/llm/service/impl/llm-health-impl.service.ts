@@ -0,0 +1,250 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { LlmHealthService } from '@server/core/llm/service/llm-health.service';
+import {
+  CircuitState,
+  ProviderHealthDto,
+} from '@server/core/llm/dto/llm-health.dto';
+import { dynamicLlmConfig } from '@server/config/llm.config';
+
+// Calls older than this no longer count toward the error rate (ms)
+const HEALTH_WINDOW = 60000;
+
+// A circuit never opens on fewer calls than this within the window
+const MIN_CALLS_TO_OPEN = 5;
+
+// Error rate within the window that opens the circuit
+const MAX_ERROR_RATE = 0.5;
+
+// Time an open circuit skips its provider before a probe call (ms)
+const OPEN_CIRCUIT_COOLDOWN = 30000;
+
+type CallSample = {
+  at: number;
+  latencyMs: number;
+  failed: boolean;
+};
+
+type ProviderCircuit = {
+  state: CircuitState;
+  samples: CallSample[];
+  openedAt?: number;
+  // Set while the half-open probe call is running
+  probeStartedAt?: number;
+  lastError?: string;
+  lastFailureAt?: number;
+};
+
+@Injectable()
+export class LlmHealthServiceImpl implements LlmHealthService {
+  private readonly logger = new Logger(LlmHealthServiceImpl.name);
+  private readonly circuits = new Map<string, ProviderCircuit>();
+
+  constructor(
+    @Inject(dynamicLlmConfig.KEY)
+    private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+  ) {}
+
+  /**
+   * Whether a call to the provider may go through. An open circuit turns
+   * half-open once its cooldown ends and lets a single probe call through.
+   * A probe that never reports back is given up after another cooldown.
+   * @param provider Provider name
+   */
+  public isAvailable(provider: string): boolean {
+    if (this.isOpen(provider)) {
+      return false;
+    }
+
+    const circuit = this.getCircuit(provider);
+    if (circuit.state === CircuitState.OPEN) {
+      this.logger.log(`Circuit of ${provider} is half-open, probing`);
+      circuit.state = CircuitState.HALF_OPEN;
+    }
+    if (circuit.state === CircuitState.HALF_OPEN) {
+      circuit.probeStartedAt = Date.now();
+    }
+    return true;
+  }
+
+  /**
+   * Whether the circuit still refuses calls, without claiming the probe
+   * call of a half-open circuit, for choosing providers ahead of a call
+   * @param provider Provider name
+   */
+  public isOpen(provider: string): boolean {
+    const circuit = this.circuits.get(provider);
+    const now = Date.now();
+
+    switch (circuit?.state) {
+      case CircuitState.OPEN:
+        return now < circuit.openedAt + OPEN_CIRCUIT_COOLDOWN;
+      case CircuitState.HALF_OPEN:
+        return now < circuit.probeStartedAt + OPEN_CIRCUIT_COOLDOWN;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Record a successful call, closing a half-open circuit
+   * @param provider Provider name
+   * @param latencyMs Call duration
+   */
+  public recordSuccess(provider: string, latencyMs: number): void {
+    const circuit = this.getCircuit(provider);
+
+    if (circuit.state !== CircuitState.CLOSED) {
+      this.logger.log(`Circuit of ${provider} closed`);
+      // The failures that opened the circuit must not open it again
+      circuit.samples = [];
+      circuit.state = CircuitState.CLOSED;
+      circuit.openedAt = undefined;
+      circuit.probeStartedAt = undefined;
+    }
+
+    this.addSample(circuit, { at: Date.now(), latencyMs, failed: false });
+  }
+
+  /**
+   * Record a failed call. A failure while the circuit is not closed, the
+   * probe or a call started before the circuit opened, reopens it. A
+   * closed circuit opens once the error rate of the window is too high.
+   * @param provider Provider name
+   * @param latencyMs Call duration
+   * @param error Error message
+   */
+  public recordFailure(
+    provider: string,
+    latencyMs: number,
+    error: string,
+  ): void {
+    const circuit = this.getCircuit(provider);
+    const now = Date.now();
+
+    this.addSample(circuit, { at: now, latencyMs, failed: true });
+    circuit.lastError = error;
+    circuit.lastFailureAt = now;
+
+    if (circuit.state !== CircuitState.CLOSED) {
+      this.open(
+        provider,
+        circuit,
+        circuit.state === CircuitState.HALF_OPEN
+          ? 'probe failed'
+          : 'call failed while open',
+      );
+      return;
+    }
+
+    const failures = circuit.samples.filter((sample) => sample.failed).length;
+    const errorRate = failures / circuit.samples.length;
+    if (
+      circuit.samples.length >= MIN_CALLS_TO_OPEN &&
+      errorRate >= MAX_ERROR_RATE
+    ) {
+      this.open(
+        provider,
+        circuit,
+        `${failures}/${circuit.samples.length} calls failed`,
+      );
+    }
+  }
+
+  /**
+   * Get the circuit state and rolling statistics of every enabled provider
+   */
+  public getHealth(): ProviderHealthDto[] {
+    return Object.entries(this.llmConfig.providers)
+      .filter(([, config]) => config.enabled !== false)
+      .map(([provider, config]) => {
+        const circuit = this.getCircuit(provider);
+        this.pruneSamples(circuit);
+
+        const failures = circuit.samples.filter(
+          (sample) => sample.failed,
+        ).length;
+        const latencies = circuit.samples
+          .map((sample) => sample.latencyMs)
+          .sort((a, b) => a - b);
+
+        return {
+          provider,
+          model: config.model,
+          state: circuit.state,
+          calls: circuit.samples.length,
+          failures,
+          errorRate:
+            circuit.samples.length > 0 ? failures / circuit.samples.length : 0,
+          avgLatencyMs:
+            latencies.length > 0
+              ? Math.round(
+                  latencies.reduce((sum, latency) => sum + latency, 0) /
+                    latencies.length,
+                )
+              : null,
+          p95LatencyMs:
+            latencies.length > 0
+              ? latencies[Math.ceil(latencies.length * 0.95) - 1]
+              : null,
+          lastError: circuit.lastError,
+          lastFailureAt: this.toIsoString(circuit.lastFailureAt),
+          openedAt: this.toIsoString(circuit.openedAt),
+          nextProbeAt:
+            circuit.state === CircuitState.OPEN
+              ? this.toIsoString(circuit.openedAt + OPEN_CIRCUIT_COOLDOWN)
+              : undefined,
+        };
+      });
+  }
+
+  /**
+   * @private
+   */
+  private getCircuit(provider: string): ProviderCircuit {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { state: CircuitState.CLOSED, samples: [] };
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  /**
+   * @private
+   */
+  private open(provider: string, circuit: ProviderCircuit, reason: string) {
+    this.logger.warn(
+      `Circuit of ${provider} opened (${reason}), skipping it for ${OPEN_CIRCUIT_COOLDOWN}ms`,
+    );
+    circuit.state = CircuitState.OPEN;
+    circuit.openedAt = Date.now();
+    circuit.probeStartedAt = undefined;
+  }
+
+  /**
+   * @private
+   */
+  private addSample(circuit: ProviderCircuit, sample: CallSample): void {
+    circuit.samples.push(sample);
+    this.pruneSamples(circuit);
+  }
+
+  /**
+   * Drop the samples that left the rolling window
+   * @private
+   */
+  private pruneSamples(circuit: ProviderCircuit): void {
+    const windowStart = Date.now() - HEALTH_WINDOW;
+    circuit.samples = circuit.samples.filter(
+      (sample) => sample.at >= windowStart,
+    );
+  }
+
+  /**
+   * @private
+   */
+  private toIsoString(timestamp?: number): string | undefined {
+    return timestamp ? new Date(timestamp).toISOString() : undefined;
+  }
+}
@@ -1,17 +1,84 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { ConfigType } from '@nestjs/config';
 import { lastValueFrom } from 'rxjs';
+import { Readable } from 'stream';
+import { setTimeout as sleep } from 'timers/promises';
+import { AxiosError } from 'axios';
+import { LlmCallStatus } from '.prisma/client';
 import { LLMService } from '@server/core/llm/service/llm.service';
+import { LlmUsageService } from '@server/core/llm/service/llm-usage.service';
+import { LlmCacheService } from '@server/core/llm/service/llm-cache.service';
+import { LlmHealthService } from '@server/core/llm/service/llm-health.service';
+import { LlmRateLimiterService } from '@server/core/llm/service/llm-rate-limiter.service';
+import { LlmReplayService } from '@server/core/llm/service/llm-replay.service';
+import { LlmRouterService } from '@server/core/llm/service/llm-router.service';
+import { LlmCacheEntryDto } from '@server/core/llm/dto/llm-cache.dto';
+import { getTaskContext } from '@server/core/context/task-context';
+import { TaskEventType } from '@server/core/event/event';
+import { createTaskStreamEvent } from '@server/core/event/task-stream.event';
+import {
+  readJsonLines,
+  readServerSentEvents,
+} from '@server/core/utils/stream-reader';
+import {
+  toLLMMessages,
+  splitSystemMessages,
+  getSingleTurnPrompt,
+  getMessagesLength,
+} from '@server/core/utils/llm-messages';
+import { validateJsonOutput } from '@server/core/utils/json-output';
 import {
   RequestLLMDto,
   RequestProviderLLMDto,
+  LLMMessageDto,
+  LLMMessageRole,
+  LLMStreamChunkDto,
+  LLMTokenUsageDto,
+  LLMRetryDto,
+  RequestEmbeddingDto,
+  EmbeddingResultDto,
 } from '@server/core/llm/dto/llm.dto';
 import {
   dynamicLlmConfig,
   SingleLLMConfig,
   LLMProvider,
+  LLMRetryPolicy,
+  LLMReplayMode,
+  createOllamaProviderConfig,
 } from '@server/config/llm.config';
+import {
+  LLM_USAGE_SERVICE,
+  LLM_CACHE_SERVICE,
+  LLM_HEALTH_SERVICE,
+  LLM_RATE_LIMITER_SERVICE,
+  LLM_REPLAY_SERVICE,
+  LLM_ROUTER_SERVICE,
+} from '@server/constants';
+
+// What a provider stream yields: generated text, or the token usage it
+// reports, usually once near the end
+type ProviderStreamEvent = {
+  delta?: string;
+  usage?: Partial<LLMTokenUsageDto>;
+};
+
+// Applied to providers configured without a retry policy
+const DEFAULT_RETRY_POLICY: LLMRetryPolicy = {
+  timeoutMs: 120000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  retryableStatusCodes: [408, 409, 429, 500, 502, 503, 504, 529],
+};
+
+// Rough size of a token, used to estimate the tokens of a prompt before
+// the provider reports them
+const CHARS_PER_TOKEN = 4;
+
+// Completion tokens assumed for calls without maxTokens
+const ESTIMATED_COMPLETION_TOKENS = 1024;
 
 @Injectable()
 export class LLmServiceImpl implements LLMService {
@@ -22,181 +89,747 @@ export class LLmServiceImpl implements LLMService {
 
     @Inject(dynamicLlmConfig.KEY)
     private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+
+    private readonly eventEmitter: EventEmitter2,
+
+    @Inject(LLM_USAGE_SERVICE)
+    private readonly llmUsageService: LlmUsageService,
+
+    @Inject(LLM_CACHE_SERVICE)
+    private readonly llmCacheService: LlmCacheService,
+
+    @Inject(LLM_HEALTH_SERVICE)
+    private readonly llmHealthService: LlmHealthService,
+
+    @Inject(LLM_RATE_LIMITER_SERVICE)
+    private readonly llmRateLimiterService: LlmRateLimiterService,
+
+    @Inject(LLM_REPLAY_SERVICE)
+    private readonly llmReplayService: LlmReplayService,
+
+    @Inject(LLM_ROUTER_SERVICE)
+    private readonly llmRouterService: LlmRouterService,
   ) {}
 
+  /**
+   * Call a single provider and wait for the whole completion
+   * @param dto Prompt and options, the provider defaults to the configured one
+   * @returns Concatenated completion
+   */
   public async callLLMApi(dto: RequestLLMDto): Promise<string> {
-    const { prompt, systemMessage, options } = dto;
-    const providerName = options?.provider || this.llmConfig.defaultProvider;
+    const { content } = await this.collectStream(this.streamLLMApi(dto));
+    return content;
+  }
+
+  /**
+   * Call the providers in fallback order and wait for the whole completion
+   * @param dto Prompt and options
+   * @returns Concatenated completion and the provider that produced it
+   */
+  public async callLLMApiWithFallback(
+    dto: RequestLLMDto,
+  ): Promise<{ content: string; provider: LLMProvider }> {
+    return this.collectStream(this.streamLLMApiWithFallback(dto));
+  }
+
+  /**
+   * Stream the completion of a single provider
+   * @param dto Prompt and options, the provider defaults to the configured one
+   * @returns Deltas as they are generated, then a final `done` chunk
+   */
+  public streamLLMApi(dto: RequestLLMDto): AsyncIterable<LLMStreamChunkDto> {
+    const { prompt, systemMessage, messages, promptVersionId, options } = dto;
+    // The replay provider, when registered, answers every call
+    const providerName = this.getProvider(LLMProvider.REPLAY)
+      ? LLMProvider.REPLAY
+      : options?.provider || this.llmConfig.defaultProvider;
     const provider = this.getProvider(providerName);
 
     if (!provider) {
-      throw new Error(`LLM provider '${provider.apiType}' not available`);
+      throw new Error(`LLM provider '${providerName}' not available`);
     }
 
-    return this.callProviderApi({
-      provider: provider.apiType, // default LLMProvider.OPENAI
+    return this.streamProviderApi({
+      provider: provider.name, // default LLMProvider.OPENAI
       prompt,
       systemMessage,
+      messages,
+      promptVersionId,
       options,
     });
   }
 
-  public async callLLMApiWithFallback(
+  /**
+   * Stream the completion of the first provider that succeeds, in fallback
+   * order, skipping providers whose circuit is open. Calls of a pipeline
+   * stage try the providers picked by the routing rules instead. When a
+   * provider fails after it started streaming, the next provider's first
+   * chunk is flagged with `restart`.
+   * @param dto Prompt and options
+   */
+  public async *streamLLMApiWithFallback(
     dto: RequestLLMDto,
-  ): Promise<{ content: string; provider: LLMProvider }> {
-    const { prompt, systemMessage, options } = dto;
-    const providerConfigs = this.getProvidersInFallbackOrder();
+  ): AsyncGenerator<LLMStreamChunkDto> {
+    const { prompt, systemMessage, messages, promptVersionId } = dto;
+    const { providerConfigs, routingRule } = this.getRoutedProviders(dto);
+    const options = routingRule ? { ...dto.options, routingRule } : dto.options;
     const excludeProviders = options?.excludeProviders || [];
 
     let lastError: Error | null = null;
+    let streamed = false;
+    const skippedProviders: LLMProvider[] = [];
 
     for (const providerConfig of providerConfigs) {
-      if (excludeProviders.includes(providerConfig.apiType)) {
+      if (excludeProviders.includes(providerConfig.name)) {
+        continue;
+      }
+      // The call itself claims the probe of a half-open circuit
+      if (this.llmHealthService.isOpen(providerConfig.name)) {
+        this.logger.debug(
+          `Skipping provider ${providerConfig.name}, its circuit is open`,
+        );
+        skippedProviders.push(providerConfig.name);
         continue;
       }
 
+      let restart = streamed;
+      if (restart) {
+        this.emitOutput({
+          provider: providerConfig.name,
+          delta: '',
+          done: false,
+          restart,
+        });
+      }
+
       try {
-        this.logger.debug(`Trying provider: ${providerConfig.apiType}`);
-        const content = await this.callProviderApi({
-          provider: providerConfig.apiType,
+        this.logger.debug(`Trying provider: ${providerConfig.name}`);
+        const chunks = this.streamProviderApi({
+          provider: providerConfig.name,
           prompt,
           systemMessage,
+          messages,
+          promptVersionId,
           options,
         });
 
-        this.logger.log(
-          `Successfully called provider: ${providerConfig.apiType}`,
-        );
-        return { content, provider: providerConfig.apiType };
+        for await (const chunk of chunks) {
+          streamed = true;
+          yield restart ? { ...chunk, restart } : chunk;
+          restart = false;
+        }
+
+        this.logger.log(`Successfully called provider: ${providerConfig.name}`);
+        return;
       } catch (error) {
+        // A cancelled task must not fall through to the next provider
+        if (getTaskContext()?.signal.aborted) {
+          throw error;
+        }
+
         this.logger.warn(
-          `Provider ${providerConfig.apiType} failed: ${error.message}`,
+          `Provider ${providerConfig.name} failed: ${error.message}`,
         );
         lastError = error as Error;
         continue;
       }
     }
 
+    if (!lastError && skippedProviders.length > 0) {
+      throw new Error(
+        `No LLM provider available, open circuits: ${skippedProviders.join(
+          ', ',
+        )}`,
+      );
+    }
+
     throw new Error(
       `All LLM providers failed. Last error: ${lastError?.message}`,
     );
   }
 
-  private async callProviderApi(dto: RequestProviderLLMDto): Promise<string> {
-    const { provider, prompt, systemMessage, options } = dto;
+  /**
+   * Stream a provider completion, forward every chunk to the live
+   * subscribers of the current task and record the usage of the call.
+   * Identical requests are answered from the response cache unless the
+   * call opts out. Other calls are refused while the circuit of the
+   * provider is open, and wait for its rate limits.
+   * @private
+   */
+  private async *streamProviderApi(
+    dto: RequestProviderLLMDto,
+  ): AsyncGenerator<LLMStreamChunkDto> {
+    const { provider, options } = dto;
+    const providerConfig = this.getProvider(provider);
+    if (!providerConfig) {
+      throw new Error(`LLM provider '${provider}' not available`);
+    }
+    const messages = toLLMMessages(dto);
+    if (!splitSystemMessages(messages).conversation.length) {
+      throw new Error('A prompt or a user message is required');
+    }
+
+    const cacheKey = this.getCacheKey(dto);
+    if (cacheKey) {
+      const cached = await this.llmCacheService.get(cacheKey, provider);
+      if (cached) {
+        yield* this.replayCachedResponse(provider, cached);
+        return;
+      }
+    }
+
+    if (!this.llmHealthService.isAvailable(provider)) {
+      throw new Error(`Circuit of LLM provider '${provider}' is open`);
+    }
+
+    const leaseId = await this.llmRateLimiterService.acquire(
+      providerConfig,
+      this.estimateTokens(dto),
+      getTaskContext()?.signal,
+    );
+
+    const startedAt = Date.now();
+    const usage: LLMTokenUsageDto = { promptTokens: 0, completionTokens: 0 };
+    let content = '';
+
     try {
+      let events: AsyncIterable<ProviderStreamEvent>;
       // Select different call methods based on API type
-      switch (provider) {
+      switch (providerConfig.apiType) {
         case LLMProvider.ANTHROPIC:
-          return this.callAnthropicApi(
-            provider,
-            prompt,
-            systemMessage,
-            options,
-          );
+          events = this.streamAnthropicApi(provider, messages, options);
+          break;
         case LLMProvider.GOOGLE:
-          return this.callGoogleApi(provider, prompt, systemMessage, options);
+          events = this.streamGoogleApi(provider, messages, options);
+          break;
         case LLMProvider.OLLAMA:
-          return this.callOllamaNativeApi(
-            provider,
-            prompt,
-            systemMessage,
-            options,
-          );
+          events = this.streamOllamaNativeApi(provider, messages, options);
+          break;
+        case LLMProvider.REPLAY:
+          events = this.streamReplayApi(dto);
+          break;
         default:
           // OpenAI compatible API
-          return this.callOpenAICompatibleApi(
-            provider,
-            prompt,
-            systemMessage,
-            options,
-          );
+          events = this.streamOpenAICompatibleApi(provider, messages, options);
       }
+
+      for await (const event of events) {
+        // Providers report either running or final totals, keep the latest
+        Object.entries(event.usage || {}).forEach(([field, tokens]) => {
+          if (typeof tokens === 'number') {
+            usage[field] = tokens;
+          }
+        });
+        if (!event.delta) {
+          continue;
+        }
+
+        content += event.delta;
+        const chunk = { provider, delta: event.delta, done: false };
+        this.emitOutput(chunk);
+        yield chunk;
+      }
+
+      this.llmHealthService.recordSuccess(provider, Date.now() - startedAt);
+      await this.recordCall(dto, startedAt, usage, LlmCallStatus.succeeded);
+      if (this.llmReplayService.getMode() === LLMReplayMode.RECORD && content) {
+        await this.llmReplayService.record(
+          dto,
+          providerConfig.model,
+          content,
+          usage,
+        );
+      }
+      // A response not matching the requested schema would be served and
+      // repaired again on every re-run, so it is not cached
+      if (
+        cacheKey &&
+        content &&
+        !(
+          dto.options?.responseFormat &&
+          validateJsonOutput(dto.options.responseFormat, content)
+        )
+      ) {
+        await this.llmCacheService.set(cacheKey, {
+          content,
+          usage,
+          createdAt: new Date().toISOString(),
+        });
+      }
+
+      const last = { provider, delta: '', done: true, usage };
+      this.emitOutput(last);
+      yield last;
     } catch (error) {
+      // A cancelled call says nothing about the health of the provider, and
+      // an open replay circuit would hide which response is missing
+      if (
+        !getTaskContext()?.signal.aborted &&
+        providerConfig.apiType !== LLMProvider.REPLAY
+      ) {
+        this.llmHealthService.recordFailure(
+          provider,
+          Date.now() - startedAt,
+          error.message,
+        );
+      }
+      await this.recordCall(
+        dto,
+        startedAt,
+        usage,
+        LlmCallStatus.failed,
+        error.message,
+      );
       this.logger.error(`Error calling ${provider} API: ${error.message}`);
       throw new Error(`Failed to call ${provider} API: ${error.message}`);
+    } finally {
+      if (leaseId) {
+        await this.llmRateLimiterService.release(
+          providerConfig,
+          leaseId,
+          usage.promptTokens + usage.completionTokens,
+        );
+      }
     }
   }
 
   /**
-   * Call Ollama Native API (using /api/generate endpoint)
+   * Estimate the tokens of a call before making it, for the tokens per
+   * minute limit
+   * @private
+   */
+  private estimateTokens(dto: RequestProviderLLMDto): number {
+    const promptLength = getMessagesLength(toLLMMessages(dto));
+    return (
+      Math.ceil(promptLength / CHARS_PER_TOKEN) +
+      (dto.options?.maxTokens ?? ESTIMATED_COMPLETION_TOKENS)
+    );
+  }
+
+  /**
+   * Get the cache key of a request, or null when the cache is disabled or
+   * the call opted out
    * @private
    */
-  private async callOllamaNativeApi(
+  private getCacheKey(dto: RequestProviderLLMDto): string | null {
+    const providerConfig = this.getProvider(dto.provider);
+    // Recording and replaying must reach the provider
+    if (
+      !providerConfig ||
+      dto.options?.cache === false ||
+      !this.llmCacheService.isEnabled() ||
+      this.llmReplayService.getMode()
+    ) {
+      return null;
+    }
+
+    const { system, conversation } = splitSystemMessages(toLLMMessages(dto));
+    const prompt = getSingleTurnPrompt(conversation);
+    return this.llmCacheService.getKey({
+      provider: dto.provider,
+      model: providerConfig.model,
+      prompt: prompt ?? undefined,
+      systemMessage: system || undefined,
+      messages: prompt === null ? conversation : undefined,
+      temperature: dto.options?.temperature,
+      maxTokens: dto.options?.maxTokens,
+      responseFormat: dto.options?.responseFormat,
+    });
+  }
+
+  /**
+   * Stream a cached response as a single delta followed by the `done` chunk
+   * @private
+   */
+  private async *replayCachedResponse(
     provider: LLMProvider,
-    prompt: string,
-    systemMessage?: string,
-    options?: { temperature?: number; maxTokens?: number },
-  ): Promise<string> {
-    // Build the complete prompt
-    let fullPrompt = prompt;
-    if (systemMessage) {
-      fullPrompt = `${systemMessage}\n\n${prompt}`;
+    cached: LlmCacheEntryDto,
+  ): AsyncGenerator<LLMStreamChunkDto> {
+    this.logger.debug(`Serving ${provider} response from the cache`);
+
+    const chunk = {
+      provider,
+      delta: cached.content,
+      done: false,
+      cached: true,
+    };
+    this.emitOutput(chunk);
+    yield chunk;
+
+    const last = {
+      provider,
+      delta: '',
+      done: true,
+      usage: cached.usage,
+      cached: true,
+    };
+    this.emitOutput(last);
+    yield last;
+  }
+
+  /**
+   * Persist the usage of a provider call, attributed to the current task
+   * @private
+   */
+  private async recordCall(
+    dto: RequestProviderLLMDto,
+    startedAt: number,
+    usage: LLMTokenUsageDto,
+    status: LlmCallStatus,
+    error?: string,
+  ): Promise<void> {
+    await this.llmUsageService.recordCall({
+      taskId: getTaskContext()?.taskId,
+      provider: dto.provider,
+      model: this.getProvider(dto.provider)?.model ?? 'unknown',
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      latencyMs: Date.now() - startedAt,
+      status,
+      error,
+      promptVersionId: dto.promptVersionId,
+      stage: dto.options?.stage,
+      routingRule: dto.options?.routingRule,
+    });
+  }
+
+  /**
+   * Concatenate streamed deltas, starting over when a fallback provider
+   * restarts the completion
+   * @private
+   */
+  private async collectStream(
+    chunks: AsyncIterable<LLMStreamChunkDto>,
+  ): Promise<{ content: string; provider: LLMProvider }> {
+    let content = '';
+    let provider: LLMProvider;
+
+    for await (const chunk of chunks) {
+      if (chunk.restart) {
+        content = '';
+      }
+      content += chunk.delta;
+      provider = chunk.provider;
+    }
+
+    return { content, provider };
+  }
+
+  /**
+   * Push LLM output to the live subscribers of the current task
+   * @private
+   */
+  private emitOutput(chunk: LLMStreamChunkDto): void {
+    const taskContext = getTaskContext();
+    if (!taskContext) {
+      return;
     }
+
+    this.eventEmitter.emit(
+      TaskEventType.LLM_OUTPUT,
+      createTaskStreamEvent(taskContext.taskId, TaskEventType.LLM_OUTPUT, {
+        ...chunk,
+      }),
+    );
+  }
+
+  /**
+   * POST a request expecting a streamed response body, retrying transient
+   * failures with the retry policy of the provider. Only opening the
+   * stream is retried, a stream failing midway is left to the fallback.
+   * @private
+   */
+  private async postStream(
+    providerConfig: SingleLLMConfig,
+    url: string,
+    body: Record<string, any>,
+    headers: Record<string, string>,
+  ): Promise<Readable> {
+    return this.postWithRetry<Readable>(
+      providerConfig,
+      url,
+      body,
+      headers,
+      'stream',
+    );
+  }
+
+  /**
+   * POST a request, retrying transient failures with the retry policy of
+   * the provider
+   * @private
+   */
+  private async postWithRetry<T>(
+    providerConfig: SingleLLMConfig,
+    url: string,
+    body: Record<string, any>,
+    headers: Record<string, string>,
+    responseType: 'json' | 'stream' = 'json',
+  ): Promise<T> {
+    const policy = providerConfig.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    const signal = getTaskContext()?.signal;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await lastValueFrom(
+          this.httpService.post<T>(url, body, {
+            headers,
+            responseType,
+            timeout: policy.timeoutMs,
+            signal,
+          }),
+        );
+
+        return response.data;
+      } catch (error) {
+        const delayMs = this.getRetryDelay(error, attempt, policy);
+        if (delayMs === null || signal?.aborted) {
+          throw error;
+        }
+
+        const reason = error.response?.status
+          ? `HTTP ${error.response.status}`
+          : error.code || error.message;
+        this.logger.warn(
+          `${providerConfig.name} request failed (${reason}), retry ${attempt}/${policy.maxRetries} in ${delayMs}ms`,
+        );
+        this.emitRetry({
+          provider: providerConfig.name,
+          model: providerConfig.model,
+          attempt,
+          maxRetries: policy.maxRetries,
+          delayMs,
+          reason,
+        });
+
+        await sleep(delayMs, undefined, { signal });
+      }
+    }
+  }
+
+  /**
+   * Get the delay before retrying a failed request, or null when it must
+   * not be retried. A Retry-After header takes precedence over the
+   * exponential backoff, unless it asks to wait longer than the policy
+   * allows, in which case the next provider is a better bet.
+   * @private
+   */
+  private getRetryDelay(
+    error: AxiosError,
+    attempt: number,
+    policy: LLMRetryPolicy,
+  ): number | null {
+    if (attempt > policy.maxRetries || error.code === 'ERR_CANCELED') {
+      return null;
+    }
+
+    // Without a response, the connection failed or timed out
+    const status = error.response?.status;
+    if (status && !policy.retryableStatusCodes.includes(status)) {
+      return null;
+    }
+
+    const retryAfter = this.parseRetryAfter(
+      error.response?.headers?.['retry-after'],
+    );
+    if (retryAfter !== null) {
+      return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+    }
+
+    // Equal jitter: half of the exponential delay, plus up to the other half
+    const backoff = Math.min(
+      policy.maxDelayMs,
+      policy.baseDelayMs * 2 ** (attempt - 1),
+    );
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+
+  /**
+   * Parse a Retry-After header, given in seconds or as an HTTP date
+   * @returns Delay in ms, or null without a valid header
+   * @private
+   */
+  private parseRetryAfter(value?: string): number | null {
+    if (!value) {
+      return null;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * Add a retry to the timeline of the current task
+   * @private
+   */
+  private emitRetry(retry: LLMRetryDto): void {
+    const taskContext = getTaskContext();
+    if (!taskContext) {
+      return;
+    }
+
+    this.eventEmitter.emit(
+      TaskEventType.LLM_RETRY,
+      createTaskStreamEvent(taskContext.taskId, TaskEventType.LLM_RETRY, {
+        ...retry,
+      }),
+    );
+  }
+
+  /**
+   * Stream a recorded or scripted response as a single delta
+   * @private
+   */
+  private async *streamReplayApi(
+    dto: RequestProviderLLMDto,
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const { content, usage } = await this.llmReplayService.getResponse(dto);
+    yield { delta: content, usage };
+  }
+
+  /**
+   * Stream from the Ollama native chat API (`/api/chat`), which answers with
+   * newline-delimited JSON
+   * @private
+   */
+  private async *streamOllamaNativeApi(
+    provider: LLMProvider,
+    messages: LLMMessageDto[],
+    options?: RequestLLMDto['options'],
+  ): AsyncGenerator<ProviderStreamEvent> {
     const providerConfig = this.getProvider(provider);
-    const requestBody = {
+    const requestBody: any = {
       model: providerConfig.model,
-      prompt: fullPrompt,
-      stream: false, // Set to false to get the full response
+      messages: messages.map((message) => ({
+        role: message.role,
+        content: message.content,
+        ...(message.toolCalls && {
+          tool_calls: message.toolCalls.map((call) => ({
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        }),
+        ...(message.toolName && { tool_name: message.toolName }),
+      })),
+      stream: true,
       options: {
         temperature: options?.temperature ?? 0.2,
         num_predict: options?.maxTokens ?? -1, // -1 means no limit
       },
     };
 
+    if (options?.responseFormat) {
+      // Structured outputs, the model is constrained to the schema
+      requestBody.format = options.responseFormat.schema;
+    }
+
     this.logger.debug(
       `Calling Ollama native API with model: ${providerConfig.model}`,
     );
 
-    const response = await lastValueFrom(
-      this.httpService.post(
-        `${providerConfig.apiUrl}/api/generate`,
-        requestBody,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        },
-      ),
+    const stream = await this.postStream(
+      providerConfig,
+      `${providerConfig.apiUrl}/api/chat`,
+      requestBody,
+      { 'Content-Type': 'application/json' },
     );
 
-    return response.data.response;
+    for await (const line of readJsonLines(stream)) {
+      if (line.error) {
+        throw new Error(line.error);
+      }
+      if (line.done) {
+        yield {
+          delta: line.message?.content,
+          usage: {
+            promptTokens: line.prompt_eval_count,
+            completionTokens: line.eval_count,
+          },
+        };
+        return;
+      }
+      yield { delta: line.message?.content };
+    }
   }
 
   /**
-   * Call OpenAI compatible API (keep original implementation)
+   * Stream from an OpenAI compatible API (`/chat/completions` server-sent
+   * events)
    * @private
    */
-  private async callOpenAICompatibleApi(
+  private async *streamOpenAICompatibleApi(
     provider: LLMProvider,
-    prompt: string,
-    systemMessage?: string,
-    options?: { temperature?: number; maxTokens?: number },
-  ): Promise<string> {
-    const messages = [];
-
-    if (systemMessage) {
-      messages.push({ role: 'system', content: systemMessage });
-    } else {
-      messages.push({
-        role: 'system',
+    messages: LLMMessageDto[],
+    options?: RequestLLMDto['options'],
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const requestMessages: any[] = messages.map((message) => {
+      if (message.role === LLMMessageRole.TOOL) {
+        return {
+          role: message.role,
+          tool_call_id: message.toolCallId,
+          content: message.content,
+        };
+      }
+      if (message.toolCalls) {
+        return {
+          role: message.role,
+          content: message.content || null,
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function',
+            function: {
+              name: call.name,
+              arguments: JSON.stringify(call.arguments),
+            },
+          })),
+        };
+      }
+      return { role: message.role, content: message.content };
+    });
+
+    if (!messages.some((message) => message.role === LLMMessageRole.SYSTEM)) {
+      requestMessages.unshift({
+        role: LLMMessageRole.SYSTEM,
         content:
           'You are a helpful assistant specialized in software development.',
       });
     }
 
-    messages.push({ role: 'user', content: prompt });
     const providerConfig = this.getProvider(provider);
     const requestBody: any = {
       model: providerConfig.model,
-      messages,
+      messages: requestMessages,
       temperature: options?.temperature ?? 0.2,
+      stream: true,
+      // The last event before [DONE] then carries the token usage
+      stream_options: { include_usage: true },
     };
 
     if (options?.maxTokens) {
       requestBody.max_tokens = options.maxTokens;
     }
 
+    if (options?.responseFormat) {
+      // Only OpenAI itself supports schemas, the compatible APIs at least
+      // guarantee well-formed JSON
+      requestBody.response_format =
+        provider === LLMProvider.OPENAI
+          ? {
+              type: 'json_schema',
+              json_schema: {
+                name: options.responseFormat.name,
+                schema: options.responseFormat.schema,
+                // Strict mode rejects optional properties and most keywords
+                strict: false,
+              },
+            }
+          : { type: 'json_object' };
+    }
+
     const headers: any = {
       'Content-Type': 'application/json',
     };
@@ -205,86 +838,346 @@ export class LLmServiceImpl implements LLMService {
       headers['Authorization'] = `Bearer ${providerConfig.apiKey}`;
     }
 
-    const response = await lastValueFrom(
-      this.httpService.post(
-        `${providerConfig.apiUrl}/chat/completions`,
-        requestBody,
-        { headers },
-      ),
+    const stream = await this.postStream(
+      providerConfig,
+      `${providerConfig.apiUrl}/chat/completions`,
+      requestBody,
+      headers,
     );
 
-    return response.data.choices[0].message.content;
+    for await (const { data } of readServerSentEvents(stream)) {
+      if (data === '[DONE]') {
+        return;
+      }
+
+      const event = JSON.parse(data);
+      if (event.error) {
+        throw new Error(event.error.message || JSON.stringify(event.error));
+      }
+      yield {
+        delta: event.choices?.[0]?.delta?.content,
+        usage: event.usage && {
+          promptTokens: event.usage.prompt_tokens,
+          completionTokens: event.usage.completion_tokens,
+        },
+      };
+    }
   }
 
-  // Anthropic and Google API remain unchanged
-  private async callAnthropicApi(
+  /**
+   * Stream from the Anthropic messages API
+   * @private
+   */
+  private async *streamAnthropicApi(
     provider: LLMProvider,
-    prompt: string,
-    systemMessage?: string,
-    options?: { temperature?: number; maxTokens?: number },
-  ): Promise<string> {
+    messages: LLMMessageDto[],
+    options?: RequestLLMDto['options'],
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const { system, conversation } = splitSystemMessages(messages);
     const providerConfig = this.getProvider(provider);
     const requestBody: any = {
       model: providerConfig.model,
       max_tokens: options?.maxTokens ?? 4096,
       temperature: options?.temperature ?? 0.2,
-      messages: [{ role: 'user', content: prompt }],
+      messages: conversation.map((message) => {
+        // Tool results are content blocks of a user turn
+        if (message.role === LLMMessageRole.TOOL) {
+          return {
+            role: LLMMessageRole.USER,
+            content: [
+              {
+                type: 'tool_result',
+                tool_use_id: message.toolCallId,
+                content: message.content,
+              },
+            ],
+          };
+        }
+        if (message.toolCalls) {
+          return {
+            role: message.role,
+            content: [
+              ...(message.content
+                ? [{ type: 'text', text: message.content }]
+                : []),
+              ...message.toolCalls.map((call) => ({
+                type: 'tool_use',
+                id: call.id,
+                name: call.name,
+                input: call.arguments,
+              })),
+            ],
+          };
+        }
+        return { role: message.role, content: message.content };
+      }),
+      stream: true,
     };
 
-    if (systemMessage) {
-      requestBody.system = systemMessage;
+    if (system) {
+      requestBody.system = system;
     }
 
-    const response = await lastValueFrom(
-      this.httpService.post(
-        `${providerConfig.apiUrl}/v1/messages`,
-        requestBody,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-            'x-api-key': providerConfig.apiKey,
-            'anthropic-version': '2023-06-01',
-          },
-        },
-      ),
+    const stream = await this.postStream(
+      providerConfig,
+      `${providerConfig.apiUrl}/v1/messages`,
+      requestBody,
+      {
+        'Content-Type': 'application/json',
+        'x-api-key': providerConfig.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
     );
 
-    return response.data.content[0].text;
+    for await (const { event, data } of readServerSentEvents(stream)) {
+      if (event === 'error') {
+        const { error } = JSON.parse(data);
+        throw new Error(error?.message || data);
+      }
+      if (event === 'message_stop') {
+        return;
+      }
+      if (event === 'message_start') {
+        // Input tokens are known upfront, output tokens are counted on
+        // message_delta
+        const { usage } = JSON.parse(data).message || {};
+        yield {
+          usage: usage && {
+            promptTokens: usage.input_tokens,
+            completionTokens: usage.output_tokens,
+          },
+        };
+      }
+      if (event === 'message_delta') {
+        const { usage } = JSON.parse(data);
+        yield { usage: usage && { completionTokens: usage.output_tokens } };
+      }
+      if (event === 'content_block_delta') {
+        yield { delta: JSON.parse(data).delta?.text };
+      }
+    }
   }
 
-  private async callGoogleApi(
+  /**
+   * Stream from the Google `streamGenerateContent` API as server-sent events
+   * @private
+   */
+  private async *streamGoogleApi(
     provider: LLMProvider,
-    prompt: string,
-    systemMessage?: string,
-    options?: { temperature?: number; maxTokens?: number },
-  ): Promise<string> {
-    const fullPrompt = systemMessage ? `${systemMessage}\n\n${prompt}` : prompt;
+    messages: LLMMessageDto[],
+    options?: RequestLLMDto['options'],
+  ): AsyncGenerator<ProviderStreamEvent> {
+    const { system, conversation } = splitSystemMessages(messages);
 
     const requestBody = {
-      contents: [
-        {
-          parts: [{ text: fullPrompt }],
-        },
-      ],
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      contents: conversation.map((message) => {
+        // Tool results are function responses of a user turn, matched to
+        // the call by the tool name
+        if (message.role === LLMMessageRole.TOOL) {
+          return {
+            role: 'user',
+            parts: [
+              {
+                functionResponse: {
+                  name: message.toolName,
+                  response: { content: message.content },
+                },
+              },
+            ],
+          };
+        }
+        return {
+          role: message.role === LLMMessageRole.ASSISTANT ? 'model' : 'user',
+          parts: [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...(message.toolCalls || []).map((call) => ({
+              functionCall: { name: call.name, args: call.arguments },
+            })),
+          ],
+        };
+      }),
       generationConfig: {
         temperature: options?.temperature ?? 0.2,
         maxOutputTokens: options?.maxTokens ?? 4096,
+        // The schema dialect of Gemini is an OpenAPI subset, so the schema
+        // itself stays in the prompt
+        ...(options?.responseFormat && {
+          responseMimeType: 'application/json',
+        }),
       },
     };
     const providerConfig = this.getProvider(provider);
-    const response = await lastValueFrom(
-      this.httpService.post(
-        `${providerConfig.apiUrl}/models/${providerConfig.model}:generateContent?key=${providerConfig.apiKey}`,
-        requestBody,
-        {
-          headers: {
-            'Content-Type': 'application/json',
-          },
+    const stream = await this.postStream(
+      providerConfig,
+      `${providerConfig.apiUrl}/models/${providerConfig.model}:streamGenerateContent?alt=sse&key=${providerConfig.apiKey}`,
+      requestBody,
+      { 'Content-Type': 'application/json' },
+    );
+
+    for await (const { data } of readServerSentEvents(stream)) {
+      const event = JSON.parse(data);
+      if (event.error) {
+        throw new Error(event.error.message || JSON.stringify(event.error));
+      }
+
+      const parts: { text?: string }[] =
+        event.candidates?.[0]?.content?.parts || [];
+      yield {
+        delta: parts.map((part) => part.text || '').join(''),
+        usage: event.usageMetadata && {
+          promptTokens: event.usageMetadata.promptTokenCount,
+          completionTokens: event.usageMetadata.candidatesTokenCount,
         },
-      ),
+      };
+    }
+  }
+
+  /**
+   * Compute the embeddings of texts with the configured embedding model,
+   * through the OpenAI compatible `/embeddings` API or the Ollama
+   * `/api/embed` API, in batches
+   * @param dto Texts to embed
+   * @returns One vector per text, in input order
+   */
+  public async createEmbeddings(
+    dto: RequestEmbeddingDto,
+  ): Promise<EmbeddingResultDto> {
+    const embedding = this.llmConfig.embedding;
+    if (!embedding) {
+      throw new Error('No embedding provider configured');
+    }
+
+    const providerConfig =
+      embedding.provider === LLMProvider.OLLAMA && this.llmConfig.ollamaApiUrl
+        ? createOllamaProviderConfig(
+            this.llmConfig.ollamaApiUrl,
+            embedding.model,
+          )
+        : this.getProvider(embedding.provider);
+    if (!providerConfig) {
+      throw new Error(
+        `Embedding provider '${embedding.provider}' not available`,
+      );
+    }
+    if (
+      [LLMProvider.ANTHROPIC, LLMProvider.GOOGLE, LLMProvider.REPLAY].includes(
+        providerConfig.apiType,
+      )
+    ) {
+      throw new Error(
+        `LLM provider '${providerConfig.name}' does not support embeddings`,
+      );
+    }
+
+    const result: EmbeddingResultDto = {
+      provider: providerConfig.name,
+      model: embedding.model,
+      embeddings: [],
+      promptTokens: 0,
+    };
+
+    for (let i = 0; i < dto.input.length; i += embedding.batchSize) {
+      const batch = dto.input.slice(i, i + embedding.batchSize);
+      const { embeddings, promptTokens } = await this.embedBatch(
+        providerConfig,
+        embedding.model,
+        batch,
+      );
+      result.embeddings.push(...embeddings);
+      result.promptTokens += promptTokens;
+    }
+
+    return result;
+  }
+
+  /**
+   * Embed a batch of texts within the rate limits of the provider and
+   * record the usage of the call
+   * @private
+   */
+  private async embedBatch(
+    providerConfig: SingleLLMConfig,
+    model: string,
+    input: string[],
+  ): Promise<{ embeddings: number[][]; promptTokens: number }> {
+    const provider = providerConfig.name;
+    const estimatedTokens = Math.ceil(
+      input.reduce((length, text) => length + text.length, 0) / CHARS_PER_TOKEN,
+    );
+    const leaseId = await this.llmRateLimiterService.acquire(
+      providerConfig,
+      estimatedTokens,
+      getTaskContext()?.signal,
     );
 
-    return response.data.candidates[0].content.parts[0].text;
+    const startedAt = Date.now();
+    let promptTokens = 0;
+    const recordCall = (status: LlmCallStatus, error?: string) =>
+      this.llmUsageService.recordCall({
+        taskId: getTaskContext()?.taskId,
+        provider,
+        model,
+        promptTokens,
+        completionTokens: 0,
+        latencyMs: Date.now() - startedAt,
+        status,
+        error,
+      });
+
+    try {
+      let embeddings: number[][];
+      if (providerConfig.apiType === LLMProvider.OLLAMA) {
+        const data = await this.postWithRetry<any>(
+          providerConfig,
+          `${providerConfig.apiUrl}/api/embed`,
+          { model, input },
+          { 'Content-Type': 'application/json' },
+        );
+        embeddings = data.embeddings;
+        promptTokens = data.prompt_eval_count ?? estimatedTokens;
+      } else {
+        const data = await this.postWithRetry<any>(
+          providerConfig,
+          `${providerConfig.apiUrl}/embeddings`,
+          { model, input },
+          {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${providerConfig.apiKey}`,
+          },
+        );
+        // Entries carry their input index, the order is not guaranteed
+        embeddings = [...data.data]
+          .sort((a, b) => a.index - b.index)
+          .map((entry) => entry.embedding);
+        promptTokens = data.usage?.prompt_tokens ?? estimatedTokens;
+      }
+
+      if (embeddings?.length !== input.length) {
+        throw new Error(
+          `Expected ${input.length} embeddings, got ${embeddings?.length ?? 0}`,
+        );
+      }
+
+      await recordCall(LlmCallStatus.succeeded);
+      return { embeddings, promptTokens };
+    } catch (error) {
+      await recordCall(LlmCallStatus.failed, error.message);
+      this.logger.error(
+        `Error computing ${provider} embeddings: ${error.message}`,
+      );
+      throw new Error(
+        `Failed to compute ${provider} embeddings: ${error.message}`,
+      );
+    } finally {
+      if (leaseId) {
+        await this.llmRateLimiterService.release(
+          providerConfig,
+          leaseId,
+          promptTokens,
+        );
+      }
+    }
   }
 
   public getAvailableProviders(): Record<string, SingleLLMConfig> {
@@ -307,10 +1200,52 @@ export class LLmServiceImpl implements LLMService {
     return provider;
   }
 
+  /**
+   * Providers of a fallback call: the ones picked by the routing rules for
+   * calls of a pipeline stage, else every provider in fallback order
+   * @private
+   */
+  private getRoutedProviders(dto: RequestLLMDto): {
+    providerConfigs: SingleLLMConfig[];
+    routingRule?: string;
+  } {
+    const stage = dto.options?.stage;
+    // The replay provider, when registered, answers every call
+    if (!stage || this.getProvider(LLMProvider.REPLAY)) {
+      return { providerConfigs: this.getProvidersInFallbackOrder() };
+    }
+
+    const decision = this.llmRouterService.route({
+      stage,
+      prompt: toLLMMessages(dto)
+        .map((message) => message.content)
+        .join('\n'),
+    });
+
+    return {
+      providerConfigs: decision.providers
+        .map((name) => this.getProvider(name))
+        .filter(Boolean),
+      routingRule: decision.rule ?? undefined,
+    };
+  }
+
   private getProvidersInFallbackOrder(): SingleLLMConfig[] {
+    const replayProvider = this.getProvider(LLMProvider.REPLAY);
+    if (replayProvider) {
+      return [replayProvider];
+    }
+
     const providers: SingleLLMConfig[] = [];
+    // Providers preferred by the project of the running task come first
+    const fallbackOrder = [
+      ...new Set([
+        ...(getTaskContext()?.preferredProviders || []),
+        ...this.llmConfig.fallbackOrder,
+      ]),
+    ];
 
-    this.llmConfig.fallbackOrder.forEach((providerName) => {
+    fallbackOrder.forEach((providerName) => {
       const provider = this.getProvider(providerName);
       if (provider) {
         providers.push(provider);
@@ -320,7 +1255,7 @@ export class LLmServiceImpl implements LLMService {
     Object.entries(this.llmConfig.providers).forEach(([name, config]) => {
       if (
         config.enabled !== false &&
-        !this.llmConfig.fallbackOrder.includes(name as LLMProvider)
+        !fallbackOrder.includes(name as LLMProvider)
       ) {
         providers.push(config);
       }
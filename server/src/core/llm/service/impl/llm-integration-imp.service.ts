@@ -4,16 +4,34 @@ import { Injectable, Logger, Inject } from '@nestjs/common';
 import { CodeLanguage } from '.prisma/client';
 import { LLMService } from '@server/core/llm/service/llm.service';
 import { LLMIntegrationService } from '@server/core/llm/service/llm-integration.service';
+import { LlmStructuredOutputService } from '@server/core/llm/service/llm-structured-output.service';
+import { LlmOllamaService } from '@server/core/llm/service/llm-ollama.service';
+import { PromptService } from '@server/core/prompt/service/prompt.service';
+import { PromptKey } from '@server/core/prompt/prompt-defaults';
 import {
   RequestLLMDto,
+  RequestStructuredLLMDto,
+  RequirementAnalysisDto,
+  GeneratedFilesDto,
   RequestLLMWithOllamaDto,
   AnalyzeLLMWithOllamaDto,
   RequestLLMWithOllamaKevinDto,
   OllamaAvailabilityResponseDto,
   OllamaModelTestDto,
 } from '@server/core/llm/dto/llm.dto';
+import {
+  REQUIREMENT_ANALYSIS_SCHEMA,
+  GENERATED_FILES_SCHEMA,
+  toGeneratedFileMap,
+} from '@server/core/llm/schema/code-generation.schema';
 import { LLMProvider } from '@server/config/llm.config';
-import { LLM_SERVICE } from '@server/constants';
+import { LLMRoutingStage } from '@server/config/llm-routing.config';
+import {
+  LLM_SERVICE,
+  LLM_STRUCTURED_OUTPUT_SERVICE,
+  LLM_OLLAMA_SERVICE,
+  PROMPT_SERVICE,
+} from '@server/constants';
 
 @Injectable()
 export class LlmIntegrationServiceImpl implements LLMIntegrationService {
@@ -22,6 +40,15 @@ export class LlmIntegrationServiceImpl implements LLMIntegrationService {
   constructor(
     @Inject(LLM_SERVICE)
     private readonly llmService: LLMService,
+
+    @Inject(LLM_STRUCTURED_OUTPUT_SERVICE)
+    private readonly llmStructuredOutputService: LlmStructuredOutputService,
+
+    @Inject(LLM_OLLAMA_SERVICE)
+    private readonly llmOllamaService: LlmOllamaService,
+
+    @Inject(PROMPT_SERVICE)
+    private readonly promptService: PromptService,
   ) {}
 
   /**
@@ -50,6 +77,21 @@ export class LlmIntegrationServiceImpl implements LLMIntegrationService {
     }
   }
 
+  /**
+   * Call the LLM API expecting a JSON response matching a schema
+   * @param dto Request DTO with prompt, options and the response schema
+   */
+  public async callStructuredLLmApi<T>(
+    dto: RequestStructuredLLMDto,
+  ): Promise<T> {
+    try {
+      return await this.llmStructuredOutputService.callStructuredLLMApi<T>(dto);
+    } catch (error) {
+      this.logger.error(`Error calling LLM API: ${error.message}`);
+      throw new Error(`Failed to call LLM API: ${error.message}`);
+    }
+  }
+
   /**
    * Generate code using the Ollama DeepSeek Coder model
    * @param requirementAnalysis Structured analysis of the requirement
@@ -62,39 +104,40 @@ export class LlmIntegrationServiceImpl implements LLMIntegrationService {
       requirementAnalysis,
       language,
       languageContext,
-      systemMessage,
+      prerequisiteContext,
+      repositoryContext,
       provider,
       temperature,
     } = dto;
-    const prompt = `
-      Generate code in ${language.toLowerCase()} based on the following analyzed requirement:
-      
-      Title: ${requirementAnalysis.title}
-      Functionality: ${requirementAnalysis.functionality}
-      Components needed: ${this.formatList(requirementAnalysis.components)}
-      
-      ${languageContext}
-      
-      Provide complete code with proper documentation.
-      Format the response as a JSON object where keys are file paths and values are the file content.
-    `;
+    const { prompt, systemMessage, promptVersionId } =
+      await this.promptService.renderPrompt({
+        key: PromptKey.CODE_GENERATION,
+        variables: {
+          ...this.getAnalysisVariables(requirementAnalysis),
+          language: language.toLowerCase(),
+          languageContext,
+          prerequisiteContext: prerequisiteContext ?? '',
+          repositoryContext: repositoryContext ?? '',
+        },
+      });
 
     // Explicitly use Ollama's DeepSeek Coder (native API)
-    const result = await this.callLLmApi({
+    const result = await this.callStructuredLLmApi<GeneratedFilesDto>({
       prompt,
       systemMessage,
+      promptVersionId,
+      schemaName: 'generated_files',
+      schema: GENERATED_FILES_SCHEMA,
       options: {
         useFallback: false,
         provider,
         temperature,
+        stage: LLMRoutingStage.GENERATION,
+        routingRule: dto.routingRule,
       },
     });
 
-    try {
-      return JSON.parse(result);
-    } catch (error) {
-      return this.extractJsonFromText(result);
-    }
+    return toGeneratedFileMap(result);
   }
 
   /**
@@ -136,68 +179,86 @@ export class LlmIntegrationServiceImpl implements LLMIntegrationService {
    */
   public async analyzeRequirementWithOllama(
     dto: AnalyzeLLMWithOllamaDto,
-  ): Promise<Record<string, any>> {
-    const { requirementContext, language, systemMessage } = dto;
-    const prompt = `
-      Analyze the following software requirement and break it down into structured components.
-      The code will be implemented in ${language.toLowerCase()}.
-      
-      Requirement: ${requirementContext}
-      
-      Please provide:
-      1. A clear title for this requirement
-      2. The main functionality being requested
-      3. Key components or modules needed
-      4. Expected inputs and outputs
-      5. Any dependencies or constraints mentioned
-      6. Suggested file structure for implementation
-    `;
+  ): Promise<RequirementAnalysisDto> {
+    const { requirementContext, language } = dto;
+    const { prompt, systemMessage, promptVersionId } =
+      await this.promptService.renderPrompt({
+        key: PromptKey.REQUIREMENT_ANALYSIS,
+        variables: {
+          language: language.toLowerCase(),
+          requirement: requirementContext,
+        },
+      });
 
     // Use Ollama's DeepSeek Chat for requirement analysis (native API)
-    const result = await this.callLLmApi({
+    return this.callStructuredLLmApi<RequirementAnalysisDto>({
       prompt,
       systemMessage,
+      promptVersionId,
+      schemaName: 'requirement_analysis',
+      schema: REQUIREMENT_ANALYSIS_SCHEMA,
       options: {
         provider: LLMProvider.OLLAMA_DEEPSEEK_CHAT,
         temperature: 0.1,
         useFallback: false,
+        stage: LLMRoutingStage.ANALYSIS,
       },
     });
-
-    return this.parseAnalysisResult(result);
   }
 
   /**
    * Use the Kevin model for code generation
-   * @param prompt The prompt for the Kevin model
+   * @param requirementAnalysis Structured analysis of the requirement
+   * @param language Target programming language
    */
   public async generateWithKevinModel(
     dto: RequestLLMWithOllamaKevinDto,
-  ): Promise<string> {
-    return this.callLLmApi({
-      prompt: dto.prompt,
-      systemMessage: dto.systemMessage,
+  ): Promise<Record<string, string>> {
+    const { prompt, systemMessage, promptVersionId } =
+      await this.promptService.renderPrompt({
+        key: PromptKey.KEVIN_CODE_GENERATION,
+        variables: {
+          ...this.getAnalysisVariables(dto.requirementAnalysis),
+          language: dto.language.toLowerCase(),
+          prerequisiteContext: dto.prerequisiteContext ?? '',
+          repositoryContext: dto.repositoryContext ?? '',
+        },
+      });
+
+    const result = await this.callStructuredLLmApi<GeneratedFilesDto>({
+      prompt,
+      systemMessage,
+      promptVersionId,
+      schemaName: 'generated_files',
+      schema: GENERATED_FILES_SCHEMA,
       options: {
         provider: LLMProvider.OLLAMA_KEVIN,
         temperature: 0.2,
         useFallback: false,
+        stage: LLMRoutingStage.GENERATION,
+        routingRule: dto.routingRule,
       },
     });
+
+    return toGeneratedFileMap(result);
   }
 
   /**
-   * Check Ollama availability and list available models
+   * Check Ollama availability and list the installed models, registering
+   * them as providers
    */
   public async checkOllamaAvailability(): Promise<OllamaAvailabilityResponseDto> {
-    const availableProviders = this.llmService.getAvailableProviders();
-    const ollamaProviders = Object.keys(availableProviders).filter((name) =>
-      name.startsWith('ollama-'),
-    );
+    try {
+      const models = await this.llmOllamaService.refreshModels();
 
-    return {
-      available: ollamaProviders.length > 0,
-      models: ollamaProviders as LLMProvider[],
-    };
+      return {
+        available: models.length > 0,
+        models: models.map((model) => model.provider),
+      };
+    } catch (error) {
+      this.logger.warn(`Ollama is not available: ${error.message}`);
+      return { available: false, models: [] };
+    }
   }
 
   /**
@@ -207,11 +268,14 @@ export class LlmIntegrationServiceImpl implements LLMIntegrationService {
   public async testSpecificOllamaModel(
     dto: OllamaModelTestDto,
   ): Promise<boolean> {
-    const { modelName, systemMessage } = dto;
+    const { modelName } = dto;
     try {
+      const { prompt, systemMessage, promptVersionId } =
+        await this.promptService.renderPrompt({ key: PromptKey.MODEL_CHECK });
       const result = await this.callLLmApi({
-        prompt: 'Hello, please respond with "OK" to confirm you are working.',
+        prompt,
         systemMessage,
+        promptVersionId,
         options: {
           provider: modelName as LLMProvider,
           useFallback: false,
@@ -225,92 +289,23 @@ export class LlmIntegrationServiceImpl implements LLMIntegrationService {
   }
 
   /**
-   * Parse analysis result from LLM response
-   * @param result LLM response text
+   * Prompt variables of a requirement analysis
+   * @param analysis Structured analysis of the requirement
    * @private
    */
-  private parseAnalysisResult(result: string): Record<string, any> {
+  private getAnalysisVariables(
+    analysis: RequirementAnalysisDto,
+  ): Record<string, string> {
     return {
-      title: this.extractTitle(result),
-      functionality: this.extractSection(result, 'main functionality'),
-      components: this.extractComponents(result),
-      inputsOutputs: this.extractSection(result, 'inputs and outputs'),
-      dependencies: this.extractSection(result, 'dependencies or constraints'),
-      fileStructure: this.extractFileStructure(result),
+      title: analysis.title,
+      functionality: analysis.functionality,
+      components: this.formatList(analysis.components),
+      inputsOutputs: analysis.inputsOutputs ?? '',
+      dependencies: analysis.dependencies ?? '',
+      fileStructure: this.formatList(analysis.fileStructure),
     };
   }
 
-  /**
-   * Extract a title from LLM response
-   * @param text LLM response text
-   * @private
-   */
-  private extractTitle(text: string): string {
-    const titleRegex = /(?:title|name):\s*(.*?)(?:\n|$)/i;
-    const match = text.match(titleRegex);
-    return match ? match[1].trim() : 'Untitled Requirement';
-  }
-
-  /**
-   * Extract a specific section from LLM response
-   * @param text LLM response text
-   * @param section Section name to extract
-   * @private
-   */
-  private extractSection(text: string, section: string): string {
-    const sectionRegex = new RegExp(
-      `(?:${section}|\\d+\\.\\s*(?:[\\w\\s]+${section}[\\w\\s]+)):?\\s*([\\s\\S]*?)(?:\\n\\s*\\d+\\.|\\n\\s*(?:[A-Z]|\\w+:)|$)`,
-      'i',
-    );
-    const match = text.match(sectionRegex);
-    return match ? match[1].trim() : '';
-  }
-
-  /**
-   * Extract components from LLM response
-   * @param text LLM response text
-   * @private
-   */
-  private extractComponents(text: string): string[] {
-    // Try to find components section
-    const componentsSection = this.extractSection(text, 'components|modules');
-
-    if (!componentsSection) {
-      return [];
-    }
-
-    // Split by bullet points or numbered items
-    const componentLines = componentsSection
-      .split(/\n\s*[-*•]|\n\s*\d+\.\s+/)
-      .filter(Boolean);
-
-    return componentLines.map((line) => line.trim());
-  }
-
-  /**
-   * Extract file structure from LLM response
-   * @param text LLM response text
-   * @private
-   */
-  private extractFileStructure(text: string): string[] {
-    const fileStructureSection = this.extractSection(text, 'file structure');
-
-    if (!fileStructureSection) {
-      return [];
-    }
-
-    // Split by bullet points, numbered items, or file paths
-    const fileLines = fileStructureSection
-      .split(/\n\s*[-*•]|\n\s*\d+\.\s+|\n\s*(?:\/|\\)/)
-      .filter(Boolean);
-
-    return fileLines.map((line) => {
-      // Clean up file paths
-      const cleaned = line.trim().replace(/^(?:\/|\\|-\s*|•\s*|\d+\.\s*)/, '');
-      return cleaned;
-    });
-  }
-
   /**
    * Format a list of items for prompting
    * @param items List of items
@@ -323,58 +318,4 @@ export class LlmIntegrationServiceImpl implements LLMIntegrationService {
 
     return items.map((item) => `- ${item}`).join('\n');
   }
-
-  /**
-   * Extract JSON from text response when direct parsing fails
-   * @param text LLM response text
-   * @private
-   */
-  private extractJsonFromText(text: string): Record<string, string> {
-    // Try to find JSON block in the text
-    const jsonBlockRegex = /```(?:json)?\s*({[\s\S]*?})\s*```|({[\s\S]*?})/;
-    const match = text.match(jsonBlockRegex);
-
-    if (match && (match[1] || match[2])) {
-      try {
-        return JSON.parse(match[1] || match[2]);
-      } catch (error) {
-        this.logger.error('Failed to parse JSON from extracted block', error);
-      }
-    }
-
-    // Fallback: try to construct JSON from file sections
-    const fileBlockRegex = /```(?:\w+)?\s*\/([^/]+\/[^`]+)```/g;
-    const fileBlocks = [...text.matchAll(fileBlockRegex)];
-
-    const result: Record<string, string> = {};
-
-    for (const match of fileBlocks) {
-      const parts = match[1].split('\n');
-      if (parts.length > 0) {
-        const filePath = parts[0].trim();
-        const content = parts.slice(1).join('\n');
-        result[filePath] = content;
-      }
-    }
-
-    if (Object.keys(result).length > 0) {
-      return result;
-    }
-
-    // Last resort: extract filename/path headers and code blocks
-    const headers = text.match(/#{1,3}\s+([^#\n]+\.[\w]+)/g) || [];
-    const codeBlocks = text.match(/```(?:\w+)?\s*([\s\S]*?)```/g) || [];
-
-    if (headers.length > 0 && headers.length === codeBlocks.length) {
-      for (let i = 0; i < headers.length; i++) {
-        const filePath = headers[i].replace(/^#{1,3}\s+/, '').trim();
-        const content = codeBlocks[i]
-          .replace(/```(?:\w+)?\s*([\s\S]*?)```/, '$1')
-          .trim();
-        result[filePath] = content;
-      }
-    }
-
-    return result;
-  }
 }
@@ -0,0 +1,296 @@
+import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { ConfigType } from '@nestjs/config';
+import { lastValueFrom } from 'rxjs';
+import { Readable } from 'stream';
+import { AxiosError } from 'axios';
+import { LlmOllamaService } from '@server/core/llm/service/llm-ollama.service';
+import { readJsonLines } from '@server/core/utils/stream-reader';
+import { NotFoundError, ValidationError } from '@server/core/error';
+import {
+  OllamaModelDto,
+  OllamaModelDetailDto,
+  OllamaPullState,
+  OllamaPullStatusDto,
+} from '@server/core/llm/dto/llm-ollama.dto';
+import {
+  dynamicLlmConfig,
+  createOllamaProviderConfig,
+  getOllamaProviderName,
+  LLMProvider,
+} from '@server/config/llm.config';
+
+// Listing, showing and deleting models answer quickly, unlike generating (ms)
+const OLLAMA_REQUEST_TIMEOUT = 10000;
+
+// Finished pulls are forgotten after this long (ms)
+const PULL_STATUS_TTL = 3600000;
+
+type OllamaTag = {
+  name: string;
+  size: number;
+  digest: string;
+  modified_at: string;
+  details?: {
+    family?: string;
+    parameter_size?: string;
+    quantization_level?: string;
+  };
+};
+
+@Injectable()
+export class LlmOllamaServiceImpl implements LlmOllamaService, OnModuleInit {
+  private readonly logger = new Logger(LlmOllamaServiceImpl.name);
+  private readonly pulls = new Map<string, OllamaPullStatusDto>();
+
+  constructor(
+    private readonly httpService: HttpService,
+
+    @Inject(dynamicLlmConfig.KEY)
+    private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+  ) {}
+
+  /**
+   * Register the installed models on startup. The configured models stay
+   * registered when the server cannot be reached.
+   */
+  public async onModuleInit(): Promise<void> {
+    if (!this.llmConfig.ollamaApiUrl) {
+      return;
+    }
+
+    try {
+      const models = await this.refreshModels();
+      this.logger.log(`Discovered ${models.length} Ollama models`);
+    } catch (error) {
+      this.logger.warn(
+        `Could not discover Ollama models, keeping the configured ones: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * List the installed models and register each of them as a provider,
+   * replacing the Ollama providers registered before. Providers managed
+   * through the provider API are left alone.
+   */
+  public async refreshModels(): Promise<OllamaModelDto[]> {
+    const apiUrl = this.getApiUrl();
+    const response = await lastValueFrom(
+      this.httpService.get<{ models: OllamaTag[] }>(`${apiUrl}/api/tags`, {
+        timeout: OLLAMA_REQUEST_TIMEOUT,
+      }),
+    );
+    const tags = response.data.models || [];
+
+    // The config object is shared, so the other services see the change
+    const providers = this.llmConfig.providers;
+    Object.entries(providers).forEach(([name, config]) => {
+      if (config.apiType === LLMProvider.OLLAMA && !config.managed) {
+        delete providers[name];
+      }
+    });
+    tags.forEach((tag) => {
+      const config = createOllamaProviderConfig(apiUrl, tag.name);
+      if (!providers[config.name]?.managed) {
+        providers[config.name] = config;
+      }
+    });
+
+    return tags.map((tag) => ({
+      name: tag.name,
+      provider: getOllamaProviderName(tag.name),
+      size: tag.size,
+      digest: tag.digest,
+      modifiedAt: tag.modified_at,
+      family: tag.details?.family,
+      parameterSize: tag.details?.parameter_size,
+      quantizationLevel: tag.details?.quantization_level,
+    }));
+  }
+
+  /**
+   * Get the Modelfile, parameters and template of a model
+   * @param name Model name
+   */
+  public async showModel(name: string): Promise<OllamaModelDetailDto> {
+    const apiUrl = this.getApiUrl();
+    this.validateName(name);
+
+    try {
+      const response = await lastValueFrom(
+        this.httpService.post(
+          `${apiUrl}/api/show`,
+          { model: name },
+          { timeout: OLLAMA_REQUEST_TIMEOUT },
+        ),
+      );
+
+      return {
+        name,
+        provider: getOllamaProviderName(name),
+        modelfile: response.data.modelfile,
+        parameters: response.data.parameters,
+        template: response.data.template,
+        details: response.data.details,
+        modelInfo: response.data.model_info,
+      };
+    } catch (error) {
+      throw this.toModelError(error, name);
+    }
+  }
+
+  /**
+   * Start pulling a model in the background. The model is registered as a
+   * provider once the pull succeeds. Pulling a model that is already being
+   * pulled returns the running pull.
+   * @param name Model name
+   */
+  public async pullModel(name: string): Promise<OllamaPullStatusDto> {
+    const apiUrl = this.getApiUrl();
+    this.validateName(name);
+
+    const running = this.pulls.get(name);
+    if (running?.state === OllamaPullState.PULLING) {
+      return running;
+    }
+
+    const status: OllamaPullStatusDto = {
+      name,
+      state: OllamaPullState.PULLING,
+      startedAt: new Date().toISOString(),
+    };
+    this.pulls.set(name, status);
+
+    // Downloads take minutes, the caller polls the status instead
+    this.runPull(apiUrl, status).catch((error) => {
+      this.logger.error(
+        `Pulling Ollama model ${name} failed: ${error.message}`,
+      );
+    });
+
+    return status;
+  }
+
+  /**
+   * List the pulls started by this instance within the last hour
+   */
+  public getPullStatuses(): OllamaPullStatusDto[] {
+    const expiredBefore = Date.now() - PULL_STATUS_TTL;
+
+    for (const [name, status] of this.pulls) {
+      if (
+        status.finishedAt &&
+        new Date(status.finishedAt).getTime() < expiredBefore
+      ) {
+        this.pulls.delete(name);
+      }
+    }
+
+    return [...this.pulls.values()];
+  }
+
+  /**
+   * Delete a model and unregister its provider
+   * @param name Model name
+   */
+  public async deleteModel(name: string): Promise<void> {
+    const apiUrl = this.getApiUrl();
+    this.validateName(name);
+
+    try {
+      await lastValueFrom(
+        this.httpService.delete(`${apiUrl}/api/delete`, {
+          data: { model: name },
+          timeout: OLLAMA_REQUEST_TIMEOUT,
+        }),
+      );
+    } catch (error) {
+      throw this.toModelError(error, name);
+    }
+
+    const provider = getOllamaProviderName(name);
+    if (!this.llmConfig.providers[provider]?.managed) {
+      delete this.llmConfig.providers[provider];
+    }
+    this.logger.log(`Deleted Ollama model ${name}`);
+  }
+
+  /**
+   * Pull a model, updating its status with the progress Ollama reports
+   * @param apiUrl Ollama server URL
+   * @param status Status of the pull
+   * @private
+   */
+  private async runPull(
+    apiUrl: string,
+    status: OllamaPullStatusDto,
+  ): Promise<void> {
+    try {
+      const response = await lastValueFrom(
+        this.httpService.post<Readable>(
+          `${apiUrl}/api/pull`,
+          { model: status.name, stream: true },
+          { responseType: 'stream' },
+        ),
+      );
+
+      for await (const line of readJsonLines(response.data)) {
+        if (line.error) {
+          throw new Error(line.error);
+        }
+        status.status = line.status;
+        status.completed = line.completed;
+        status.total = line.total;
+      }
+
+      status.state = OllamaPullState.SUCCEEDED;
+      this.logger.log(`Pulled Ollama model ${status.name}`);
+    } catch (error) {
+      status.state = OllamaPullState.FAILED;
+      status.error = error.message;
+      throw error;
+    } finally {
+      status.finishedAt = new Date().toISOString();
+    }
+
+    await this.refreshModels();
+  }
+
+  /**
+   * Get the Ollama server URL
+   * @private
+   */
+  private getApiUrl(): string {
+    if (!this.llmConfig.ollamaApiUrl) {
+      throw new ValidationError('Ollama is disabled');
+    }
+
+    return this.llmConfig.ollamaApiUrl;
+  }
+
+  /**
+   * Validate a model name
+   * @param name Model name
+   * @private
+   */
+  private validateName(name: string): void {
+    if (!name?.trim()) {
+      throw new ValidationError('Model name is required');
+    }
+  }
+
+  /**
+   * Convert a failed request about a model to an application error
+   * @param error Request error
+   * @param name Model name
+   * @private
+   */
+  private toModelError(error: AxiosError, name: string): Error {
+    if (error.response?.status === 404) {
+      return new NotFoundError(`Ollama model ${name} not found`);
+    }
+
+    return error;
+  }
+}
@@ -0,0 +1,497 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { Cluster as RedisCluster } from 'ioredis';
+import { PrismaClient, LlmProviderSetting, Prisma } from '.prisma/client';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@server/core/error';
+import { LlmProviderService } from '@server/core/llm/service/llm-provider.service';
+import {
+  CreateLlmProviderDto,
+  UpdateLlmProviderDto,
+  UpdateLlmProviderDefaultsDto,
+  LlmProviderDto,
+  LlmProviderListDto,
+} from '@server/core/llm/dto/llm-provider.dto';
+import {
+  dynamicLlmConfig,
+  getProviderLimits,
+  LLMProvider,
+  LLMRateLimit,
+  LLMRetryPolicy,
+  SingleLLMConfig,
+} from '@server/config/llm.config';
+import { authConfig } from '@server/config/auth.config';
+import { encryptSecret, decryptSecret } from '@server/core/utils/create-secret';
+import { PRISMA_REPOSITORY, REDIS_REPOSITORY } from '@server/constants';
+
+// Redis channel telling every instance to reload the provider settings
+const PROVIDER_CHANGE_CHANNEL = 'llm:providers';
+
+// Row holding the default provider and the fallback order
+const DEFAULTS_ID = 1;
+
+const PROVIDER_NAME_PATTERN = /^[a-z0-9][a-z0-9._:-]*$/i;
+
+// Provider types with an API of their own, the others speak the OpenAI API
+const API_TYPES = Object.values(LLMProvider).filter(
+  (type) => type !== LLMProvider.REPLAY,
+);
+
+const RETRY_POLICY_FIELDS = [
+  'timeoutMs',
+  'maxRetries',
+  'baseDelayMs',
+  'maxDelayMs',
+] as const;
+
+const RATE_LIMIT_FIELDS = [
+  'requestsPerMinute',
+  'tokensPerMinute',
+  'maxInFlight',
+  'maxWaitMs',
+] as const;
+
+@Injectable()
+export class LlmProviderServiceImpl
+  implements LlmProviderService, OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(LlmProviderServiceImpl.name);
+  private subscriber: RedisCluster;
+
+  // Settings of the providers before the stored ones were applied, restored
+  // when the stored ones are deleted
+  private readonly baselines = new Map<string, SingleLLMConfig>();
+  private envDefaultProvider: LLMProvider;
+  private envFallbackOrder: LLMProvider[];
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private readonly prismaRepository: PrismaClient,
+
+    @Inject(REDIS_REPOSITORY)
+    private readonly redisRepository: RedisCluster,
+
+    @Inject(authConfig.KEY)
+    private readonly auth: ConfigType<typeof authConfig>,
+
+    @Inject(dynamicLlmConfig.KEY)
+    private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+  ) {}
+
+  /**
+   * Apply the stored settings and reload them whenever another instance
+   * changes them
+   */
+  public async onModuleInit(): Promise<void> {
+    this.envDefaultProvider = this.llmConfig.defaultProvider;
+    this.envFallbackOrder = [...this.llmConfig.fallbackOrder];
+
+    await this.reload();
+
+    this.subscriber = this.redisRepository.duplicate();
+    this.subscriber.on('message', (channel: string) => {
+      if (channel !== PROVIDER_CHANGE_CHANNEL) {
+        return;
+      }
+
+      this.reload().catch((error) => {
+        this.logger.error(
+          `Failed to reload LLM provider settings: ${error.message}`,
+        );
+      });
+    });
+    await this.subscriber.subscribe(PROVIDER_CHANGE_CHANNEL);
+  }
+
+  public async onModuleDestroy(): Promise<void> {
+    await this.subscriber?.quit();
+  }
+
+  /**
+   * List the providers, the default provider and the fallback order
+   */
+  public listProviders(): LlmProviderListDto {
+    return {
+      defaultProvider: this.llmConfig.defaultProvider,
+      fallbackOrder: this.llmConfig.fallbackOrder,
+      providers: Object.values(this.llmConfig.providers).map((config) =>
+        this.toDto(config),
+      ),
+    };
+  }
+
+  /**
+   * Register a new provider
+   * @param dto Provider settings
+   */
+  public async createProvider(
+    dto: CreateLlmProviderDto,
+  ): Promise<LlmProviderDto> {
+    if (!dto.name || !PROVIDER_NAME_PATTERN.test(dto.name)) {
+      throw new ValidationError(
+        'Provider name may only hold letters, digits, dots, dashes, underscores and colons',
+      );
+    }
+    if (!dto.apiUrl || !dto.model) {
+      throw new ValidationError('apiUrl and model are required');
+    }
+    this.validateApiType(dto.apiType);
+    this.validateLimits(dto);
+
+    const existing = await this.prismaRepository.llmProviderSetting.findUnique({
+      where: { name: dto.name },
+    });
+    if (existing || this.llmConfig.providers[dto.name]) {
+      throw new ConflictError(`LLM provider ${dto.name} already exists`);
+    }
+
+    await this.prismaRepository.llmProviderSetting.create({
+      data: { name: dto.name, ...this.toSettingData(dto) },
+    });
+    await this.applyChange(dto.name);
+
+    return this.toDto(this.llmConfig.providers[dto.name]);
+  }
+
+  /**
+   * Update the settings of a provider, the omitted ones are kept. Providers
+   * configured through env vars are overridden until the stored settings
+   * are deleted.
+   * @param name Provider name
+   * @param dto Settings to update
+   */
+  public async updateProvider(
+    name: string,
+    dto: UpdateLlmProviderDto,
+  ): Promise<LlmProviderDto> {
+    if (!this.llmConfig.providers[name]) {
+      throw new NotFoundError(`LLM provider ${name} not found`);
+    }
+    if (dto.apiType !== undefined) {
+      this.validateApiType(dto.apiType);
+    }
+    this.validateLimits(dto);
+
+    const data = this.toSettingData(dto);
+    await this.prismaRepository.llmProviderSetting.upsert({
+      where: { name },
+      create: { name, ...data },
+      update: data,
+    });
+    await this.applyChange(name);
+
+    return this.toDto(this.llmConfig.providers[name]);
+  }
+
+  /**
+   * Delete the stored settings of a provider. Providers configured through
+   * env vars fall back to those settings, the others are removed.
+   * @param name Provider name
+   */
+  public async deleteProvider(name: string): Promise<void> {
+    const setting = await this.prismaRepository.llmProviderSetting.findUnique({
+      where: { name },
+    });
+    if (!setting) {
+      throw new NotFoundError(`No stored settings for LLM provider ${name}`);
+    }
+    if (!this.baselines.has(name) && this.llmConfig.defaultProvider === name) {
+      throw new ConflictError(
+        `LLM provider ${name} is the default provider, choose another one first`,
+      );
+    }
+
+    await this.prismaRepository.llmProviderSetting.delete({ where: { name } });
+    await this.applyChange(name);
+  }
+
+  /**
+   * Update the default provider and the fallback order
+   * @param dto Default provider and fallback order
+   */
+  public async updateDefaults(
+    dto: UpdateLlmProviderDefaultsDto,
+  ): Promise<LlmProviderListDto> {
+    const unknown = [dto.defaultProvider, ...(dto.fallbackOrder ?? [])].filter(
+      (name) => name && !this.llmConfig.providers[name],
+    );
+    if (unknown.length) {
+      throw new ValidationError(
+        `Unknown LLM providers: ${[...new Set(unknown)].join(', ')}`,
+      );
+    }
+
+    const data = {
+      ...(dto.defaultProvider !== undefined && {
+        default_provider: dto.defaultProvider,
+      }),
+      ...(dto.fallbackOrder !== undefined && {
+        fallback_order: dto.fallbackOrder,
+      }),
+    };
+    await this.prismaRepository.llmProviderDefaults.upsert({
+      where: { id: DEFAULTS_ID },
+      create: { id: DEFAULTS_ID, ...data },
+      update: data,
+    });
+    await this.applyChange('defaults');
+
+    return this.listProviders();
+  }
+
+  /**
+   * Apply a change on this instance and tell the others to reload
+   * @param name Name of the changed setting
+   * @private
+   */
+  private async applyChange(name: string): Promise<void> {
+    await this.reload();
+
+    try {
+      await this.redisRepository.publish(PROVIDER_CHANGE_CHANNEL, name);
+    } catch (error) {
+      this.logger.error(
+        `Failed to notify other instances of the ${name} change: ${error.message}`,
+      );
+    }
+    this.logger.log(`Applied LLM provider change: ${name}`);
+  }
+
+  /**
+   * Apply the stored settings over the configured ones. The config object is
+   * shared, so the LLM service sees the change on its next call.
+   * @private
+   */
+  private async reload(): Promise<void> {
+    const [settings, defaults] = await Promise.all([
+      this.prismaRepository.llmProviderSetting.findMany(),
+      this.prismaRepository.llmProviderDefaults.findUnique({
+        where: { id: DEFAULTS_ID },
+      }),
+    ]);
+    const providers = this.llmConfig.providers;
+    const names = new Set(settings.map((setting) => setting.name));
+
+    // Restore the providers whose stored settings were deleted
+    Object.entries(providers).forEach(([name, config]) => {
+      if (!config.managed || names.has(name)) {
+        return;
+      }
+
+      const baseline = this.baselines.get(name);
+      if (baseline) {
+        providers[name] = baseline;
+        this.baselines.delete(name);
+      } else {
+        delete providers[name];
+      }
+    });
+
+    settings.forEach((setting) => {
+      const current = providers[setting.name];
+      if (current && !current.managed) {
+        this.baselines.set(setting.name, current);
+      }
+
+      try {
+        providers[setting.name] = this.toConfig(
+          setting,
+          this.baselines.get(setting.name),
+        );
+      } catch (error) {
+        this.logger.error(
+          `Skipped stored settings of LLM provider ${setting.name}: ${error.message}`,
+        );
+      }
+    });
+
+    this.llmConfig.defaultProvider =
+      (defaults?.default_provider as LLMProvider) ?? this.envDefaultProvider;
+    this.llmConfig.fallbackOrder = defaults?.fallback_order.length
+      ? (defaults.fallback_order as LLMProvider[])
+      : this.envFallbackOrder;
+  }
+
+  /**
+   * Merge stored settings over the configured ones of a provider. Stored
+   * limits only hold the fields that were set, the others come from the
+   * configured ones or else the defaults of the provider type.
+   * @param setting Stored settings
+   * @param baseline Configured settings, if any
+   * @private
+   */
+  private toConfig(
+    setting: LlmProviderSetting,
+    baseline?: SingleLLMConfig,
+  ): SingleLLMConfig {
+    const apiType = (setting.api_type ?? baseline?.apiType) as LLMProvider;
+    if (!apiType) {
+      throw new Error('apiType is missing');
+    }
+
+    const defaults = getProviderLimits(apiType);
+
+    return {
+      ...baseline,
+      name: setting.name as LLMProvider,
+      apiType,
+      apiUrl: setting.api_url ?? baseline?.apiUrl,
+      apiKey: setting.api_key
+        ? decryptSecret(this.auth, setting.api_key)
+        : baseline?.apiKey ?? '',
+      model: setting.model ?? baseline?.model,
+      enabled: setting.enabled ?? baseline?.enabled ?? true,
+      pricing: {
+        ...baseline?.pricing,
+        ...(setting.pricing as SingleLLMConfig['pricing']),
+      },
+      retryPolicy: {
+        ...(baseline?.retryPolicy ?? defaults.retryPolicy),
+        ...(setting.retry_policy as Partial<LLMRetryPolicy>),
+      },
+      rateLimit: {
+        ...(baseline?.rateLimit ?? defaults.rateLimit),
+        ...(setting.rate_limit as Partial<LLMRateLimit>),
+      },
+      managed: true,
+    };
+  }
+
+  /**
+   * Convert provider settings to the columns to store, omitted settings
+   * are left out
+   * @param dto Provider settings
+   * @private
+   */
+  private toSettingData(
+    dto: UpdateLlmProviderDto,
+  ): Omit<Prisma.LlmProviderSettingCreateInput, 'name'> {
+    return {
+      ...(dto.apiType !== undefined && { api_type: dto.apiType }),
+      ...(dto.apiUrl !== undefined && { api_url: dto.apiUrl }),
+      ...(dto.apiKey !== undefined && {
+        api_key: dto.apiKey ? encryptSecret(this.auth, dto.apiKey) : null,
+      }),
+      ...(dto.model !== undefined && { model: dto.model }),
+      ...(dto.enabled !== undefined && { enabled: dto.enabled }),
+      ...(dto.pricing !== undefined && { pricing: dto.pricing }),
+      ...(dto.retryPolicy !== undefined && { retry_policy: dto.retryPolicy }),
+      ...(dto.rateLimit !== undefined && { rate_limit: dto.rateLimit }),
+    };
+  }
+
+  /**
+   * @private
+   */
+  private validateApiType(apiType: LLMProvider): void {
+    if (!API_TYPES.includes(apiType)) {
+      throw new ValidationError(
+        `apiType must be one of ${API_TYPES.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Check the prices and limits of a provider, so that a stored setting
+   * never leaves the LLM service with a value it cannot use
+   * @private
+   */
+  private validateLimits(dto: UpdateLlmProviderDto): void {
+    Object.entries(dto.pricing ?? {}).forEach(([model, price]) => {
+      if (
+        !this.isNonNegative(price?.prompt) ||
+        !this.isNonNegative(price?.completion)
+      ) {
+        throw new ValidationError(
+          `pricing.${model} needs non-negative prompt and completion prices`,
+        );
+      }
+    });
+
+    const checkFields = (
+      name: string,
+      value: Record<string, unknown> | undefined,
+      fields: readonly string[],
+    ) => {
+      if (
+        value !== undefined &&
+        (typeof value !== 'object' || value === null || Array.isArray(value))
+      ) {
+        throw new ValidationError(`${name} must be an object`);
+      }
+      fields.forEach((field) => {
+        if (
+          value?.[field] !== undefined &&
+          !(Number.isInteger(value[field]) && this.isNonNegative(value[field]))
+        ) {
+          throw new ValidationError(
+            `${name}.${field} must be a non-negative integer`,
+          );
+        }
+      });
+    };
+    checkFields('retryPolicy', dto.retryPolicy, RETRY_POLICY_FIELDS);
+    checkFields('rateLimit', dto.rateLimit, RATE_LIMIT_FIELDS);
+
+    const statusCodes = dto.retryPolicy?.retryableStatusCodes;
+    if (
+      statusCodes !== undefined &&
+      (!Array.isArray(statusCodes) ||
+        statusCodes.some(
+          (code) => !Number.isInteger(code) || code < 100 || code > 599,
+        ))
+    ) {
+      throw new ValidationError(
+        'retryPolicy.retryableStatusCodes must be a list of HTTP status codes',
+      );
+    }
+  }
+
+  /**
+   * @private
+   */
+  private isNonNegative(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  }
+
+  /**
+   * @private
+   */
+  private toDto(config: SingleLLMConfig): LlmProviderDto {
+    return {
+      name: config.name,
+      apiType: config.apiType,
+      apiUrl: config.apiUrl,
+      apiKey: this.maskApiKey(config.apiKey),
+      model: config.model,
+      enabled: config.enabled !== false,
+      managed: !!config.managed,
+      pricing: config.pricing,
+      retryPolicy: config.retryPolicy,
+      rateLimit: config.rateLimit,
+    };
+  }
+
+  /**
+   * Keep only the prefix and the last characters of an API key
+   * @private
+   */
+  private maskApiKey(apiKey: string): string {
+    if (!apiKey) {
+      return '';
+    }
+
+    return apiKey.length > 12
+      ? `${apiKey.substring(0, 3)}...${apiKey.substring(apiKey.length - 4)}`
+      : '***';
+  }
+}
@@ -0,0 +1,266 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { Cluster as RedisCluster } from 'ioredis';
+import { setTimeout as sleep } from 'timers/promises';
+import * as crypto from 'crypto';
+import { TooManyRequestError } from '@server/core/error';
+import { LlmRateLimiterService } from '@server/core/llm/service/llm-rate-limiter.service';
+import {
+  LLMProvider,
+  LLMRateLimit,
+  SingleLLMConfig,
+} from '@server/config/llm.config';
+import { REDIS_REPOSITORY } from '@server/constants';
+
+// Sliding window of the per-minute limits (ms)
+const RATE_WINDOW = 60000;
+
+// In-flight leases of a crashed instance are dropped after this time (ms)
+const LEASE_TTL = 600000;
+
+// Leases of running calls are extended at this interval, so that calls
+// lasting longer than the TTL keep their in-flight slot (ms)
+const LEASE_RENEW_INTERVAL = 60000;
+
+// Waits for an in-flight slot, which has no known release time, poll at
+// this interval (ms)
+const IN_FLIGHT_POLL_INTERVAL = 500;
+
+/**
+ * Drop what left the window, then take a lease when every limit allows it.
+ * Returns 0 once acquired, otherwise the time to wait before trying again.
+ * A call larger than the whole token budget still runs on an empty window.
+ *
+ * KEYS: requests zset, tokens zset, token counts hash, in-flight zset
+ * ARGV: now, lease ID, rpm, tpm, max in flight, tokens, lease TTL, window
+ */
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[8])
+local windowStart = now - window
+
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', windowStart)
+local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', windowStart)
+if #expired > 0 then
+  redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', windowStart)
+  redis.call('HDEL', KEYS[3], unpack(expired))
+end
+redis.call('ZREMRANGEBYSCORE', KEYS[4], '-inf', now)
+
+local rpm = tonumber(ARGV[3])
+if rpm > 0 and redis.call('ZCARD', KEYS[1]) >= rpm then
+  local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+  return math.max(1, tonumber(oldest[2]) + window - now)
+end
+
+local tpm = tonumber(ARGV[4])
+local tokens = tonumber(ARGV[6])
+if tpm > 0 then
+  local used = 0
+  for _, count in ipairs(redis.call('HVALS', KEYS[3])) do
+    used = used + tonumber(count)
+  end
+  if used > 0 and used + tokens > tpm then
+    local oldest = redis.call('ZRANGE', KEYS[2], 0, 0, 'WITHSCORES')
+    return math.max(1, tonumber(oldest[2]) + window - now)
+  end
+end
+
+local maxInFlight = tonumber(ARGV[5])
+if maxInFlight > 0 and redis.call('ZCARD', KEYS[4]) >= maxInFlight then
+  return -1
+end
+
+local lease = ARGV[2]
+redis.call('ZADD', KEYS[1], now, lease)
+redis.call('ZADD', KEYS[2], now, lease)
+redis.call('HSET', KEYS[3], lease, tokens)
+redis.call('ZADD', KEYS[4], now + tonumber(ARGV[7]), lease)
+for i = 1, 4 do
+  redis.call('PEXPIRE', KEYS[i], math.max(window, tonumber(ARGV[7])))
+end
+return 0
+`;
+
+@Injectable()
+export class LlmRateLimiterServiceImpl implements LlmRateLimiterService {
+  private readonly logger = new Logger(LlmRateLimiterServiceImpl.name);
+  // Renewal timers of the leases held by this instance
+  private readonly renewals = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    @Inject(REDIS_REPOSITORY)
+    private readonly redisRepository: RedisCluster,
+  ) {}
+
+  /**
+   * Wait until the provider has capacity for the call, then take a lease
+   * counting toward every limit
+   * @param providerConfig Provider settings holding its limits
+   * @param estimatedTokens Tokens the call is expected to use
+   * @param signal Cancels the wait
+   * @returns Lease ID to release once the call finished, null when the
+   * provider has no limits
+   */
+  public async acquire(
+    providerConfig: SingleLLMConfig,
+    estimatedTokens: number,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
+    const limits = providerConfig.rateLimit;
+    if (!this.isLimited(limits)) {
+      return null;
+    }
+
+    const bucket = this.getBucket(providerConfig);
+
+    const leaseId = crypto.randomUUID();
+
+    const deadline = Date.now() + limits.maxWaitMs;
+    let waited = false;
+
+    for (;;) {
+      const waitMs = Number(
+        await this.redisRepository.eval(
+          ACQUIRE_SCRIPT,
+          4,
+          ...this.getKeys(bucket),
+          Date.now(),
+          leaseId,
+          limits.requestsPerMinute,
+          limits.tokensPerMinute,
+          limits.maxInFlight,
+          estimatedTokens,
+          LEASE_TTL,
+          RATE_WINDOW,
+        ),
+      );
+
+      if (waitMs === 0) {
+        if (waited) {
+          this.logger.debug(`Rate limit of ${bucket} cleared`);
+        }
+        this.startRenewal(bucket, leaseId);
+        return leaseId;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new TooManyRequestError(
+          `Rate limit of ${bucket} still exceeded after waiting ${limits.maxWaitMs}ms`,
+        );
+      }
+
+      if (!waited) {
+        this.logger.debug(`Rate limit of ${bucket} reached, waiting`);
+        waited = true;
+      }
+
+      // Jitter keeps the waiting calls of every instance from retrying at once
+      const delay = waitMs > 0 ? waitMs : IN_FLIGHT_POLL_INTERVAL;
+      await sleep(
+        Math.min(remaining, delay + Math.random() * IN_FLIGHT_POLL_INTERVAL),
+        undefined,
+        { signal },
+      );
+    }
+  }
+
+  /**
+   * Free the in-flight slot of a lease and replace its token estimate with
+   * the actual usage
+   * @param providerConfig Provider settings
+   * @param leaseId Lease ID
+   * @param tokens Tokens actually used, the estimate is kept when unknown
+   */
+  public async release(
+    providerConfig: SingleLLMConfig,
+    leaseId: string,
+    tokens?: number,
+  ): Promise<void> {
+    const bucket = this.getBucket(providerConfig);
+    const [, tokensKey, tokenCountsKey, inFlightKey] = this.getKeys(bucket);
+    clearInterval(this.renewals.get(leaseId));
+    this.renewals.delete(leaseId);
+
+    try {
+      // Only leases still in the window get their token count corrected
+      const inWindow =
+        tokens > 0 &&
+        (await this.redisRepository.zscore(tokensKey, leaseId)) !== null;
+
+      const transaction = this.redisRepository
+        .multi()
+        .zrem(inFlightKey, leaseId);
+      if (inWindow) {
+        transaction.hset(tokenCountsKey, leaseId, tokens);
+      }
+      await transaction.exec();
+    } catch (error) {
+      this.logger.warn(
+        `Failed to release rate limit lease of ${bucket}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Keep extending the in-flight slot of a lease until it is released
+   * @private
+   */
+  private startRenewal(bucket: string, leaseId: string): void {
+    const inFlightKey = this.getKeys(bucket)[3];
+    const timer = setInterval(async () => {
+      try {
+        await this.redisRepository
+          .multi()
+          .zadd(inFlightKey, 'XX', Date.now() + LEASE_TTL, leaseId)
+          .pexpire(inFlightKey, LEASE_TTL)
+          .exec();
+      } catch (error) {
+        this.logger.warn(
+          `Failed to renew rate limit lease of ${bucket}: ${error.message}`,
+        );
+      }
+    }, LEASE_RENEW_INTERVAL);
+    // A running call keeps the process alive, not its lease
+    timer.unref();
+    this.renewals.set(leaseId, timer);
+  }
+
+  /**
+   * @private
+   */
+  private isLimited(limits?: LLMRateLimit): boolean {
+    return (
+      !!limits &&
+      (limits.requestsPerMinute > 0 ||
+        limits.tokensPerMinute > 0 ||
+        limits.maxInFlight > 0)
+    );
+  }
+
+  /**
+   * Name the limits of a provider are counted under. Every model of an
+   * Ollama server runs on that one server, so they share its limits.
+   * @private
+   */
+  private getBucket(providerConfig: SingleLLMConfig): string {
+    return providerConfig.apiType === LLMProvider.OLLAMA
+      ? `${LLMProvider.OLLAMA}:${providerConfig.apiUrl}`
+      : providerConfig.name;
+  }
+
+  /**
+   * Keys of a bucket share a hash tag, so that the script can run on a
+   * single cluster node
+   * @private
+   */
+  private getKeys(bucket: string): string[] {
+    const prefix = `llm-rate:{${bucket}}`;
+    return [
+      `${prefix}:requests`,
+      `${prefix}:tokens`,
+      `${prefix}:token-counts`,
+      `${prefix}:in-flight`,
+    ];
+  }
+}
@@ -0,0 +1,236 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { LlmReplayService } from '@server/core/llm/service/llm-replay.service';
+import { ConfigError } from '@server/core/error';
+import {
+  toLLMMessages,
+  splitSystemMessages,
+  getSingleTurnPrompt,
+} from '@server/core/utils/llm-messages';
+import {
+  RequestLLMDto,
+  RequestProviderLLMDto,
+  LLMTokenUsageDto,
+  LLMMessageRole,
+} from '@server/core/llm/dto/llm.dto';
+import {
+  LlmReplayFixtureDto,
+  LlmReplayMockDto,
+  LlmReplayResponseDto,
+} from '@server/core/llm/dto/llm-replay.dto';
+import { dynamicLlmConfig, LLMReplayMode } from '@server/config/llm.config';
+
+// Characters of the prompt quoted in the error of a missing response
+const PROMPT_EXCERPT_LENGTH = 120;
+
+type CompiledMock = {
+  pattern: RegExp;
+  content: string;
+};
+
+@Injectable()
+export class LlmReplayServiceImpl implements LlmReplayService {
+  private readonly logger = new Logger(LlmReplayServiceImpl.name);
+  private mocks: Promise<CompiledMock[]> | null = null;
+
+  constructor(
+    @Inject(dynamicLlmConfig.KEY)
+    private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+  ) {}
+
+  /**
+   * Current mode, or null when replaying is disabled
+   */
+  public getMode(): LLMReplayMode | null {
+    return this.llmConfig.replay?.mode ?? null;
+  }
+
+  /**
+   * Save a provider response as a fixture, replacing the one recorded
+   * before for the same prompt
+   * @param dto Request of the response
+   * @param model Model that produced the response
+   * @param content Response content
+   * @param usage Token usage reported by the provider
+   */
+  public async record(
+    dto: RequestProviderLLMDto,
+    model: string,
+    content: string,
+    usage: LLMTokenUsageDto,
+  ): Promise<void> {
+    const key = this.getKey(dto);
+    const fixture: LlmReplayFixtureDto = {
+      key,
+      provider: dto.provider,
+      model,
+      systemMessage: dto.systemMessage,
+      messages: dto.messages,
+      prompt: dto.prompt,
+      content,
+      usage,
+      recordedAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(this.llmConfig.replay.fixturesDir, { recursive: true });
+    await fs.writeFile(
+      this.getFixturePath(key),
+      `${JSON.stringify(fixture, null, 2)}\n`,
+    );
+    this.logger.debug(`Recorded ${dto.provider} response as ${key}`);
+  }
+
+  /**
+   * Get the recorded response of a prompt in replay mode, or the first
+   * scripted response matching it in mock mode. Calls without one fail,
+   * since answering them with anything else would hide a stale fixture.
+   * @param dto Request to answer
+   */
+  public async getResponse(dto: RequestLLMDto): Promise<LlmReplayResponseDto> {
+    const mode = this.getMode();
+    const usage = { promptTokens: 0, completionTokens: 0 };
+
+    const prompt = this.getLastUserMessage(dto);
+
+    if (mode === LLMReplayMode.MOCK) {
+      const mocks = await this.getMocks();
+      const mock = mocks.find((candidate) => candidate.pattern.test(prompt));
+      if (!mock) {
+        throw new Error(
+          `No scripted LLM response matches prompt "${this.getExcerpt(
+            prompt,
+          )}"`,
+        );
+      }
+      return { content: mock.content, usage };
+    }
+
+    const key = this.getKey(dto);
+    let fixture: LlmReplayFixtureDto;
+    try {
+      fixture = JSON.parse(await fs.readFile(this.getFixturePath(key), 'utf8'));
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      throw new Error(
+        `No recorded LLM response ${key} for prompt "${this.getExcerpt(
+          prompt,
+        )}", record it with LLM_REPLAY_MODE=record`,
+      );
+    }
+
+    return { content: fixture.content, usage: fixture.usage ?? usage };
+  }
+
+  /**
+   * Get the fixture key of a request: a hash of the system message, the
+   * prompt, or the conversation when it has more than one message, and
+   * the requested response format. Line endings, trailing spaces and runs
+   * of blank lines are normalized, so whitespace-only template edits keep
+   * matching the fixtures.
+   * @private
+   */
+  private getKey(dto: RequestLLMDto): string {
+    const { system, conversation } = splitSystemMessages(toLLMMessages(dto));
+    const prompt = getSingleTurnPrompt(conversation);
+
+    return crypto
+      .createHash('sha256')
+      .update(
+        JSON.stringify([
+          this.normalize(system),
+          prompt !== null
+            ? this.normalize(prompt)
+            : conversation.map((message) => ({
+                ...message,
+                content: this.normalize(message.content ?? ''),
+              })),
+          dto.options?.responseFormat?.name ?? null,
+        ]),
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Text of the last user message, the prompt of a single-turn request
+   * @private
+   */
+  private getLastUserMessage(dto: RequestLLMDto): string {
+    const userMessages = toLLMMessages(dto).filter(
+      (message) => message.role === LLMMessageRole.USER,
+    );
+    return userMessages[userMessages.length - 1]?.content ?? '';
+  }
+
+  /**
+   * @private
+   */
+  private normalize(text: string): string {
+    return text
+      .replace(/\r\n?/g, '\n')
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * @private
+   */
+  private getFixturePath(key: string): string {
+    return path.join(this.llmConfig.replay.fixturesDir, `${key}.json`);
+  }
+
+  /**
+   * @private
+   */
+  private getExcerpt(prompt: string): string {
+    const text = prompt.replace(/\s+/g, ' ').trim();
+    return text.length > PROMPT_EXCERPT_LENGTH
+      ? `${text.substring(0, PROMPT_EXCERPT_LENGTH)}...`
+      : text;
+  }
+
+  /**
+   * Load and compile the scripted responses once
+   * @private
+   */
+  private getMocks(): Promise<CompiledMock[]> {
+    if (!this.mocks) {
+      this.mocks = this.loadMocks();
+      // A broken file may be fixed without a restart
+      this.mocks.catch(() => (this.mocks = null));
+    }
+
+    return this.mocks;
+  }
+
+  /**
+   * @private
+   */
+  private async loadMocks(): Promise<CompiledMock[]> {
+    const mockFile = this.llmConfig.replay.mockFile;
+    if (!mockFile) {
+      throw new ConfigError('LLM_REPLAY_MOCK_FILE is required in mock mode');
+    }
+
+    const mocks: LlmReplayMockDto[] = JSON.parse(
+      await fs.readFile(mockFile, 'utf8'),
+    );
+    if (!Array.isArray(mocks)) {
+      throw new ConfigError(`${mockFile} must hold an array of responses`);
+    }
+
+    return mocks.map((mock) => ({
+      // A global pattern would remember where its last match ended
+      pattern: new RegExp(mock.pattern, mock.flags?.replace('g', '')),
+      content:
+        typeof mock.response === 'string'
+          ? mock.response
+          : JSON.stringify(mock.response),
+    }));
+  }
+}
@@ -0,0 +1,230 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { LlmRouterService } from '@server/core/llm/service/llm-router.service';
+import { LlmHealthService } from '@server/core/llm/service/llm-health.service';
+import {
+  RouteLLMDto,
+  LlmRoutingDecisionDto,
+  LlmRoutingSkipDto,
+} from '@server/core/llm/dto/llm-routing.dto';
+import {
+  dynamicLlmConfig,
+  LLMProvider,
+  SingleLLMConfig,
+} from '@server/config/llm.config';
+import {
+  llmRoutingConfig,
+  LLMRoutingRule,
+} from '@server/config/llm-routing.config';
+import { getTaskContext } from '@server/core/context/task-context';
+import { LLM_HEALTH_SERVICE } from '@server/constants';
+
+// Rough size of a token, used to estimate the tokens of a prompt
+const CHARS_PER_TOKEN = 4;
+
+type RoutingFacts = Pick<
+  RouteLLMDto,
+  'stage' | 'language' | 'priority' | 'projectId'
+> & {
+  promptTokens: number;
+};
+
+@Injectable()
+export class LlmRouterServiceImpl implements LlmRouterService {
+  private readonly logger = new Logger(LlmRouterServiceImpl.name);
+
+  constructor(
+    @Inject(llmRoutingConfig.KEY)
+    private readonly routingConfig: ConfigType<typeof llmRoutingConfig>,
+
+    @Inject(dynamicLlmConfig.KEY)
+    private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+
+    @Inject(LLM_HEALTH_SERVICE)
+    private readonly llmHealthService: LlmHealthService,
+  ) {}
+
+  /**
+   * Pick the providers of a call with the first matching rule. Providers
+   * preferred by the project of the running task come first. When no rule
+   * matches or none of its providers can be used, the configured fallback
+   * order applies.
+   * @param dto Stage and conditions of the call
+   */
+  public route(dto: RouteLLMDto): LlmRoutingDecisionDto {
+    const context = getTaskContext();
+    const facts: RoutingFacts = {
+      stage: dto.stage,
+      language: dto.language ?? context?.language,
+      priority: dto.priority ?? context?.priority,
+      projectId: dto.projectId ?? context?.projectId,
+      promptTokens: Math.ceil(
+        ((dto.prompt?.length ?? 0) + (dto.systemMessage?.length ?? 0)) /
+          CHARS_PER_TOKEN,
+      ),
+    };
+    const preferredProviders = context?.preferredProviders || [];
+
+    const rule = this.routingConfig.rules.find((candidate) =>
+      this.matches(candidate, facts),
+    );
+    const skipped: LlmRoutingSkipDto[] = [];
+    let providers: LLMProvider[] = [];
+    let reason: string;
+
+    if (rule) {
+      providers = this.filterProviders(
+        [...new Set([...preferredProviders, ...rule.providers])],
+        rule,
+        facts,
+        skipped,
+      );
+      reason = `rule ${rule.name} matched ${this.describeFacts(facts)}`;
+    }
+    if (providers.length === 0) {
+      const ruleSkipped = skipped.map((skip) => skip.provider);
+      providers = this.filterProviders(
+        this.getFallbackOrder(preferredProviders).filter(
+          (provider) => !ruleSkipped.includes(provider),
+        ),
+        null,
+        facts,
+        skipped,
+      );
+      reason = rule
+        ? `${reason}, but none of its providers can be used, using the fallback order`
+        : `no rule matched ${this.describeFacts(
+            facts,
+          )}, using the fallback order`;
+    }
+
+    const decision: LlmRoutingDecisionDto = {
+      stage: dto.stage,
+      rule: rule?.name ?? null,
+      providers,
+      skipped,
+      reason,
+    };
+    this.logDecision(decision, context?.taskId);
+
+    return decision;
+  }
+
+  /**
+   * Whether a rule applies to a call
+   * @private
+   */
+  private matches(rule: LLMRoutingRule, facts: RoutingFacts): boolean {
+    const match = rule.match || {};
+
+    return (
+      (!rule.stages || rule.stages.includes(facts.stage)) &&
+      (!match.languages || match.languages.includes(facts.language)) &&
+      (!match.priorities || match.priorities.includes(facts.priority)) &&
+      (!match.projectIds || match.projectIds.includes(facts.projectId)) &&
+      (match.minPromptTokens === undefined ||
+        facts.promptTokens >= match.minPromptTokens) &&
+      (match.maxPromptTokens === undefined ||
+        facts.promptTokens <= match.maxPromptTokens)
+    );
+  }
+
+  /**
+   * Keep the providers that are registered, enabled, healthy and within the
+   * cost budget of the rule, recording why the others were skipped
+   * @private
+   */
+  private filterProviders(
+    candidates: LLMProvider[],
+    rule: LLMRoutingRule | null,
+    facts: RoutingFacts,
+    skipped: LlmRoutingSkipDto[],
+  ): LLMProvider[] {
+    return candidates.filter((provider) => {
+      const config = this.llmConfig.providers[provider];
+      let reason: string | null = null;
+
+      if (!config) {
+        reason = 'not registered';
+      } else if (config.enabled === false) {
+        reason = 'disabled';
+      } else if (this.llmHealthService.isOpen(provider)) {
+        reason = 'circuit open';
+      } else if (rule?.maxCost !== undefined) {
+        const cost = this.estimateCost(config, facts.promptTokens);
+        if (cost !== null && cost > rule.maxCost) {
+          reason = `estimated cost $${cost.toFixed(4)} over budget $${
+            rule.maxCost
+          }`;
+        }
+      }
+
+      if (reason) {
+        skipped.push({ provider, reason });
+      }
+      return !reason;
+    });
+  }
+
+  /**
+   * Estimate the cost of a call in USD, or null when the provider has no
+   * price for its model
+   * @private
+   */
+  private estimateCost(
+    config: SingleLLMConfig,
+    promptTokens: number,
+  ): number | null {
+    const pricing = config.pricing || {};
+    const price = pricing[config.model] ?? pricing['*'];
+    if (!price) {
+      return null;
+    }
+
+    return (
+      (promptTokens * price.prompt +
+        this.routingConfig.expectedCompletionTokens * price.completion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * Providers preferred by the project, then the configured fallback order,
+   * then every other provider
+   * @private
+   */
+  private getFallbackOrder(preferredProviders: LLMProvider[]): LLMProvider[] {
+    return [
+      ...new Set([
+        ...preferredProviders,
+        ...this.llmConfig.fallbackOrder,
+        ...(Object.keys(this.llmConfig.providers) as LLMProvider[]),
+      ]),
+    ];
+  }
+
+  /**
+   * @private
+   */
+  private describeFacts(facts: RoutingFacts): string {
+    return Object.entries(facts)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(' ');
+  }
+
+  /**
+   * @private
+   */
+  private logDecision(decision: LlmRoutingDecisionDto, taskId?: string) {
+    const skipped = decision.skipped
+      .map(({ provider, reason }) => `${provider} (${reason})`)
+      .join(', ');
+
+    this.logger.log(
+      `Routed ${decision.stage}${taskId ? ` of task ${taskId}` : ''} to ${
+        decision.providers.join(' > ') || 'no provider'
+      }: ${decision.reason}${skipped ? `; skipped ${skipped}` : ''}`,
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { LLMService } from '@server/core/llm/service/llm.service';
+import { LlmStructuredOutputService } from '@server/core/llm/service/llm-structured-output.service';
+import {
+  RequestLLMDto,
+  RequestStructuredLLMDto,
+  LLMMessageRole,
+} from '@server/core/llm/dto/llm.dto';
+import {
+  extractJson,
+  validateJsonOutput,
+} from '@server/core/utils/json-output';
+import { toLLMMessages } from '@server/core/utils/llm-messages';
+import { llMConfig } from '@server/config/llm.config';
+import { LLM_SERVICE } from '@server/constants';
+
+@Injectable()
+export class LlmStructuredOutputServiceImpl
+  implements LlmStructuredOutputService
+{
+  private readonly logger = new Logger(LlmStructuredOutputServiceImpl.name);
+
+  constructor(
+    @Inject(LLM_SERVICE)
+    private readonly llmService: LLMService,
+
+    @Inject(llMConfig.KEY)
+    private readonly config: ConfigType<typeof llMConfig>,
+  ) {}
+
+  /**
+   * Call the LLM until its response parses and matches the schema. Each
+   * rejected response and its errors are added to the conversation, so the
+   * next attempt sees what it got wrong before.
+   * @param dto Prompt, options and the schema of the response
+   */
+  public async callStructuredLLMApi<T>(
+    dto: RequestStructuredLLMDto,
+  ): Promise<T> {
+    const {
+      schemaName,
+      schema,
+      maxRepairs,
+      prompt,
+      systemMessage,
+      messages,
+      ...request
+    } = dto;
+    const responseFormat = { name: schemaName, schema };
+    const repairs = maxRepairs ?? this.config.structuredOutputMaxRepairs;
+    const instruction = `Respond with a single JSON value matching this JSON Schema, without any text around it:
+${JSON.stringify(schema, null, 2)}`;
+    const conversation = toLLMMessages({
+      systemMessage,
+      messages,
+      prompt: prompt ? `${prompt}\n\n${instruction}` : instruction,
+    });
+
+    for (let attempt = 0; attempt <= repairs; attempt++) {
+      const content = await this.callLLM({
+        ...request,
+        messages: [...conversation],
+        options: {
+          temperature: 0.2,
+          ...request.options,
+          responseFormat,
+        },
+      });
+
+      const errors = validateJsonOutput(responseFormat, content);
+      if (!errors) {
+        return extractJson(content) as T;
+      }
+
+      this.logger.warn(
+        `Invalid ${schemaName} output (attempt ${attempt + 1}/${
+          repairs + 1
+        }): ${errors}`,
+      );
+      if (attempt === repairs) {
+        throw new Error(
+          `LLM output does not match the ${schemaName} schema after ${repairs} repairs: ${errors}`,
+        );
+      }
+
+      conversation.push(
+        { role: LLMMessageRole.ASSISTANT, content },
+        {
+          role: LLMMessageRole.USER,
+          content: `Your response was rejected for these reasons:
+${errors}
+
+Respond again with the corrected JSON only.`,
+        },
+      );
+    }
+  }
+
+  /**
+   * @private
+   */
+  private async callLLM(dto: RequestLLMDto): Promise<string> {
+    if (dto.options?.useFallback === false) {
+      return this.llmService.callLLMApi(dto);
+    }
+    const { content } = await this.llmService.callLLMApiWithFallback(dto);
+    return content;
+  }
+}
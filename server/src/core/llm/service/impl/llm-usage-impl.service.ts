@@ -0,0 +1,260 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { LlmCallStatus, Prisma, PrismaClient } from '.prisma/client';
+import { ValidationError } from '@server/core/error';
+import { LlmUsageService } from '@server/core/llm/service/llm-usage.service';
+import {
+  RecordLlmCallDto,
+  QueryLlmUsageDto,
+  LlmUsageTotalsDto,
+  LlmUsageSummaryDto,
+  ProviderUsageDto,
+} from '@server/core/llm/dto/llm-usage.dto';
+import { dynamicLlmConfig } from '@server/config/llm.config';
+import { PRISMA_REPOSITORY } from '@server/constants';
+
+type UsageGroup = {
+  _count: { _all: number };
+  _sum: {
+    prompt_tokens: number | null;
+    completion_tokens: number | null;
+    cost: number | null;
+  };
+};
+
+@Injectable()
+export class LlmUsageServiceImpl implements LlmUsageService {
+  private readonly logger = new Logger(LlmUsageServiceImpl.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(dynamicLlmConfig.KEY)
+    private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+  ) {}
+
+  /**
+   * Persist a provider call with its cost. Failures are only logged, usage
+   * accounting must never break a completion.
+   * @param dto Call details
+   */
+  public async recordCall(dto: RecordLlmCallDto): Promise<void> {
+    try {
+      await this.prismaRepository.llmCall.create({
+        data: {
+          task_id: dto.taskId,
+          provider: dto.provider,
+          model: dto.model,
+          prompt_tokens: dto.promptTokens,
+          completion_tokens: dto.completionTokens,
+          latency_ms: dto.latencyMs,
+          cost: this.computeCost(dto),
+          status: dto.status,
+          error: dto.error,
+          prompt_version_id: dto.promptVersionId,
+          stage: dto.stage,
+          routing_rule: dto.routingRule,
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record ${dto.provider} call of task ${dto.taskId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Get the usage of a task, per provider and model
+   * @param taskId Task ID
+   */
+  public async getTaskUsage(taskId: string): Promise<LlmUsageSummaryDto> {
+    return this.summarize({ task_id: taskId });
+  }
+
+  /**
+   * Get the usage totals of several tasks in two queries
+   * @param taskIds Task IDs
+   * @returns Totals keyed by task ID, tasks without calls are left out
+   */
+  public async getTaskTotals(
+    taskIds: string[],
+  ): Promise<Record<string, LlmUsageTotalsDto>> {
+    if (taskIds.length === 0) {
+      return {};
+    }
+
+    const where = { task_id: { in: taskIds } };
+    const [groups, failedGroups] = await Promise.all([
+      this.prismaRepository.llmCall.groupBy({
+        by: ['task_id'],
+        where,
+        _count: { _all: true },
+        _sum: { prompt_tokens: true, completion_tokens: true, cost: true },
+      }),
+      this.prismaRepository.llmCall.groupBy({
+        by: ['task_id'],
+        where: { ...where, status: LlmCallStatus.failed },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return groups.reduce((result, group) => {
+      const failed = failedGroups.find(
+        (failedGroup) => failedGroup.task_id === group.task_id,
+      );
+      result[group.task_id] = this.toTotals(group, failed?._count._all ?? 0);
+      return result;
+    }, {} as Record<string, LlmUsageTotalsDto>);
+  }
+
+  /**
+   * Get the usage of every task of a project, per provider and model
+   * @param projectId Project ID
+   * @param dto Date range
+   */
+  public async getProjectUsage(
+    projectId: string,
+    dto: QueryLlmUsageDto,
+  ): Promise<LlmUsageSummaryDto> {
+    return this.summarize({
+      task: { project_id: projectId },
+      created_at: this.toDateFilter(dto),
+    });
+  }
+
+  /**
+   * Get the usage of every provider and model, including calls made outside
+   * of a task
+   * @param dto Date range
+   */
+  public async getProviderUsage(
+    dto: QueryLlmUsageDto,
+  ): Promise<ProviderUsageDto[]> {
+    const { providers } = await this.summarize({
+      created_at: this.toDateFilter(dto),
+    });
+    return providers;
+  }
+
+  /**
+   * Group the matching calls by provider and model, and add up the totals
+   * @private
+   */
+  private async summarize(
+    where: Prisma.LlmCallWhereInput,
+  ): Promise<LlmUsageSummaryDto> {
+    const [groups, failedGroups] = await Promise.all([
+      this.prismaRepository.llmCall.groupBy({
+        by: ['provider', 'model'],
+        where,
+        _count: { _all: true },
+        _sum: { prompt_tokens: true, completion_tokens: true, cost: true },
+        orderBy: [{ provider: 'asc' }, { model: 'asc' }],
+      }),
+      this.prismaRepository.llmCall.groupBy({
+        by: ['provider', 'model'],
+        where: { ...where, status: LlmCallStatus.failed },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const providers: ProviderUsageDto[] = groups.map((group) => {
+      const failed = failedGroups.find(
+        (failedGroup) =>
+          failedGroup.provider === group.provider &&
+          failedGroup.model === group.model,
+      );
+      return {
+        provider: group.provider,
+        model: group.model,
+        ...this.toTotals(group, failed?._count._all ?? 0),
+      };
+    });
+
+    const totals = providers.reduce(
+      (result, usage) => ({
+        calls: result.calls + usage.calls,
+        failedCalls: result.failedCalls + usage.failedCalls,
+        promptTokens: result.promptTokens + usage.promptTokens,
+        completionTokens: result.completionTokens + usage.completionTokens,
+        totalTokens: result.totalTokens + usage.totalTokens,
+        cost: result.cost + usage.cost,
+      }),
+      {
+        calls: 0,
+        failedCalls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        cost: 0,
+      } as LlmUsageTotalsDto,
+    );
+
+    return { totals, providers };
+  }
+
+  /**
+   * @private
+   */
+  private toTotals(group: UsageGroup, failedCalls: number): LlmUsageTotalsDto {
+    const promptTokens = group._sum.prompt_tokens ?? 0;
+    const completionTokens = group._sum.completion_tokens ?? 0;
+
+    return {
+      calls: group._count._all,
+      failedCalls,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: group._sum.cost ?? 0,
+    };
+  }
+
+  /**
+   * Price a call with the table of its provider, falling back to the `*`
+   * entry for models without their own price
+   * @private
+   */
+  private computeCost(dto: RecordLlmCallDto): number | null {
+    const pricing = this.llmConfig.providers[dto.provider]?.pricing || {};
+    const price = pricing[dto.model] ?? pricing['*'];
+
+    if (!price) {
+      return null;
+    }
+
+    return (
+      (dto.promptTokens * price.prompt +
+        dto.completionTokens * price.completion) /
+      1_000_000
+    );
+  }
+
+  /**
+   * @private
+   */
+  private toDateFilter(dto: QueryLlmUsageDto): Prisma.DateTimeFilter {
+    const filter: Prisma.DateTimeFilter = {};
+
+    if (dto.from) {
+      filter.gte = this.parseDate(dto.from, 'from');
+    }
+    if (dto.to) {
+      filter.lte = this.parseDate(dto.to, 'to');
+    }
+
+    return filter;
+  }
+
+  /**
+   * @private
+   */
+  private parseDate(value: string, field: string): Date {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`${field} must be an ISO 8601 date`);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,50 @@
+import {
+  LlmCacheKeyDto,
+  LlmCacheEntryDto,
+  LlmCacheStatsDto,
+  PurgeLlmCacheDto,
+} from '@server/core/llm/dto/llm-cache.dto';
+
+/**
+ * LLM 回應快取服務介面定義
+ * 以提示詞、系統訊息、模型、溫度與回應格式的雜湊值為鍵，將提供商回應存放於 Redis
+ */
+export interface LlmCacheService {
+  /**
+   * 快取是否啟用 (TTL 大於 0)
+   */
+  isEnabled(): boolean;
+
+  /**
+   * 計算請求的快取鍵
+   * @param dto 影響回應內容的請求參數
+   */
+  getKey(dto: LlmCacheKeyDto): string;
+
+  /**
+   * 讀取快取的回應，並記錄命中或未命中
+   * @param key 快取鍵
+   * @param provider 提供商名稱
+   * @returns 快取的回應，未命中時為 null
+   */
+  get(key: string, provider: string): Promise<LlmCacheEntryDto | null>;
+
+  /**
+   * 快取一個完整的回應
+   * @param key 快取鍵
+   * @param entry 回應內容與用量
+   */
+  set(key: string, entry: LlmCacheEntryDto): Promise<void>;
+
+  /**
+   * 獲取快取設定與各提供商的命中統計
+   */
+  getStats(): Promise<LlmCacheStatsDto>;
+
+  /**
+   * 依提供商或鍵前綴清除快取
+   * @param dto 提供商或鍵前綴，皆未指定時清除全部
+   * @returns 清除的鍵數量
+   */
+  purge(dto: PurgeLlmCacheDto): Promise<number>;
+}
@@ -0,0 +1,39 @@
+import { ProviderHealthDto } from '@server/core/llm/dto/llm-health.dto';
+
+/**
+ * LLM 提供商健康狀態服務介面定義
+ * 以滾動時間窗統計各提供商的錯誤率與延遲，錯誤率過高時斷路以跳過該提供商
+ */
+export interface LlmHealthService {
+  /**
+   * 提供商是否可接受呼叫。斷路冷卻結束後進入半開狀態，只放行一次探測呼叫
+   * @param provider 提供商名稱
+   */
+  isAvailable(provider: string): boolean;
+
+  /**
+   * 斷路是否仍拒絕呼叫，僅查詢狀態，不會佔用半開狀態的探測呼叫
+   * @param provider 提供商名稱
+   */
+  isOpen(provider: string): boolean;
+
+  /**
+   * 記錄一次成功的呼叫
+   * @param provider 提供商名稱
+   * @param latencyMs 呼叫耗時 (毫秒)
+   */
+  recordSuccess(provider: string, latencyMs: number): void;
+
+  /**
+   * 記錄一次失敗的呼叫
+   * @param provider 提供商名稱
+   * @param latencyMs 呼叫耗時 (毫秒)
+   * @param error 錯誤訊息
+   */
+  recordFailure(provider: string, latencyMs: number, error: string): void;
+
+  /**
+   * 獲取所有啟用提供商的斷路狀態與統計
+   */
+  getHealth(): ProviderHealthDto[];
+}
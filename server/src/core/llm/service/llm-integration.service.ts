@@ -1,5 +1,7 @@
 import {
   RequestLLMDto,
+  RequestStructuredLLMDto,
+  RequirementAnalysisDto,
   RequestLLMWithOllamaDto,
   AnalyzeLLMWithOllamaDto,
   RequestLLMWithOllamaKevinDto,
@@ -9,13 +11,16 @@ import {
 
 export interface LLMIntegrationService {
   callLLmApi(dto: RequestLLMDto): Promise<string>;
+  callStructuredLLmApi<T>(dto: RequestStructuredLLMDto): Promise<T>;
   generateCodeWithOllamaModel(
     dto: RequestLLMWithOllamaDto,
   ): Promise<Record<string, string>>;
   analyzeRequirementWithOllama(
     dto: AnalyzeLLMWithOllamaDto,
-  ): Promise<Record<string, any>>;
-  generateWithKevinModel(dto: RequestLLMWithOllamaKevinDto): Promise<string>;
+  ): Promise<RequirementAnalysisDto>;
+  generateWithKevinModel(
+    dto: RequestLLMWithOllamaKevinDto,
+  ): Promise<Record<string, string>>;
   checkOllamaAvailability(): Promise<OllamaAvailabilityResponseDto>;
   testSpecificOllamaModel(dto: OllamaModelTestDto): Promise<boolean>;
 }
@@ -0,0 +1,41 @@
+import {
+  OllamaModelDto,
+  OllamaModelDetailDto,
+  OllamaPullStatusDto,
+} from '@server/core/llm/dto/llm-ollama.dto';
+
+/**
+ * Ollama 模型管理服務介面定義
+ * 向本地 Ollama 伺服器查詢已安裝的模型並註冊為 LLM 提供商，也可下載、檢視與刪除模型
+ */
+export interface LlmOllamaService {
+  /**
+   * 查詢已安裝的模型，並將提供商清單同步為這些模型
+   * @returns 已安裝的模型
+   */
+  refreshModels(): Promise<OllamaModelDto[]>;
+
+  /**
+   * 取得模型的 Modelfile、參數與模板
+   * @param name 模型名稱
+   */
+  showModel(name: string): Promise<OllamaModelDetailDto>;
+
+  /**
+   * 在背景下載模型，完成後註冊為提供商
+   * @param name 模型名稱
+   * @returns 下載狀態
+   */
+  pullModel(name: string): Promise<OllamaPullStatusDto>;
+
+  /**
+   * 列出本實例啟動的下載與其進度
+   */
+  getPullStatuses(): OllamaPullStatusDto[];
+
+  /**
+   * 刪除模型並移除對應的提供商
+   * @param name 模型名稱
+   */
+  deleteModel(name: string): Promise<void>;
+}
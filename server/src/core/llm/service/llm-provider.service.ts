@@ -0,0 +1,50 @@
+import {
+  CreateLlmProviderDto,
+  UpdateLlmProviderDto,
+  UpdateLlmProviderDefaultsDto,
+  LlmProviderDto,
+  LlmProviderListDto,
+} from '@server/core/llm/dto/llm-provider.dto';
+
+/**
+ * LLM 提供商管理服務介面定義
+ * 於執行期間新增、更新、啟用或停用提供商並調整預設提供商與備援順序，設定存於資料庫 (API 金鑰加密)，並透過 Redis 通知所有實例重新載入
+ */
+export interface LlmProviderService {
+  /**
+   * 列出提供商、預設提供商與備援順序
+   */
+  listProviders(): LlmProviderListDto;
+
+  /**
+   * 註冊新的提供商
+   * @param dto 提供商設定
+   * @returns 註冊的提供商
+   */
+  createProvider(dto: CreateLlmProviderDto): Promise<LlmProviderDto>;
+
+  /**
+   * 更新提供商設定，未指定的欄位保持不變
+   * @param name 提供商名稱
+   * @param dto 要更新的設定
+   * @returns 更新後的提供商
+   */
+  updateProvider(
+    name: string,
+    dto: UpdateLlmProviderDto,
+  ): Promise<LlmProviderDto>;
+
+  /**
+   * 刪除透過 API 儲存的設定，環境變數設定的提供商恢復原設定
+   * @param name 提供商名稱
+   */
+  deleteProvider(name: string): Promise<void>;
+
+  /**
+   * 更新預設提供商與備援順序
+   * @param dto 預設提供商與備援順序
+   */
+  updateDefaults(
+    dto: UpdateLlmProviderDefaultsDto,
+  ): Promise<LlmProviderListDto>;
+}
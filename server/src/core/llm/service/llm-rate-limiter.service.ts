@@ -0,0 +1,33 @@
+import { SingleLLMConfig } from '@server/config/llm.config';
+
+/**
+ * LLM 提供商限流服務介面定義
+ * 以 Redis 在所有實例間共享每分鐘請求數、每分鐘 token 數與同時進行中的呼叫數
+ * 同一 Ollama 伺服器上的所有模型共用一組額度
+ */
+export interface LlmRateLimiterService {
+  /**
+   * 等待提供商有足夠配額後取得一個租約，超過等待期限時拋出 TooManyRequestError
+   * @param providerConfig 提供商設定，包含限流設定
+   * @param estimatedTokens 預估的 token 數
+   * @param signal 取消等待的信號
+   * @returns 租約ID，提供商未設定限流時為 null
+   */
+  acquire(
+    providerConfig: SingleLLMConfig,
+    estimatedTokens: number,
+    signal?: AbortSignal,
+  ): Promise<string | null>;
+
+  /**
+   * 釋放租約，並以實際用量修正預估的 token 數
+   * @param providerConfig 提供商設定
+   * @param leaseId 租約ID
+   * @param tokens 實際使用的 token 數
+   */
+  release(
+    providerConfig: SingleLLMConfig,
+    leaseId: string,
+    tokens?: number,
+  ): Promise<void>;
+}
@@ -0,0 +1,38 @@
+import { LLMReplayMode } from '@server/config/llm.config';
+import {
+  RequestLLMDto,
+  RequestProviderLLMDto,
+  LLMTokenUsageDto,
+} from '@server/core/llm/dto/llm.dto';
+import { LlmReplayResponseDto } from '@server/core/llm/dto/llm-replay.dto';
+
+/**
+ * LLM 錄製與重播服務介面定義
+ * 將真實提供商的回應錄製為測試資料檔，或以錄製及預設的回應取代提供商，供離線執行
+ */
+export interface LlmReplayService {
+  /**
+   * 目前的模式，未啟用時為 null
+   */
+  getMode(): LLMReplayMode | null;
+
+  /**
+   * 將提供商的回應錄製為測試資料檔
+   * @param dto 請求內容
+   * @param model 模型名稱
+   * @param content 回應內容
+   * @param usage Token 使用量
+   */
+  record(
+    dto: RequestProviderLLMDto,
+    model: string,
+    content: string,
+    usage: LLMTokenUsageDto,
+  ): Promise<void>;
+
+  /**
+   * 取得錄製或預設的回應，找不到時拋出錯誤
+   * @param dto 請求內容
+   */
+  getResponse(dto: RequestLLMDto): Promise<LlmReplayResponseDto>;
+}
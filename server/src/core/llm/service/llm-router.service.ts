@@ -0,0 +1,17 @@
+import {
+  RouteLLMDto,
+  LlmRoutingDecisionDto,
+} from '@server/core/llm/dto/llm-routing.dto';
+
+/**
+ * LLM 路由服務介面定義
+ * 依據規則 (階段、語言、優先度、專案、提示大小與成本預算) 為每次呼叫選擇提供商與備援順序，並記錄選擇的原因
+ */
+export interface LlmRouterService {
+  /**
+   * 選擇呼叫的提供商，跳過未註冊、停用、斷路或超出預算的提供商
+   * @param dto 呼叫的階段與條件
+   * @returns 依序嘗試的提供商與選擇原因
+   */
+  route(dto: RouteLLMDto): LlmRoutingDecisionDto;
+}
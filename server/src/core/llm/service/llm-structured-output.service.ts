@@ -0,0 +1,14 @@
+import { RequestStructuredLLMDto } from '@server/core/llm/dto/llm.dto';
+
+/**
+ * LLM 結構化輸出服務介面定義
+ * 要求提供商以符合 JSON Schema 的 JSON 回應，驗證失敗時附上錯誤重新要求修正
+ */
+export interface LlmStructuredOutputService {
+  /**
+   * 呼叫 LLM 並回傳通過 Schema 驗證的物件
+   * @param dto 提示詞、選項與回應必須符合的 JSON Schema
+   * @returns 通過驗證的回應物件，修正次數用盡時拋出錯誤
+   */
+  callStructuredLLMApi<T>(dto: RequestStructuredLLMDto): Promise<T>;
+}
@@ -0,0 +1,48 @@
+import {
+  RecordLlmCallDto,
+  QueryLlmUsageDto,
+  LlmUsageTotalsDto,
+  LlmUsageSummaryDto,
+  ProviderUsageDto,
+} from '@server/core/llm/dto/llm-usage.dto';
+
+/**
+ * LLM 用量服務介面定義
+ * 記錄每次 LLM 呼叫的 token 用量、延遲與費用，並提供彙總查詢
+ */
+export interface LlmUsageService {
+  /**
+   * 記錄一次 LLM 呼叫，費用依提供商的價格表計算
+   * @param dto 呼叫資訊
+   */
+  recordCall(dto: RecordLlmCallDto): Promise<void>;
+
+  /**
+   * 獲取任務的用量與費用
+   * @param taskId 任務ID
+   */
+  getTaskUsage(taskId: string): Promise<LlmUsageSummaryDto>;
+
+  /**
+   * 批次獲取多個任務的用量總計
+   * @param taskIds 任務ID列表
+   * @returns 以任務ID為鍵的用量總計
+   */
+  getTaskTotals(taskIds: string[]): Promise<Record<string, LlmUsageTotalsDto>>;
+
+  /**
+   * 獲取專案所有任務的用量與費用
+   * @param projectId 專案ID
+   * @param dto 時間區間
+   */
+  getProjectUsage(
+    projectId: string,
+    dto: QueryLlmUsageDto,
+  ): Promise<LlmUsageSummaryDto>;
+
+  /**
+   * 獲取各提供商與模型的用量與費用
+   * @param dto 時間區間
+   */
+  getProviderUsage(dto: QueryLlmUsageDto): Promise<ProviderUsageDto[]>;
+}
@@ -1,4 +1,9 @@
-import { RequestLLMDto } from '@server/core/llm/dto/llm.dto';
+import {
+  RequestLLMDto,
+  LLMStreamChunkDto,
+  RequestEmbeddingDto,
+  EmbeddingResultDto,
+} from '@server/core/llm/dto/llm.dto';
 import { LLMProvider, SingleLLMConfig } from '@server/config/llm.config';
 
 export interface LLMService {
@@ -6,5 +11,10 @@ export interface LLMService {
   callLLMApiWithFallback(
     dto: RequestLLMDto,
   ): Promise<{ content: string; provider: LLMProvider }>;
+  streamLLMApi(dto: RequestLLMDto): AsyncIterable<LLMStreamChunkDto>;
+  streamLLMApiWithFallback(
+    dto: RequestLLMDto,
+  ): AsyncIterable<LLMStreamChunkDto>;
+  createEmbeddings(dto: RequestEmbeddingDto): Promise<EmbeddingResultDto>;
   getAvailableProviders(): Record<string, SingleLLMConfig>;
 }
@@ -0,0 +1,136 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  HttpException,
+  Logger,
+  Inject,
+} from '@nestjs/common';
+import { toHttpStatus } from '@server/core/error';
+import { PromptService } from '@server/core/prompt/service/prompt.service';
+import {
+  RenderPromptDto,
+  RenderedPromptDto,
+  CreatePromptVersionDto,
+  ActivatePromptVersionDto,
+  PromptTemplateDto,
+  PromptTemplateDetailDto,
+  PromptVersionDto,
+} from '@server/core/prompt/dto/prompt.dto';
+import { PROMPT_SERVICE } from '@server/constants';
+
+@Controller('prompts')
+export class PromptController {
+  private readonly logger = new Logger(PromptController.name);
+
+  constructor(
+    @Inject(PROMPT_SERVICE)
+    private readonly promptService: PromptService,
+  ) {}
+
+  @Get()
+  async listPrompts(): Promise<PromptTemplateDto[]> {
+    try {
+      return await this.promptService.listPrompts();
+    } catch (error) {
+      this.logger.error(`Error listing prompts: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to list prompts: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get(':key')
+  async getPrompt(@Param('key') key: string): Promise<PromptTemplateDetailDto> {
+    try {
+      return await this.promptService.getPrompt(key);
+    } catch (error) {
+      this.logger.error(`Error getting prompt: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to get prompt: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post(':key/versions')
+  async createVersion(
+    @Param('key') key: string,
+    @Body() dto: Omit<CreatePromptVersionDto, 'key'>,
+  ): Promise<PromptVersionDto> {
+    try {
+      return await this.promptService.createVersion({ ...dto, key });
+    } catch (error) {
+      this.logger.error(
+        `Error creating prompt version: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to create prompt version: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post(':key/activate')
+  async activateVersion(
+    @Param('key') key: string,
+    @Body() dto: Omit<ActivatePromptVersionDto, 'key'>,
+  ): Promise<PromptTemplateDetailDto> {
+    try {
+      return await this.promptService.activateVersion({ ...dto, key });
+    } catch (error) {
+      this.logger.error(
+        `Error activating prompt version: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to activate prompt version: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Delete(':key/projects/:projectId')
+  async resetProjectVersion(
+    @Param('key') key: string,
+    @Param('projectId') projectId: string,
+  ): Promise<{ success: boolean }> {
+    try {
+      await this.promptService.resetProjectVersion(key, projectId);
+      return { success: true };
+    } catch (error) {
+      this.logger.error(
+        `Error resetting project prompt version: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to reset project prompt version: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post(':key/preview')
+  async previewPrompt(
+    @Param('key') key: string,
+    @Body() dto: Omit<RenderPromptDto, 'key'>,
+  ): Promise<RenderedPromptDto> {
+    try {
+      return await this.promptService.renderPrompt({ ...dto, key });
+    } catch (error) {
+      this.logger.error(
+        `Error previewing prompt: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to preview prompt: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+}
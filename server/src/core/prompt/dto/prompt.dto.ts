@@ -0,0 +1,66 @@
+export class RenderPromptDto {
+  key: string;
+  // Values of the `{{name}}` placeholders
+  variables?: Record<string, string | number>;
+  // Version to render, defaults to the active one of the project
+  version?: number;
+  // Defaults to the project of the running task
+  projectId?: string;
+}
+
+export class RenderedPromptDto {
+  key: string;
+  version: number;
+  // Recorded with the LLM calls made with the prompt
+  promptVersionId: string;
+  prompt: string;
+  systemMessage?: string;
+}
+
+export class CreatePromptVersionDto {
+  key: string;
+  content: string;
+  systemMessage?: string;
+  // What changed, shown in the version history
+  note?: string;
+  // Make it the version used by projects without their own active version
+  activate?: boolean;
+}
+
+export class ActivatePromptVersionDto {
+  key: string;
+  version: number;
+  // Only activate the version for this project
+  projectId?: string;
+}
+
+export class PromptVersionDto {
+  id: string;
+  version: number;
+  content: string;
+  systemMessage?: string;
+  variables: string[];
+  note?: string;
+  createdAt: string;
+}
+
+export class ProjectPromptVersionDto {
+  projectId: string;
+  version: number;
+  updatedAt: string;
+}
+
+export class PromptTemplateDto {
+  key: string;
+  description?: string;
+  activeVersion: number;
+  latestVersion: number;
+  updatedAt: string;
+}
+
+export class PromptTemplateDetailDto extends PromptTemplateDto {
+  // Latest first
+  versions: PromptVersionDto[];
+  // Projects using another version than the active one
+  projects: ProjectPromptVersionDto[];
+}
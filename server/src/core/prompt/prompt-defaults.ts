@@ -0,0 +1,211 @@
+import { CodeLanguage } from '.prisma/client';
+
+export enum PromptKey {
+  REQUIREMENT_ANALYSIS = 'requirement-analysis',
+  DETAILED_REQUIREMENT_ANALYSIS = 'requirement-analysis.detailed',
+  CODE_GENERATION = 'code-generation',
+  KEVIN_CODE_GENERATION = 'code-generation.kevin',
+  // Suffixed by the code language, e.g. `language-context.typescript`
+  LANGUAGE_CONTEXT = 'language-context',
+  MODEL_CHECK = 'model-check',
+  SYNTAX_CHECK = 'quality.syntax-check',
+  CODE_EVALUATION = 'quality.code-evaluation',
+  REQUIREMENT_COVERAGE = 'quality.requirement-coverage',
+}
+
+export interface PromptDefault {
+  key: string;
+  description: string;
+  content: string;
+  systemMessage?: string;
+}
+
+const SOFTWARE_ASSISTANT =
+  'You are a helpful assistant specialized in software development.';
+
+const GENERIC_LANGUAGE_CONTEXT =
+  'Follow standard coding conventions and best practices for this language.';
+
+const LANGUAGE_CONTEXTS: Partial<Record<CodeLanguage, string>> = {
+  typescript: `Use TypeScript best practices:
+- Use interfaces for data structures
+- Apply proper typing throughout the code
+- Leverage decorators when appropriate
+- Follow NestJS patterns (controllers, services, modules)
+- Use dependency injection
+- Implement error handling with try/catch
+- Add JSDoc comments for all functions and classes`,
+  javascript: `Use JavaScript best practices:
+- Use ES6+ features (arrow functions, destructuring, etc.)
+- Apply proper error handling with try/catch
+- Add JSDoc comments for all functions and classes
+- Implement async/await patterns for asynchronous code`,
+  python: `Use Python best practices:
+- Follow PEP 8 style guidelines
+- Use type hints (Python 3.5+)
+- Add docstrings for all functions and classes
+- Implement proper error handling with try/except`,
+  java: `Use Java best practices:
+- Follow standard Java conventions
+- Use appropriate design patterns
+- Implement proper exception handling
+- Add JavaDoc comments for all methods and classes`,
+};
+
+/**
+ * Version 1 of every prompt, created at startup when its key is not in the
+ * registry yet. Editing a default does not change a registered prompt, add
+ * a version through the prompt API instead.
+ */
+export const PROMPT_DEFAULTS: PromptDefault[] = [
+  {
+    key: PromptKey.REQUIREMENT_ANALYSIS,
+    description: 'Break a requirement down into structured components',
+    systemMessage: SOFTWARE_ASSISTANT,
+    content: `Analyze the following software requirement and break it down into structured components.
+The code will be implemented in {{language}}.
+
+Requirement:
+{{requirement}}
+
+Please provide:
+1. A clear title for this requirement
+2. The main functionality being requested
+3. Key components or modules needed
+4. Expected inputs and outputs
+5. Any dependencies or constraints mentioned
+6. Suggested file structure for implementation, as file paths`,
+  },
+  {
+    key: PromptKey.DETAILED_REQUIREMENT_ANALYSIS,
+    description:
+      'Analyze a requirement with an implementation strategy, optionally based on a code template',
+    systemMessage:
+      'You are an assistant specialized in software development, with expertise in understanding and parsing software requirements. Break natural language requirements down into structured components that code can be generated from.',
+    content: `Analyze the following software requirement and break it down into structured components.
+The code will be implemented in {{language}}.
+
+Requirement:
+{{requirement}}
+
+{{templateContext}}
+
+Please provide:
+1. A clear title for this requirement
+2. The main functionality being requested
+3. Key components or modules needed
+4. Expected inputs and outputs
+5. Any dependencies or constraints mentioned
+6. Suggested file structure for implementation
+7. Implementation strategy and approach
+
+Return the result as JSON with the following fields:
+{
+  "title": "Requirement title",
+  "functionality": "Description of the main functionality",
+  "components": ["Component 1", "Component 2", ...],
+  "inputsOutputs": "Inputs and outputs",
+  "dependencies": "Dependencies and constraints",
+  "fileStructure": ["file1.ts", "file2.ts", ...],
+  "implementationStrategy": "Description of the implementation strategy"
+}`,
+  },
+  {
+    key: PromptKey.CODE_GENERATION,
+    description: 'Generate the files of an analyzed requirement',
+    systemMessage: SOFTWARE_ASSISTANT,
+    content: `Generate code in {{language}} based on the following analyzed requirement:
+
+Title: {{title}}
+
+Functionality: {{functionality}}
+
+Components needed:
+{{components}}
+
+Inputs and Outputs:
+{{inputsOutputs}}
+
+Dependencies and Constraints:
+{{dependencies}}
+
+File Structure:
+{{fileStructure}}
+
+{{languageContext}}
+{{prerequisiteContext}}
+{{repositoryContext}}
+For each file in the file structure, provide the complete code with proper documentation.`,
+  },
+  {
+    key: PromptKey.KEVIN_CODE_GENERATION,
+    description: 'Short code generation prompt of the Kevin model',
+    systemMessage: SOFTWARE_ASSISTANT,
+    content: `Generate code in {{language}} for: {{title}}
+Functionality: {{functionality}}
+Components: {{components}}
+{{prerequisiteContext}}
+{{repositoryContext}}`,
+  },
+  ...Object.values(CodeLanguage).map((language) => ({
+    key: `${PromptKey.LANGUAGE_CONTEXT}.${language}`,
+    description: `Coding guidelines added to the code generation prompts of ${language}`,
+    content: LANGUAGE_CONTEXTS[language] ?? GENERIC_LANGUAGE_CONTEXT,
+  })),
+  {
+    key: PromptKey.MODEL_CHECK,
+    description: 'Check that a model answers',
+    systemMessage: SOFTWARE_ASSISTANT,
+    content: 'Hello, please respond with "OK" to confirm you are working.',
+  },
+  {
+    key: PromptKey.SYNTAX_CHECK,
+    description: 'Check the syntax of a generated file',
+    content: `Check the basic syntax of the following {{language}} code.
+Do not evaluate code quality or style, only check for obvious syntax errors.
+
+Code:
+\`\`\`{{language}}
+{{content}}
+\`\`\`
+
+Answer only "valid" or "invalid", followed by the main syntax errors found, if any.`,
+  },
+  {
+    key: PromptKey.CODE_EVALUATION,
+    description: 'Score the quality of generated code against its requirement',
+    content: `As a professional code reviewer, evaluate whether the following code meets the requirement, and evaluate its quality.
+
+Requirement analysis:
+{{requirementAnalysis}}
+
+Code samples:
+{{codeSnippets}}
+
+Score the code on the following aspects (100 points in total):
+1. Correctness (does it implement the requested functionality correctly): 30 points
+2. Completeness (does it implement every requirement): 25 points
+3. Code quality (structure, maintainability, best practices): 25 points
+4. Error handling (are potential errors handled appropriately): 10 points
+5. Security (does it avoid common vulnerabilities): 10 points
+
+totalScore is the sum of the scores, feedback is a short review and issues lists the problems found.`,
+  },
+  {
+    key: PromptKey.REQUIREMENT_COVERAGE,
+    description:
+      'Score how much of the requirement the generated code implements',
+    content: `Evaluate whether the generated code covers every key functionality and component of the requirement.
+
+Required functionality:
+{{functionality}}
+
+Required components:
+{{components}}
+
+Generated code:
+{{code}}
+
+Give a coverageScore (0-100) and briefly explain it in reason.`,
+  },
+];
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { PromptController } from '@server/core/prompt/controller/prompt.controller';
+import { PromptServiceImpl } from '@server/core/prompt/service/impl/prompt-impl.service';
+import { PROMPT_SERVICE } from '@server/constants';
+
+const providers = [
+  {
+    provide: PROMPT_SERVICE,
+    useClass: PromptServiceImpl,
+  },
+];
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PromptController],
+  providers,
+  exports: providers,
+})
+export class PromptModule {}
@@ -0,0 +1,399 @@
+import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common';
+import {
+  PrismaClient,
+  PromptTemplate,
+  PromptVersion,
+  ProjectPrompt,
+} from '.prisma/client';
+import { NotFoundError, ValidationError } from '@server/core/error';
+import { PromptService } from '@server/core/prompt/service/prompt.service';
+import {
+  RenderPromptDto,
+  RenderedPromptDto,
+  CreatePromptVersionDto,
+  ActivatePromptVersionDto,
+  PromptTemplateDto,
+  PromptTemplateDetailDto,
+  PromptVersionDto,
+} from '@server/core/prompt/dto/prompt.dto';
+import { PROMPT_DEFAULTS } from '@server/core/prompt/prompt-defaults';
+import { getTaskContext } from '@server/core/context/task-context';
+import { PRISMA_REPOSITORY } from '@server/constants';
+
+// `{{name}}` placeholders, spaces inside the braces are allowed
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+@Injectable()
+export class PromptServiceImpl implements OnModuleInit, PromptService {
+  private readonly logger = new Logger(PromptServiceImpl.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+  ) {}
+
+  public async onModuleInit() {
+    await this.seedDefaults();
+  }
+
+  /**
+   * Render the version of a prompt used by the project, which is the
+   * project's own active version or else the prompt's active version
+   * @param dto Prompt key, variables and optional version and project
+   */
+  public async renderPrompt(dto: RenderPromptDto): Promise<RenderedPromptDto> {
+    const template = await this.findTemplateOrFail(dto.key);
+    const projectId = dto.projectId ?? getTaskContext()?.projectId;
+
+    let version = dto.version;
+    if (version === undefined && projectId) {
+      const projectPrompt =
+        await this.prismaRepository.projectPrompt.findUnique({
+          where: {
+            project_id_template_id: {
+              project_id: projectId,
+              template_id: template.id,
+            },
+          },
+        });
+      version = projectPrompt?.version;
+    }
+
+    const promptVersion = await this.findVersionOrFail(
+      template,
+      version ?? template.active_version,
+    );
+
+    const variables = dto.variables || {};
+    const missing = promptVersion.variables.filter(
+      (name) => variables[name] === undefined || variables[name] === null,
+    );
+    if (missing.length > 0) {
+      throw new ValidationError(
+        `Missing variables of prompt ${dto.key} v${
+          promptVersion.version
+        }: ${missing.join(', ')}`,
+      );
+    }
+
+    return {
+      key: template.key,
+      version: promptVersion.version,
+      promptVersionId: promptVersion.id,
+      prompt: this.fillPlaceholders(promptVersion.content, variables),
+      systemMessage: promptVersion.system_message
+        ? this.fillPlaceholders(promptVersion.system_message, variables)
+        : undefined,
+    };
+  }
+
+  /**
+   * List every prompt by key
+   */
+  public async listPrompts(): Promise<PromptTemplateDto[]> {
+    const templates = await this.prismaRepository.promptTemplate.findMany({
+      include: { versions: { select: { version: true } } },
+      orderBy: { key: 'asc' },
+    });
+
+    return templates.map((template) =>
+      this.toPromptTemplateDto(template, template.versions),
+    );
+  }
+
+  /**
+   * Get a prompt with its version history and project overrides
+   * @param key Prompt key
+   */
+  public async getPrompt(key: string): Promise<PromptTemplateDetailDto> {
+    const template = await this.prismaRepository.promptTemplate.findUnique({
+      where: { key },
+      include: {
+        versions: { orderBy: { version: 'desc' } },
+        projects: { orderBy: { updated_at: 'desc' } },
+      },
+    });
+
+    if (!template) {
+      throw new NotFoundError(`Prompt ${key} not found`);
+    }
+
+    return this.toPromptTemplateDetailDto(
+      template,
+      template.versions,
+      template.projects,
+    );
+  }
+
+  /**
+   * Add a version after the latest one, its variables are the placeholders
+   * of the content and system message
+   * @param dto Prompt key and version content
+   */
+  public async createVersion(
+    dto: CreatePromptVersionDto,
+  ): Promise<PromptVersionDto> {
+    if (!dto.content?.trim()) {
+      throw new ValidationError('content is required');
+    }
+    const template = await this.findTemplateOrFail(dto.key);
+
+    const promptVersion = await this.prismaRepository.$transaction(
+      async (tx) => {
+        const latest = await tx.promptVersion.aggregate({
+          where: { template_id: template.id },
+          _max: { version: true },
+        });
+
+        const created = await tx.promptVersion.create({
+          data: {
+            template_id: template.id,
+            version: (latest._max.version ?? 0) + 1,
+            content: dto.content,
+            system_message: dto.systemMessage,
+            variables: this.getVariables(dto.content, dto.systemMessage),
+            note: dto.note,
+          },
+        });
+
+        await tx.promptTemplate.update({
+          where: { id: template.id },
+          data: dto.activate
+            ? { active_version: created.version }
+            : { updated_at: new Date() },
+        });
+
+        return created;
+      },
+    );
+
+    this.logger.log(
+      `Created prompt ${dto.key} v${promptVersion.version}${
+        dto.activate ? ', activated' : ''
+      }`,
+    );
+    return this.toPromptVersionDto(promptVersion);
+  }
+
+  /**
+   * Make a version the active one of the prompt, or of a single project
+   * @param dto Prompt key, version and optional project
+   */
+  public async activateVersion(
+    dto: ActivatePromptVersionDto,
+  ): Promise<PromptTemplateDetailDto> {
+    const template = await this.findTemplateOrFail(dto.key);
+    await this.findVersionOrFail(template, dto.version);
+
+    if (dto.projectId) {
+      const project = await this.prismaRepository.project.findUnique({
+        where: { id: dto.projectId },
+      });
+      if (!project) {
+        throw new NotFoundError(`Project with ID ${dto.projectId} not found`);
+      }
+
+      await this.prismaRepository.projectPrompt.upsert({
+        where: {
+          project_id_template_id: {
+            project_id: dto.projectId,
+            template_id: template.id,
+          },
+        },
+        create: {
+          project_id: dto.projectId,
+          template_id: template.id,
+          version: dto.version,
+        },
+        update: { version: dto.version },
+      });
+    } else {
+      await this.prismaRepository.promptTemplate.update({
+        where: { id: template.id },
+        data: { active_version: dto.version },
+      });
+    }
+
+    this.logger.log(
+      `Activated prompt ${dto.key} v${dto.version}${
+        dto.projectId ? ` for project ${dto.projectId}` : ''
+      }`,
+    );
+    return this.getPrompt(dto.key);
+  }
+
+  /**
+   * Make a project use the active version of the prompt again
+   * @param key Prompt key
+   * @param projectId Project ID
+   */
+  public async resetProjectVersion(
+    key: string,
+    projectId: string,
+  ): Promise<void> {
+    const template = await this.findTemplateOrFail(key);
+
+    const { count } = await this.prismaRepository.projectPrompt.deleteMany({
+      where: { project_id: projectId, template_id: template.id },
+    });
+    if (count === 0) {
+      throw new NotFoundError(
+        `Project ${projectId} has no own version of prompt ${key}`,
+      );
+    }
+  }
+
+  /**
+   * Register the default version of the prompts missing from the registry
+   * @private
+   */
+  private async seedDefaults(): Promise<void> {
+    const existing = await this.prismaRepository.promptTemplate.findMany({
+      select: { key: true },
+    });
+    const existingKeys = new Set(existing.map((template) => template.key));
+
+    for (const prompt of PROMPT_DEFAULTS) {
+      if (existingKeys.has(prompt.key)) {
+        continue;
+      }
+
+      try {
+        await this.prismaRepository.promptTemplate.create({
+          data: {
+            key: prompt.key,
+            description: prompt.description,
+            active_version: 1,
+            versions: {
+              create: {
+                version: 1,
+                content: prompt.content,
+                system_message: prompt.systemMessage,
+                variables: this.getVariables(
+                  prompt.content,
+                  prompt.systemMessage,
+                ),
+                note: 'Default prompt',
+              },
+            },
+          },
+        });
+        this.logger.log(`Registered default prompt ${prompt.key}`);
+      } catch (error) {
+        // Another instance registered it first
+        this.logger.warn(
+          `Could not register default prompt ${prompt.key}: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * @private
+   */
+  private fillPlaceholders(
+    text: string,
+    variables: Record<string, string | number>,
+  ): string {
+    return text.replace(PLACEHOLDER_PATTERN, (_, name: string) =>
+      String(variables[name]),
+    );
+  }
+
+  /**
+   * @private
+   */
+  private getVariables(content: string, systemMessage?: string): string[] {
+    const text = `${content}\n${systemMessage ?? ''}`;
+    return [
+      ...new Set(
+        [...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]),
+      ),
+    ];
+  }
+
+  /**
+   * @private
+   */
+  private async findTemplateOrFail(key: string): Promise<PromptTemplate> {
+    const template = await this.prismaRepository.promptTemplate.findUnique({
+      where: { key },
+    });
+
+    if (!template) {
+      throw new NotFoundError(`Prompt ${key} not found`);
+    }
+
+    return template;
+  }
+
+  /**
+   * @private
+   */
+  private async findVersionOrFail(
+    template: PromptTemplate,
+    version: number,
+  ): Promise<PromptVersion> {
+    const promptVersion = await this.prismaRepository.promptVersion.findUnique({
+      where: {
+        template_id_version: { template_id: template.id, version },
+      },
+    });
+
+    if (!promptVersion) {
+      throw new NotFoundError(`Prompt ${template.key} v${version} not found`);
+    }
+
+    return promptVersion;
+  }
+
+  /**
+   * @private
+   */
+  private toPromptTemplateDto(
+    template: PromptTemplate,
+    versions: Pick<PromptVersion, 'version'>[],
+  ): PromptTemplateDto {
+    return {
+      key: template.key,
+      description: template.description ?? undefined,
+      activeVersion: template.active_version,
+      latestVersion: Math.max(0, ...versions.map((v) => v.version)),
+      updatedAt: template.updated_at.toISOString(),
+    };
+  }
+
+  /**
+   * @private
+   */
+  private toPromptTemplateDetailDto(
+    template: PromptTemplate,
+    versions: PromptVersion[],
+    projects: ProjectPrompt[],
+  ): PromptTemplateDetailDto {
+    return {
+      ...this.toPromptTemplateDto(template, versions),
+      versions: versions.map((version) => this.toPromptVersionDto(version)),
+      projects: projects.map((project) => ({
+        projectId: project.project_id,
+        version: project.version,
+        updatedAt: project.updated_at.toISOString(),
+      })),
+    };
+  }
+
+  /**
+   * @private
+   */
+  private toPromptVersionDto(version: PromptVersion): PromptVersionDto {
+    return {
+      id: version.id,
+      version: version.version,
+      content: version.content,
+      systemMessage: version.system_message ?? undefined,
+      variables: version.variables,
+      note: version.note ?? undefined,
+      createdAt: version.created_at.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  RenderPromptDto,
+  RenderedPromptDto,
+  CreatePromptVersionDto,
+  ActivatePromptVersionDto,
+  PromptTemplateDto,
+  PromptTemplateDetailDto,
+  PromptVersionDto,
+} from '@server/core/prompt/dto/prompt.dto';
+
+/**
+ * 提示詞註冊服務介面定義
+ * 提示詞以鍵值存放於資料庫並保留版本歷史，每個專案可使用各自的啟用版本
+ */
+export interface PromptService {
+  /**
+   * 以變數填入提示詞的佔位符 `{{name}}`，缺少變數時拋出 ValidationError
+   * @param dto 提示詞鍵值、變數，以及可選的版本與專案
+   * @returns 填入後的提示詞、系統訊息與使用的版本
+   */
+  renderPrompt(dto: RenderPromptDto): Promise<RenderedPromptDto>;
+
+  /**
+   * 列出所有提示詞
+   */
+  listPrompts(): Promise<PromptTemplateDto[]>;
+
+  /**
+   * 取得提示詞的版本歷史與各專案的啟用版本
+   * @param key 提示詞鍵值
+   */
+  getPrompt(key: string): Promise<PromptTemplateDetailDto>;
+
+  /**
+   * 新增提示詞版本，佔位符自動成為版本的變數
+   */
+  createVersion(dto: CreatePromptVersionDto): Promise<PromptVersionDto>;
+
+  /**
+   * 啟用提示詞版本，指定專案時只對該專案生效
+   */
+  activateVersion(
+    dto: ActivatePromptVersionDto,
+  ): Promise<PromptTemplateDetailDto>;
+
+  /**
+   * 移除專案的啟用版本，專案改用提示詞的預設啟用版本
+   * @param key 提示詞鍵值
+   * @param projectId 專案ID
+   */
+  resetProjectVersion(key: string, projectId: string): Promise<void>;
+}
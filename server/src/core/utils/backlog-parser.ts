@@ -0,0 +1,229 @@
+import { CodeLanguage, TaskPriority } from '.prisma/client';
+import { ValidationError } from '@server/core/error';
+import {
+  BacklogFormat,
+  TaskBatchItemDto,
+} from '@server/requirement-task/dto/task-batch.dto';
+
+type CsvColumn = Exclude<
+  keyof TaskBatchItemDto,
+  'additionalContext' | 'dependsOn'
+>;
+
+// CSV headers are matched case-insensitively, ignoring spaces and underscores
+const CSV_COLUMNS: Record<string, CsvColumn> = {
+  requirement: 'requirementText',
+  requirementtext: 'requirementText',
+  priority: 'priority',
+  language: 'language',
+  outputpath: 'outputPath',
+  branch: 'branch',
+  repositoryurl: 'repositoryUrl',
+  templateid: 'templateId',
+};
+
+// Prerequisite task IDs, separated by semicolons or whitespace
+const CSV_DEPENDS_ON_COLUMN = 'dependson';
+
+// Unchecked Markdown checklist item, e.g. `- [ ] Add a login page !high`
+const CHECKLIST_ITEM_PATTERN = /^\s*[-*+]\s+\[ \]\s+(.+?)\s*$/;
+const PRIORITY_TAG_PATTERN = /\s+!(low|medium|high|critical)$/i;
+
+/**
+ * Detect the format of an uploaded backlog file
+ * @param fileName Original file name
+ * @param mimeType File MIME type
+ */
+export function detectBacklogFormat(
+  fileName: string,
+  mimeType: string,
+): BacklogFormat | undefined {
+  if (/\.csv$/i.test(fileName) || mimeType === 'text/csv') {
+    return 'csv';
+  }
+  if (/\.(md|markdown)$/i.test(fileName) || mimeType === 'text/markdown') {
+    return 'markdown';
+  }
+  if (/\.json$/i.test(fileName) || mimeType === 'application/json') {
+    return 'json';
+  }
+  return undefined;
+}
+
+/**
+ * Parse a backlog file into batch items
+ * @param content File content
+ * @param format Backlog format
+ */
+export function parseBacklog(
+  content: string,
+  format: BacklogFormat,
+): TaskBatchItemDto[] {
+  // Spreadsheet exports often start with a UTF-8 byte order mark
+  content = content.replace(/^\uFEFF/, '');
+
+  switch (format) {
+    case 'json':
+      return parseJsonBacklog(content);
+    case 'csv':
+      return parseCsvBacklog(content);
+    case 'markdown':
+      return parseMarkdownBacklog(content);
+    default:
+      throw new ValidationError(`Unsupported backlog format '${format}'`);
+  }
+}
+
+/**
+ * Validate batch items and normalise their priority and language
+ * @param items Batch items
+ */
+export function validateBacklogItems(
+  items: TaskBatchItemDto[],
+): TaskBatchItemDto[] {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new ValidationError('The backlog contains no items');
+  }
+
+  return items.map((item, index) => {
+    const requirementText =
+      typeof item?.requirementText === 'string'
+        ? item.requirementText.trim()
+        : undefined;
+    if (!requirementText) {
+      throw new ValidationError(`Item ${index + 1} has no requirementText`);
+    }
+
+    for (const field of ['priority', 'language'] as const) {
+      if (item[field] != null && typeof item[field] !== 'string') {
+        throw new ValidationError(`Item ${index + 1} has an invalid ${field}`);
+      }
+    }
+
+    const priority = item.priority?.toLowerCase() as TaskPriority;
+    if (priority && !Object.values(TaskPriority).includes(priority)) {
+      throw new ValidationError(
+        `Item ${index + 1} has an unknown priority '${item.priority}'`,
+      );
+    }
+
+    const language = item.language?.toLowerCase() as CodeLanguage;
+    if (language && !Object.values(CodeLanguage).includes(language)) {
+      throw new ValidationError(
+        `Item ${index + 1} has an unsupported language '${item.language}'`,
+      );
+    }
+
+    return {
+      ...item,
+      requirementText,
+      priority: priority || TaskPriority.medium,
+      language: language || undefined,
+    };
+  });
+}
+
+function parseJsonBacklog(content: string): TaskBatchItemDto[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`Invalid JSON backlog: ${error.message}`);
+  }
+
+  if (!Array.isArray(items)) {
+    throw new ValidationError('A JSON backlog must be an array of items');
+  }
+  return items;
+}
+
+function parseCsvBacklog(content: string): TaskBatchItemDto[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) {
+    return [];
+  }
+
+  const names = header.map((name) => name.toLowerCase().replace(/[\s_]/g, ''));
+  const columns = names.map((name) => CSV_COLUMNS[name]);
+  const dependsOnIndex = names.indexOf(CSV_DEPENDS_ON_COLUMN);
+  if (!columns.includes('requirementText')) {
+    throw new ValidationError('A CSV backlog needs a requirementText column');
+  }
+
+  return rows.map((row) => {
+    const item: Partial<Record<CsvColumn, string>> = {};
+    columns.forEach((column, index) => {
+      if (column && row[index]?.trim()) {
+        item[column] = row[index].trim();
+      }
+    });
+
+    const dependsOn = row[dependsOnIndex]?.split(/[;\s]+/).filter(Boolean);
+    return { ...item, dependsOn } as TaskBatchItemDto;
+  });
+}
+
+/**
+ * RFC 4180 CSV rows, quoted fields may hold commas, quotes and line breaks.
+ * Blank lines are skipped.
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError('Invalid CSV backlog: unterminated quote');
+  }
+  endRow();
+
+  return rows;
+}
+
+function parseMarkdownBacklog(content: string): TaskBatchItemDto[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.match(CHECKLIST_ITEM_PATTERN)?.[1])
+    .filter((text) => !!text)
+    .map((text) => {
+      const priority = text.match(PRIORITY_TAG_PATTERN)?.[1];
+      return {
+        requirementText: text.replace(PRIORITY_TAG_PATTERN, ''),
+        priority: priority?.toLowerCase() as TaskPriority,
+      };
+    });
+}
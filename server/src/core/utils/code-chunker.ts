@@ -0,0 +1,130 @@
+import * as path from 'path';
+
+export interface CodeChunk {
+  // 1-based, inclusive
+  startLine: number;
+  endLine: number;
+  content: string;
+  symbols: string[];
+}
+
+// Extensions of the source files worth retrieving
+const SOURCE_EXTENSIONS = new Set([
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+  '.py',
+  '.java',
+  '.kt',
+  '.go',
+  '.rs',
+  '.c',
+  '.h',
+  '.cc',
+  '.cpp',
+  '.hpp',
+  '.cs',
+  '.rb',
+  '.php',
+  '.swift',
+  '.scala',
+  '.vue',
+  '.svelte',
+  '.sql',
+  '.prisma',
+  '.graphql',
+  '.proto',
+]);
+
+// Declarations of the common languages, e.g. `export async function foo`,
+// `class Foo`, `def foo`, `func (r *Repo) Foo`, `pub fn foo`
+const DECLARATION_PATTERN =
+  /^\s*(?:export\s+)?(?:default\s+)?(?:pub(?:\([^)]*\))?\s+)?(?:public\s+|private\s+|protected\s+|internal\s+)?(?:static\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|struct|trait|impl|def|fn|func(?:\s*\([^)]*\))?|const|let|var|module|namespace)\s+([A-Za-z_$][\w$]*)/;
+
+// Methods with an access modifier, e.g. `public async findAll(`
+const METHOD_PATTERN =
+  /^\s*(?:public|private|protected|internal)\s+(?:static\s+)?(?:readonly\s+)?(?:async\s+)?(?:[\w<>[\],.?]+\s+)?([A-Za-z_$][\w$]*)\s*[(<]/;
+
+// Variables count as symbols only outside of functions
+const VARIABLE_KEYWORDS = ['const', 'let', 'var'];
+
+// Chunks shorter than this do not end early at a declaration
+const MIN_CHUNK_LINES = 10;
+
+/**
+ * Whether a file is a source file worth retrieving
+ * @param filePath Path of the file
+ */
+export function isSourceFile(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.has(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Split a source file into chunks of at most `maxLines` lines. A chunk ends
+ * early before a top-level declaration, so chunks tend to hold whole
+ * functions and classes.
+ * @param content File content
+ * @param maxLines Lines of a chunk
+ */
+export function chunkCode(content: string, maxLines: number): CodeChunk[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const chunks: CodeChunk[] = [];
+
+  let start = 0;
+  while (start < lines.length) {
+    let end = Math.min(start + maxLines, lines.length);
+
+    if (end < lines.length) {
+      for (let i = end - 1; i >= start + MIN_CHUNK_LINES; i--) {
+        if (isTopLevelDeclaration(lines[i])) {
+          end = i;
+          break;
+        }
+      }
+    }
+
+    const chunkLines = lines.slice(start, end);
+    if (chunkLines.some((line) => line.trim())) {
+      chunks.push({
+        startLine: start + 1,
+        endLine: end,
+        content: chunkLines.join('\n'),
+        symbols: getSymbols(chunkLines),
+      });
+    }
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * @private
+ */
+function isTopLevelDeclaration(line: string): boolean {
+  return !/^\s/.test(line) && DECLARATION_PATTERN.test(line);
+}
+
+/**
+ * Names declared in the lines
+ * @private
+ */
+function getSymbols(lines: string[]): string[] {
+  const symbols = lines
+    .map((line) => {
+      const match = line.match(DECLARATION_PATTERN);
+      if (!match) {
+        return line.match(METHOD_PATTERN)?.[1];
+      }
+      if (VARIABLE_KEYWORDS.includes(match[1]) && /^\s/.test(line)) {
+        return null;
+      }
+      return match[2];
+    })
+    .filter(Boolean);
+
+  return [...new Set(symbols)];
+}
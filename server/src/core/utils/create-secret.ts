@@ -1,5 +1,6 @@
 import * as crypto from 'crypto';
 import { AuthConfig } from '@server/config/auth.config';
+import { ConfigError } from '@server/core/error';
 const encMethod = 'aes-256-cbc';
 
 export function createSecret(config: AuthConfig, data: any) {
@@ -17,3 +18,53 @@ export function createSecret(config: AuthConfig, data: any) {
   const encrypted = cipher.update(data, 'utf8', 'hex') + cipher.final('hex');
   return Buffer.from(encrypted).toString('base64');
 }
+
+const secretMethod = 'aes-256-gcm';
+
+/**
+ * Encrypt a secret before storing it, e.g. an API key. Every call uses a
+ * fresh IV, so the output is `<iv>.<auth tag>.<ciphertext>` in base64.
+ * @param config Auth config holding the AES key
+ * @param plaintext Secret to encrypt
+ */
+export function encryptSecret(config: AuthConfig, plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(secretMethod, getSecretKey(config), iv);
+  const encrypted = Buffer.concat([
+    cipher.update(plaintext, 'utf8'),
+    cipher.final(),
+  ]);
+
+  return [iv, cipher.getAuthTag(), encrypted]
+    .map((part) => part.toString('base64'))
+    .join('.');
+}
+
+/**
+ * Decrypt a secret encrypted with `encryptSecret`
+ * @param config Auth config holding the AES key
+ * @param ciphertext Encrypted secret
+ */
+export function decryptSecret(config: AuthConfig, ciphertext: string): string {
+  const [iv, authTag, encrypted] = ciphertext
+    .split('.')
+    .map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(
+    secretMethod,
+    getSecretKey(config),
+    iv,
+  );
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString(
+    'utf8',
+  );
+}
+
+function getSecretKey(config: AuthConfig): Buffer {
+  if (!config.aesKey) {
+    throw new ConfigError('AUTH_AES_KEY is required to store secrets');
+  }
+
+  return crypto.createHash('sha256').update(config.aesKey).digest();
+}
@@ -0,0 +1,75 @@
+import * as path from 'path';
+import { GitConfig } from '@server/config/git.config';
+import { ValidationError } from '@server/core/error';
+
+// Key file below the key directory, only plain path segments are allowed
+const CREDENTIALS_REF_PATTERN =
+  /^[A-Za-z0-9_][A-Za-z0-9._-]*(\/[A-Za-z0-9_][A-Za-z0-9._-]*)*$/;
+
+/**
+ * Resolve the SSH key a project refers to. The reference is a key file
+ * below `GIT_SSH_KEY_DIR`, so a project can never point git at another
+ * file or smuggle shell syntax into the SSH command.
+ * @param config Git config holding the key directory
+ * @param credentialsRef Key file relative to the key directory
+ * @returns Absolute path of the key file
+ */
+export function resolveSshKeyPath(
+  config: GitConfig,
+  credentialsRef: string,
+): string {
+  if (!config.gitSshKeyDir) {
+    throw new ValidationError(
+      'credentialsRef needs GIT_SSH_KEY_DIR to be configured',
+    );
+  }
+  if (
+    !CREDENTIALS_REF_PATTERN.test(credentialsRef) ||
+    credentialsRef.split('/').includes('..')
+  ) {
+    throw new ValidationError(
+      'credentialsRef must be a key file below the SSH key directory, made of letters, digits, dots, dashes and underscores',
+    );
+  }
+
+  const keyDir = path.resolve(config.gitSshKeyDir);
+  const keyPath = path.resolve(keyDir, credentialsRef);
+  if (!keyPath.startsWith(`${keyDir}${path.sep}`)) {
+    throw new ValidationError(
+      'credentialsRef must stay inside the SSH key directory',
+    );
+  }
+
+  return keyPath;
+}
+
+/**
+ * Build the `GIT_SSH_COMMAND` of a repository, using the key of the
+ * project or else the configured one. Git runs the command through a
+ * shell, so the key path is quoted.
+ * @param config Git config
+ * @param credentialsRef Key file of the project, if it has one
+ * @returns SSH command, or null when no key is configured
+ */
+export function getGitSshCommand(
+  config: GitConfig,
+  credentialsRef?: string | null,
+): string | null {
+  const sshKeyPath = credentialsRef
+    ? resolveSshKeyPath(config, credentialsRef)
+    : config.gitSshKeyPath;
+  if (!sshKeyPath) {
+    return null;
+  }
+
+  return `ssh -i ${quoteShellArg(
+    sshKeyPath,
+  )} -o IdentitiesOnly=yes -o StrictHostKeyChecking=no`;
+}
+
+/**
+ * Quote a value as a single POSIX shell word
+ */
+function quoteShellArg(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -0,0 +1,83 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import * as crypto from 'crypto';
+import { LLMResponseFormatDto } from '@server/core/llm/dto/llm.dto';
+
+/**
+ * Parse the JSON value of an LLM response, which may be wrapped in a
+ * markdown code fence or surrounded by prose
+ * @param text LLM response text
+ * @throws SyntaxError when the response holds no parsable JSON
+ */
+export function extractJson(text: string): unknown {
+  const candidates = [text.trim()];
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidates.push(fenced[1].trim());
+  }
+
+  // Outermost object or array, from its first opening to its last closing
+  // bracket
+  for (const [open, close] of [
+    ['{', '}'],
+    ['[', ']'],
+  ]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) {
+      candidates.push(text.substring(start, end + 1));
+    }
+  }
+
+  let lastError: Error;
+  for (const candidate of candidates) {
+    try {
+      return JSON.parse(candidate);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw new SyntaxError(`No JSON found in the response: ${lastError?.message}`);
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+// Compiled validators by schema name and hash, formats may share a name
+const validators = new Map<string, ValidateFunction>();
+
+/**
+ * Check an LLM response against the JSON Schema of a response format
+ * @param format Name and JSON Schema of the response
+ * @param text LLM response text
+ * @returns Why the response was rejected, or null when it is valid
+ */
+export function validateJsonOutput(
+  format: LLMResponseFormatDto,
+  text: string,
+): string | null {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch (error) {
+    return error.message;
+  }
+
+  const key = `${format.name}:${crypto
+    .createHash('sha256')
+    .update(JSON.stringify(format.schema))
+    .digest('hex')}`;
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.compile(format.schema);
+    validators.set(key, validate);
+  }
+
+  if (validate(value)) {
+    return null;
+  }
+  return ajv.errorsText(validate.errors, {
+    dataVar: 'response',
+    separator: '\n',
+  });
+}
@@ -0,0 +1,72 @@
+import {
+  RequestLLMDto,
+  LLMMessageDto,
+  LLMMessageRole,
+} from '@server/core/llm/dto/llm.dto';
+
+/**
+ * Conversation of a request: the system message, the messages, then the
+ * prompt as the last user message
+ * @param dto Request
+ */
+export function toLLMMessages(
+  dto: Pick<RequestLLMDto, 'prompt' | 'systemMessage' | 'messages'>,
+): LLMMessageDto[] {
+  return [
+    ...(dto.systemMessage
+      ? [{ role: LLMMessageRole.SYSTEM, content: dto.systemMessage }]
+      : []),
+    ...(dto.messages || []),
+    ...(dto.prompt ? [{ role: LLMMessageRole.USER, content: dto.prompt }] : []),
+  ];
+}
+
+/**
+ * Split the system messages off a conversation, for the APIs that take the
+ * system text apart from the turns
+ * @param messages Conversation
+ * @returns System text, joined by blank lines, and the other messages
+ */
+export function splitSystemMessages(messages: LLMMessageDto[]): {
+  system: string;
+  conversation: LLMMessageDto[];
+} {
+  return {
+    system: messages
+      .filter((message) => message.role === LLMMessageRole.SYSTEM)
+      .map((message) => message.content)
+      .join('\n\n'),
+    conversation: messages.filter(
+      (message) => message.role !== LLMMessageRole.SYSTEM,
+    ),
+  };
+}
+
+/**
+ * Prompt of a conversation made of a single user message, or null. Keys
+ * computed from single-turn requests stay the same as before conversations
+ * were supported.
+ * @param conversation Messages other than the system ones
+ */
+export function getSingleTurnPrompt(
+  conversation: LLMMessageDto[],
+): string | null {
+  return conversation.length === 1 &&
+    conversation[0].role === LLMMessageRole.USER
+    ? conversation[0].content
+    : null;
+}
+
+/**
+ * Characters of a conversation, used to estimate its tokens
+ * @param messages Conversation
+ */
+export function getMessagesLength(messages: LLMMessageDto[]): number {
+  return messages.reduce(
+    (length, message) =>
+      length +
+      (message.content?.length ?? 0) +
+      (message.toolCalls ? JSON.stringify(message.toolCalls).length : 0),
+    0,
+  );
+}
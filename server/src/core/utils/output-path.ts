@@ -0,0 +1,61 @@
+import { CodeLanguage } from '.prisma/client';
+
+// Default paths based on language
+const defaultPaths: Record<string, string> = {
+  typescript: 'src',
+  javascript: 'src',
+  python: 'src',
+  java: 'src/main/java',
+  go: 'pkg',
+  rust: 'src',
+  csharp: 'src',
+  ruby: 'lib',
+  php: 'src',
+};
+
+/**
+ * Determine where generated files should be written inside the repository
+ * @param analysis Requirement analysis result
+ * @param language Target programming language
+ */
+export function determineOutputPath(
+  analysis: Record<string, any>,
+  language: CodeLanguage,
+): string {
+  // Try to infer a meaningful path from the analysis
+  if (analysis.fileStructure && analysis.fileStructure.length > 0) {
+    // Look for common root directory in file structure
+    const paths = analysis.fileStructure
+      .map((file) => {
+        if (typeof file === 'string') {
+          const parts = file.split('/');
+          return parts[0];
+        }
+        return null;
+      })
+      .filter(Boolean);
+
+    if (paths.length > 0) {
+      // Use most common directory
+      const pathCounts = {};
+      let maxCount = 0;
+      let mostCommonPath = '';
+
+      for (const p of paths) {
+        pathCounts[p] = (pathCounts[p] || 0) + 1;
+        if (pathCounts[p] > maxCount) {
+          maxCount = pathCounts[p];
+          mostCommonPath = p;
+        }
+      }
+
+      if (mostCommonPath) {
+        return mostCommonPath;
+      }
+    }
+  }
+
+  // Fallback to default path for the language
+  const languageKey = language.toString().toLowerCase();
+  return defaultPaths[languageKey] || 'src';
+}
@@ -0,0 +1,85 @@
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Split a byte stream into lines, whatever the chunk boundaries are,
+ * including multi-byte characters split across chunks
+ * @param stream Response body stream
+ */
+export async function* readLines(stream: Readable): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  let buffer = '';
+
+  for await (const chunk of stream) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield buffer.substring(0, newline).replace(/\r$/, '');
+      buffer = buffer.substring(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+
+  buffer += decoder.end();
+  if (buffer.length > 0) {
+    yield buffer;
+  }
+}
+
+/**
+ * Read a `text/event-stream` body. Multi-line data fields are joined with
+ * line breaks, comments and retry fields are ignored.
+ * @param stream Response body stream
+ */
+export async function* readServerSentEvents(
+  stream: Readable,
+): AsyncGenerator<ServerSentEvent> {
+  let event: string | undefined;
+  let data: string[] = [];
+
+  for await (const line of readLines(stream)) {
+    if (line === '') {
+      if (data.length > 0) {
+        yield { event, data: data.join('\n') };
+      }
+      event = undefined;
+      data = [];
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.substring(0, separator);
+    const value =
+      separator === -1 ? '' : line.substring(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  if (data.length > 0) {
+    yield { event, data: data.join('\n') };
+  }
+}
+
+/**
+ * Read a newline-delimited JSON body
+ * @param stream Response body stream
+ */
+export async function* readJsonLines<T = any>(
+  stream: Readable,
+): AsyncGenerator<T> {
+  for await (const line of readLines(stream)) {
+    if (line.trim()) {
+      yield JSON.parse(line);
+    }
+  }
+}
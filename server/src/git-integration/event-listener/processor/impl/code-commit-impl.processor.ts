@@ -1,13 +1,15 @@
 import { Injectable, Inject, Logger } from '@nestjs/common';
-import { RequirementStatus } from '.prisma/client';
+import { RequirementStatus, PipelineStage } from '.prisma/client';
 import { EventProcessorStrategy } from '@server/core/event/event.listener';
 import { CodeCommitdEvent } from '@server/git-integration/event/code-commit.event';
 import { GitIntegrationService } from '@server/git-integration/service/git-integration.service';
 import { RequirementTaskService } from '@server/requirement-task/service/requirement-task.service';
+import { TaskStageService } from '@server/requirement-task/service/task-stage.service';
 import { ResponseCommitGitDto } from '@server/git-integration/dto/commit-git.dto';
 import {
   GIT_INTEGRATION_SERVICE,
   REQUIREMENT_TASK_SERVICE,
+  TASK_STAGE_SERVICE,
 } from '@server/constants';
 
 @Injectable()
@@ -22,6 +24,9 @@ export class CodeCommitProcessorImpl
 
     @Inject(REQUIREMENT_TASK_SERVICE)
     private readonly requirementTaskService: RequirementTaskService,
+
+    @Inject(TASK_STAGE_SERVICE)
+    private readonly taskStageService: TaskStageService,
   ) {}
 
   /**
@@ -48,6 +53,7 @@ export class CodeCommitProcessorImpl
       taskId: event.taskId,
       status: RequirementStatus.in_progress,
       progress: 0.8,
+      stage: PipelineStage.commit,
       details: {
         message: 'Committing code to repository',
       },
@@ -91,19 +97,24 @@ export class CodeCommitProcessorImpl
   }
 
   /**
-   * Mark the task as completed (used for clean-up operations)
-   * This is typically called after processing is successful but no status update needed
-   * since the listener already handles the final status update
+   * Persist the commit result and mark the task as completed
+   * @param event The original event
+   * @param commitResult Result of the commit
    */
   async markTaskCompleted(
     event: CodeCommitdEvent,
     commitResult: ResponseCommitGitDto,
   ): Promise<void> {
-    // In this implementation, we don't need to do anything here
+    await this.taskStageService.completeStage({
+      taskId: event.taskId,
+      stage: PipelineStage.commit,
+      output: { ...commitResult },
+    });
     await this.requirementTaskService.updateTaskStatus({
       taskId: event.taskId,
       status: RequirementStatus.completed,
       progress: 1.0,
+      stage: PipelineStage.commit,
       details: {
         message:
           'Code generated, quality verified, and committed to repository',
@@ -122,7 +133,6 @@ export class CodeCommitProcessorImpl
         },
       },
     });
-    // since the listener will handle the final status update
     this.logger.debug(
       `Task ${event.taskId} completed processing in commit processor`,
     );
@@ -134,10 +144,16 @@ export class CodeCommitProcessorImpl
    * @param error The error that occurred
    */
   async markTaskFailed(event: CodeCommitdEvent, error: Error): Promise<void> {
+    await this.taskStageService.failStage({
+      taskId: event.taskId,
+      stage: PipelineStage.commit,
+      error: error.message,
+    });
     await this.requirementTaskService.updateTaskStatus({
       taskId: event.taskId,
       status: RequirementStatus.failed,
       progress: 0,
+      stage: PipelineStage.commit,
       details: {
         error: `Failed to commit code: ${error.message}`,
         stage: 'code_commit',
@@ -1,9 +1,10 @@
 import { Module } from '@nestjs/common';
 import { HttpModule } from '@nestjs/axios';
+import { PrismaModule } from '@server/core/prisma/prisma.module';
 import { RequirementTaskModule } from '@server/requirement-task/requirement-task.module';
+import { RepositoryIndexModule } from '@server/repository-index/repository-index.module';
 import { GitIntegrationServiceImpl } from '@server/git-integration/service/impl/git-integration-impl.service';
 import { CodeCommitProcessorImpl } from './event-listener/processor/impl/code-commit-impl.processor';
-import { CodeCommitEventListener } from './event-listener/code-commit-event.listener';
 import {
   GIT_INTEGRATION_SERVICE,
   CODE_COMMIT_PROCESSOR,
@@ -18,11 +19,15 @@ const providers = [
     provide: CODE_COMMIT_PROCESSOR,
     useClass: CodeCommitProcessorImpl,
   },
-  CodeCommitEventListener,
 ];
 
 @Module({
-  imports: [HttpModule, RequirementTaskModule],
+  imports: [
+    HttpModule,
+    PrismaModule,
+    RequirementTaskModule,
+    RepositoryIndexModule,
+  ],
   providers,
   exports: providers,
 })
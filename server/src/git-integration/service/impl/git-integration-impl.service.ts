@@ -3,12 +3,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import simpleGit from 'simple-git';
+import { PrismaClient, RequirementStatus } from '.prisma/client';
 import { gitConfig } from '@server/config/git.config';
 import { ConfigType } from '@nestjs/config';
-import {
-  RequestCommitGitDto,
-  ResponseCommitGitDto,
-} from '@server/git-integration/dto/commit-git.dto';
+import { getTaskContext } from '@server/core/context/task-context';
+import { getGitSshCommand } from '@server/core/utils/git-ssh';
+import { RepositoryIndexService } from '@server/repository-index/service/repository-index.service';
+import { PRISMA_REPOSITORY, REPOSITORY_INDEX_SERVICE } from '@server/constants';
+import { RequestCommitGitDto } from '@server/git-integration/dto/commit-git.dto';
 
 @Injectable()
 export class GitIntegrationServiceImpl {
@@ -17,6 +19,12 @@ export class GitIntegrationServiceImpl {
   public constructor(
     @Inject(gitConfig.KEY)
     private config: ConfigType<typeof gitConfig>,
+
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(REPOSITORY_INDEX_SERVICE)
+    private readonly repositoryIndexService: RepositoryIndexService,
   ) {}
 
   public async commitToGit(dto: RequestCommitGitDto) {
@@ -37,13 +45,18 @@ export class GitIntegrationServiceImpl {
       // Set up Git configuration
       await git.addConfig('user.name', this.config.gitUsername);
       await git.addConfig('user.email', this.config.gitEmail);
-      // Configure SSH if needed (for private repositories)
-      const sshKeyPath = this.config.gitSshKeyPath;
-      if (sshKeyPath) {
-        git.env(
-          'GIT_SSH_COMMAND',
-          `ssh -i ${sshKeyPath} -o StrictHostKeyChecking=no`,
-        );
+      // Configure SSH if needed (for private repositories), preferring the
+      // credentials of the task's project
+      const project = await this.prismaRepository.project.findUnique({
+        where: { id: task.project_id },
+        select: { credentials_ref: true },
+      });
+      const sshCommand = getGitSshCommand(
+        this.config,
+        project?.credentials_ref,
+      );
+      if (sshCommand) {
+        git.env('GIT_SSH_COMMAND', sshCommand);
       }
       // Clone the repository
       this.logger.log(
@@ -94,9 +107,17 @@ export class GitIntegrationServiceImpl {
       // Commit changes
       const commitResult = await workingGit.commit(commitMessage);
 
-      // Push changes to remote
+      // Push changes to remote, unless the task was cancelled meanwhile
+      await this.assertTaskNotCancelled(task.id);
       await workingGit.push('origin', task.branch);
 
+      // The working tree is at the new commit, no need to clone it again
+      await this.updateRepositoryIndex(
+        task.repository_url,
+        task.branch,
+        repoTempDir,
+      );
+
       return {
         commitHash: commitResult.commit,
         filesChanged,
@@ -120,6 +141,53 @@ export class GitIntegrationServiceImpl {
     }
   }
 
+  /**
+   * Make sure a cancelled task never pushes to the remote repository
+   * @param taskId Task ID
+   * @private
+   */
+  private async assertTaskNotCancelled(taskId: string): Promise<void> {
+    const task = await this.prismaRepository.requirementTask.findUnique({
+      where: { id: taskId },
+      select: { status: true },
+    });
+
+    if (
+      getTaskContext()?.signal.aborted ||
+      task?.status === RequirementStatus.cancelled
+    ) {
+      throw new Error(`Task ${taskId} was cancelled, push skipped`);
+    }
+  }
+
+  /**
+   * Index the files of the new commit, so the next tasks retrieve them.
+   * A failure only delays the update to the next retrieval.
+   * @private
+   */
+  private async updateRepositoryIndex(
+    repositoryUrl: string,
+    branch: string,
+    directory: string,
+  ): Promise<void> {
+    if (!this.repositoryIndexService.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.repositoryIndexService.indexDirectory({
+        repositoryUrl,
+        branch,
+        directory,
+        commitHash: await simpleGit(directory).revparse(['HEAD']),
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to update the index of ${repositoryUrl}#${branch}: ${error.message}`,
+      );
+    }
+  }
+
   private extractRepoName(repositoryUrl: string): string {
     try {
       // Remove protocol and get the path part
@@ -17,7 +17,7 @@ async function bootstrap() {
   app.enableCors({
     credentials: true,
     origin: true,
-    methods: ['GET', 'POST'],
+    methods: ['GET', 'POST', 'PATCH', 'DELETE'],
   });
 
   // Parser setting
@@ -0,0 +1,14 @@
+import { PipelineStage } from '.prisma/client';
+
+export class StageResultDto {
+  stage: PipelineStage;
+  resumed: boolean;
+  startedAt: string;
+  completedAt: string;
+  output: Record<string, any>;
+}
+
+export class PipelineRunResultDto {
+  taskId: string;
+  stages: StageResultDto[];
+}
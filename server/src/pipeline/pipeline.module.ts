@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { RequirementTaskModule } from '@server/requirement-task/requirement-task.module';
+import { CodeGenerationModule } from '@server/code-generation/code-generation.module';
+import { GitIntegrationModule } from '@server/git-integration/git-integration.module';
+import { PipelineServiceImpl } from '@server/pipeline/service/impl/pipeline-impl.service';
+import { PIPELINE_SERVICE } from '@server/constants';
+
+const providers = [
+  {
+    provide: PIPELINE_SERVICE,
+    useClass: PipelineServiceImpl,
+  },
+];
+
+@Module({
+  imports: [
+    PrismaModule,
+    RequirementTaskModule,
+    CodeGenerationModule,
+    GitIntegrationModule,
+  ],
+  providers,
+  exports: providers,
+})
+export class PipelineModule {}
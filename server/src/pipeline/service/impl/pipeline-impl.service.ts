@@ -0,0 +1,484 @@
+import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  PrismaClient,
+  RequirementStatus,
+  PipelineStage,
+  TaskLifecycleEvent,
+} from '.prisma/client';
+import { UnrecoverableError } from 'bullmq';
+import { EventProcessorStrategy } from '@server/core/event/event.listener';
+import {
+  getTaskContext,
+  runWithTaskContext,
+} from '@server/core/context/task-context';
+import { LLMProvider } from '@server/config/llm.config';
+import { TaskEventType } from '@server/core/event/event';
+import { createTaskStreamEvent } from '@server/core/event/task-stream.event';
+import { determineOutputPath } from '@server/core/utils/output-path';
+import { PipelineService } from '@server/pipeline/service/pipeline.service';
+import {
+  PipelineRunResultDto,
+  StageResultDto,
+} from '@server/pipeline/dto/pipeline.dto';
+import { CodeGenerationService } from '@server/code-generation/service/code-generation.service';
+import {
+  ResponseAnalyzeTaskDto,
+  ResponseGenerateCodeDto,
+} from '@server/code-generation/dto/code-generation.dto';
+import { CodeGeneratedEvent } from '@server/code-generation/event/code-generate.event';
+import { CodeCommitdEvent } from '@server/git-integration/event/code-commit.event';
+import { ResponseCommitGitDto } from '@server/git-integration/dto/commit-git.dto';
+import { ResponseQualityCheckDto } from '@server/quality-check/dto/quality-check.dto';
+import { RequirementTaskService } from '@server/requirement-task/service/requirement-task.service';
+import { TaskStageService } from '@server/requirement-task/service/task-stage.service';
+import { TaskDependencyService } from '@server/requirement-task/service/task-dependency.service';
+import { TaskStageOutputs } from '@server/requirement-task/dto/task-stage.dto';
+import {
+  RequirementQueueService,
+  TaskJobContext,
+} from '@server/requirement-task/service/requirement-queue.service';
+import {
+  PRISMA_REPOSITORY,
+  REQUIREMENT_TASK_SERVICE,
+  REQUIREMENT_QUEUE_SERVICE,
+  TASK_STAGE_SERVICE,
+  TASK_DEPENDENCY_SERVICE,
+  CODE_GENERATION_SERVICE,
+  CODE_GENERATION_PROCESSOR,
+  CODE_COMMIT_PROCESSOR,
+} from '@server/constants';
+
+// Job progress reported to the queue once a stage has finished
+const STAGE_PROGRESS: Record<PipelineStage, number> = {
+  [PipelineStage.analysis]: 0.3,
+  [PipelineStage.generation]: 0.5,
+  [PipelineStage.quality]: 0.7,
+  [PipelineStage.commit]: 1.0,
+};
+
+// Lifecycle event emitted once a stage has completed
+const STAGE_LIFECYCLE_EVENTS: Record<PipelineStage, TaskLifecycleEvent> = {
+  [PipelineStage.analysis]: TaskLifecycleEvent.task_analyzed,
+  [PipelineStage.generation]: TaskLifecycleEvent.task_generated,
+  [PipelineStage.quality]: TaskLifecycleEvent.task_quality_checked,
+  [PipelineStage.commit]: TaskLifecycleEvent.task_committed,
+};
+
+// Statuses that stop the pipeline before its next stage
+const INTERRUPTED_STATUSES: RequirementStatus[] = [
+  RequirementStatus.paused,
+  RequirementStatus.cancelled,
+];
+
+/**
+ * PipelineServiceImpl
+ *
+ * Orchestrates a requirement task inside the queue worker:
+ * analysis → generation → quality check → commit.
+ * Every stage output is persisted, so a re-run resumes from the last
+ * completed stage. Any stage failure fails the job so the queue retry
+ * policy applies, except for paused or cancelled tasks which stop without
+ * retrying.
+ */
+@Injectable()
+export class PipelineServiceImpl implements OnModuleInit, PipelineService {
+  private readonly logger = new Logger(PipelineServiceImpl.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(REQUIREMENT_TASK_SERVICE)
+    private readonly requirementTaskService: RequirementTaskService,
+
+    @Inject(REQUIREMENT_QUEUE_SERVICE)
+    private readonly requirementQueueService: RequirementQueueService,
+
+    @Inject(TASK_STAGE_SERVICE)
+    private readonly taskStageService: TaskStageService,
+
+    @Inject(TASK_DEPENDENCY_SERVICE)
+    private readonly taskDependencyService: TaskDependencyService,
+
+    @Inject(CODE_GENERATION_SERVICE)
+    private readonly codeGenerationService: CodeGenerationService,
+
+    @Inject(CODE_GENERATION_PROCESSOR)
+    private readonly codeGenerationProcessor: EventProcessorStrategy<
+      CodeGeneratedEvent,
+      ResponseQualityCheckDto
+    >,
+
+    @Inject(CODE_COMMIT_PROCESSOR)
+    private readonly codeCommitProcessor: EventProcessorStrategy<
+      CodeCommitdEvent,
+      ResponseCommitGitDto
+    >,
+
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  public onModuleInit() {
+    this.requirementQueueService.registerTaskProcessor((context) =>
+      runWithTaskContext(
+        { taskId: context.taskId, signal: context.signal },
+        () => this.runTask(context),
+      ),
+    );
+  }
+
+  /**
+   * Run the pipeline stages of a queued task, skipping stages that
+   * already completed in a previous run
+   * @param context Queue job context
+   * @returns Result of each stage
+   */
+  public async runTask(context: TaskJobContext): Promise<PipelineRunResultDto> {
+    const { taskId } = context;
+    const task = await this.prismaRepository.requirementTask.findUnique({
+      where: { id: taskId },
+      include: { project: true },
+    });
+
+    if (!task) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+
+    const taskContext = getTaskContext();
+    if (taskContext) {
+      taskContext.projectId = task.project_id;
+      taskContext.preferredProviders = task.project
+        .preferred_providers as LLMProvider[];
+      taskContext.language = task.language;
+      taskContext.priority = task.priority;
+    }
+
+    // Generated files and commits of the tasks this task builds on
+    const prerequisites =
+      await this.taskDependencyService.getPrerequisiteContext(taskId);
+
+    const outputs = await this.taskStageService.getCompletedOutputs(taskId);
+    const completedStages = Object.keys(outputs);
+    this.logger.log(
+      `Running pipeline for task ${taskId} (attempt ${context.attempt}/${
+        context.maxAttempts
+      })${
+        completedStages.length > 0
+          ? `, resuming after: ${completedStages.join(', ')}`
+          : ''
+      }`,
+    );
+    const stages: StageResultDto[] = [];
+
+    // 1. Requirement analysis
+    const analysisResult = await this.executeStage<ResponseAnalyzeTaskDto>(
+      context,
+      PipelineStage.analysis,
+      outputs,
+      stages,
+      async () => {
+        await this.requirementTaskService.updateTaskStatus({
+          taskId,
+          status: RequirementStatus.in_progress,
+          progress: 0.1,
+          stage: PipelineStage.analysis,
+          details: { message: 'Starting requirement analysis' },
+        });
+
+        const result = await this.codeGenerationService.analyzeTask(
+          task,
+          prerequisites,
+        );
+        await this.taskStageService.completeStage({
+          taskId,
+          stage: PipelineStage.analysis,
+          output: { ...result },
+        });
+
+        await this.requirementTaskService.updateTaskStatus({
+          taskId,
+          status: RequirementStatus.in_progress,
+          progress: 0.3,
+          stage: PipelineStage.analysis,
+          model: result.model,
+          details: {
+            message: 'Requirement analyzed',
+            analysis: result.analysis,
+            analysisModel: result.model,
+          },
+        });
+
+        return result;
+      },
+      (result) => ({ model: result.model, title: result.analysis.title }),
+    );
+    const requirementAnalysis = analysisResult.analysis;
+
+    // 2. Code generation
+    const generationResult = await this.executeStage<ResponseGenerateCodeDto>(
+      context,
+      PipelineStage.generation,
+      outputs,
+      stages,
+      async () => {
+        const result = await this.codeGenerationService.generateTaskCode(
+          task,
+          requirementAnalysis,
+          prerequisites,
+        );
+        await this.taskStageService.completeStage({
+          taskId,
+          stage: PipelineStage.generation,
+          output: { ...result },
+        });
+
+        return result;
+      },
+      (result) => ({
+        model: result.model,
+        files: Object.keys(result.generatedCode || {}),
+      }),
+    );
+
+    // 3. Quality check, persisted by the processor once it passes
+    const qualityResult = await this.executeStage<ResponseQualityCheckDto>(
+      context,
+      PipelineStage.quality,
+      outputs,
+      stages,
+      async () => {
+        const event = new CodeGeneratedEvent({
+          modelToUse: generationResult.model,
+          task,
+          generatedCode: generationResult.generatedCode,
+          requirementAnalysis,
+        });
+
+        if (!event.validate(event.payload)) {
+          throw new Error('Generated code cannot be empty');
+        }
+
+        const result = await this.codeGenerationProcessor.processEvent(event);
+
+        // Generated code scoring at or below the project threshold is
+        // rejected, the retry generates the code again instead of checking
+        // the same code
+        if (result.codeQualityScore <= task.project.min_quality_score) {
+          await this.taskStageService.resetStages({
+            taskId,
+            fromStage: PipelineStage.generation,
+          });
+          throw new Error(`Low code quality score: ${result.codeQualityScore}`);
+        }
+
+        await this.codeGenerationProcessor.markTaskCompleted(event, result);
+        return result;
+      },
+      (result) => ({ ...result }),
+    );
+
+    // 4. Commit to Git, persisted by the processor together with the final status
+    const commitEvent = new CodeCommitdEvent({
+      task,
+      qualityResult,
+      generatedCode: generationResult.generatedCode,
+      outputPath:
+        task.output_path ||
+        determineOutputPath(requirementAnalysis, task.language),
+      requirementAnalysis,
+    });
+    const commitResult = await this.executeStage<ResponseCommitGitDto>(
+      context,
+      PipelineStage.commit,
+      outputs,
+      stages,
+      async () => {
+        if (!commitEvent.validate(commitEvent.payload)) {
+          throw new Error(`Invalid event payload for ${commitEvent.eventName}`);
+        }
+
+        const result = await this.codeCommitProcessor.processEvent(commitEvent);
+
+        if (!result || !result.commitHash) {
+          throw new Error('Failed to get commit hash');
+        }
+
+        await this.codeCommitProcessor.markTaskCompleted(commitEvent, result);
+        return result;
+      },
+      (result) => ({ ...result }),
+    );
+
+    // The commit was persisted by an earlier run, make sure the task is closed
+    if (outputs[PipelineStage.commit]) {
+      await this.codeCommitProcessor.markTaskCompleted(
+        commitEvent,
+        commitResult,
+      );
+    }
+
+    this.logger.log(`Pipeline completed for task ${taskId}`);
+    return { taskId, stages };
+  }
+
+  /**
+   * Execute a single stage, or restore its persisted output when it already
+   * completed, then report progress
+   * @private
+   */
+  private async executeStage<T>(
+    context: TaskJobContext,
+    stage: PipelineStage,
+    outputs: TaskStageOutputs,
+    stages: StageResultDto[],
+    run: () => Promise<T>,
+    summarize: (result: T) => Record<string, any>,
+  ): Promise<T> {
+    const { taskId, attempt } = context;
+    const startedAt = new Date();
+
+    if (outputs[stage]) {
+      this.logger.debug(`Skipping completed stage ${stage} for task ${taskId}`);
+      const result = outputs[stage] as T;
+
+      stages.push({
+        stage,
+        resumed: true,
+        startedAt: startedAt.toISOString(),
+        completedAt: startedAt.toISOString(),
+        output: summarize(result),
+      });
+      await context.reportProgress(STAGE_PROGRESS[stage]);
+
+      return result;
+    }
+
+    await this.assertNotInterrupted(context);
+    this.logger.debug(`Starting stage ${stage} for task ${taskId}`);
+    await this.taskStageService.startStage({ taskId, stage, attempt });
+
+    try {
+      const result = await run();
+      const output = summarize(result);
+
+      stages.push({
+        stage,
+        resumed: false,
+        startedAt: startedAt.toISOString(),
+        completedAt: new Date().toISOString(),
+        output,
+      });
+      await context.reportProgress(STAGE_PROGRESS[stage]);
+      this.emitLifecycle(taskId, STAGE_LIFECYCLE_EVENTS[stage], {
+        stage,
+        ...output,
+      });
+
+      return result;
+    } catch (error) {
+      if (context.signal.aborted) {
+        await this.taskStageService.failStage({
+          taskId,
+          stage,
+          error: 'Task cancelled',
+        });
+        throw new UnrecoverableError(`Task ${taskId} was cancelled`);
+      }
+
+      await this.handleStageFailure(context, stage, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop the job without retrying when the task was paused or cancelled
+   * @private
+   */
+  private async assertNotInterrupted(context: TaskJobContext): Promise<void> {
+    const { taskId } = context;
+    const task = await this.prismaRepository.requirementTask.findUnique({
+      where: { id: taskId },
+      select: { status: true },
+    });
+
+    if (context.signal.aborted || INTERRUPTED_STATUSES.includes(task?.status)) {
+      this.logger.warn(`Task ${taskId} was ${task?.status}, stopping pipeline`);
+      throw new UnrecoverableError(`Task ${taskId} was ${task?.status}`);
+    }
+  }
+
+  /**
+   * Record a stage failure. The task is only marked as failed once the
+   * queue has no retry attempts left.
+   * @private
+   */
+  private async handleStageFailure(
+    context: TaskJobContext,
+    stage: PipelineStage,
+    error: Error,
+  ): Promise<void> {
+    const { taskId, attempt, maxAttempts } = context;
+    const willRetry = attempt < maxAttempts;
+
+    this.logger.error(
+      `Stage ${stage} failed for task ${taskId} (attempt ${attempt}/${maxAttempts}): ${error.message}`,
+      error.stack,
+    );
+
+    try {
+      await this.taskStageService.failStage({
+        taskId,
+        stage,
+        error: error.message,
+      });
+      await this.requirementTaskService.updateTaskStatus({
+        taskId,
+        status: willRetry
+          ? RequirementStatus.in_progress
+          : RequirementStatus.failed,
+        progress: 0,
+        stage,
+        details: {
+          message: willRetry
+            ? `Stage ${stage} failed, retrying`
+            : `Stage ${stage} failed`,
+          error: error.message,
+          stage,
+          attempt,
+          maxAttempts,
+        },
+      });
+    } catch (statusError) {
+      this.logger.error(
+        `Failed to record failure for task ${taskId}: ${statusError.message}`,
+      );
+    }
+
+    if (!willRetry) {
+      this.emitLifecycle(taskId, TaskLifecycleEvent.task_failed, {
+        stage,
+        error: error.message,
+        attempt,
+      });
+    }
+  }
+
+  /**
+   * Notify listeners, such as webhooks, about a task lifecycle event
+   * @private
+   */
+  private emitLifecycle(
+    taskId: string,
+    event: TaskLifecycleEvent,
+    data: Record<string, any>,
+  ): void {
+    this.eventEmitter.emit(
+      TaskEventType.LIFECYCLE,
+      createTaskStreamEvent(taskId, TaskEventType.LIFECYCLE, {
+        event,
+        ...data,
+      }),
+    );
+  }
+}
@@ -0,0 +1,6 @@
+import { TaskJobContext } from '@server/requirement-task/service/requirement-queue.service';
+import { PipelineRunResultDto } from '@server/pipeline/dto/pipeline.dto';
+
+export interface PipelineService {
+  runTask(context: TaskJobContext): Promise<PipelineRunResultDto>;
+}
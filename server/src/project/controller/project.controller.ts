@@ -0,0 +1,142 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  Logger,
+  Inject,
+} from '@nestjs/common';
+import { toHttpStatus } from '@server/core/error';
+import { ProjectService } from '@server/project/service/project.service';
+import {
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectDto,
+} from '@server/project/dto/project.dto';
+import { LlmUsageService } from '@server/core/llm/service/llm-usage.service';
+import {
+  QueryLlmUsageDto,
+  LlmUsageSummaryDto,
+} from '@server/core/llm/dto/llm-usage.dto';
+import { PROJECT_SERVICE, LLM_USAGE_SERVICE } from '@server/constants';
+
+@Controller('projects')
+export class ProjectController {
+  private readonly logger = new Logger(ProjectController.name);
+
+  constructor(
+    @Inject(PROJECT_SERVICE)
+    private readonly projectService: ProjectService,
+
+    @Inject(LLM_USAGE_SERVICE)
+    private readonly llmUsageService: LlmUsageService,
+  ) {}
+
+  @Post()
+  async createProject(@Body() dto: CreateProjectDto): Promise<ProjectDto> {
+    try {
+      return await this.projectService.createProject(dto);
+    } catch (error) {
+      this.logger.error(
+        `Error creating project: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to create project: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get()
+  async listProjects(): Promise<ProjectDto[]> {
+    try {
+      return await this.projectService.listProjects();
+    } catch (error) {
+      this.logger.error(
+        `Error listing projects: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to list projects: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get(':projectId')
+  async getProject(@Param('projectId') projectId: string): Promise<ProjectDto> {
+    try {
+      return await this.projectService.getProject(projectId);
+    } catch (error) {
+      this.logger.error(`Error getting project: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to get project: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get(':projectId/usage')
+  async getProjectUsage(
+    @Param('projectId') projectId: string,
+    @Query() query: QueryLlmUsageDto,
+  ): Promise<LlmUsageSummaryDto> {
+    try {
+      await this.projectService.getProject(projectId);
+      return await this.llmUsageService.getProjectUsage(projectId, query);
+    } catch (error) {
+      this.logger.error(
+        `Error getting project usage: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to get project usage: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Patch(':projectId')
+  async updateProject(
+    @Param('projectId') projectId: string,
+    @Body() dto: Omit<UpdateProjectDto, 'projectId'>,
+  ): Promise<ProjectDto> {
+    try {
+      return await this.projectService.updateProject({ ...dto, projectId });
+    } catch (error) {
+      this.logger.error(
+        `Error updating project: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to update project: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Delete(':projectId')
+  async deleteProject(
+    @Param('projectId') projectId: string,
+  ): Promise<{ success: boolean }> {
+    try {
+      await this.projectService.deleteProject(projectId);
+      return { success: true };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting project: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to delete project: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+}
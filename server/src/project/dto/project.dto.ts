@@ -0,0 +1,42 @@
+import { CodeLanguage } from '.prisma/client';
+import { LLMProvider } from '@server/config/llm.config';
+
+export class CreateProjectDto {
+  name: string;
+  repositoryUrl: string;
+  defaultBranch?: string;
+  language?: CodeLanguage;
+  outputPath?: string;
+  // Providers tried first for the tasks of this project
+  preferredProviders?: LLMProvider[];
+  // Generated code scoring at or below this value is rejected
+  minQualityScore?: number;
+  // SSH key of the repository, a file below GIT_SSH_KEY_DIR
+  credentialsRef?: string;
+}
+
+export class UpdateProjectDto {
+  projectId: string;
+  name?: string;
+  repositoryUrl?: string;
+  defaultBranch?: string;
+  language?: CodeLanguage;
+  outputPath?: string;
+  preferredProviders?: LLMProvider[];
+  minQualityScore?: number;
+  credentialsRef?: string;
+}
+
+export class ProjectDto {
+  id: string;
+  name: string;
+  repositoryUrl: string;
+  defaultBranch: string;
+  language: CodeLanguage;
+  outputPath?: string;
+  preferredProviders: LLMProvider[];
+  minQualityScore: number;
+  credentialsRef?: string;
+  createdAt: string;
+  updatedAt: string;
+}
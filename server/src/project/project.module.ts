@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { LLMModule } from '@server/core/llm/llm.module';
+import { ProjectController } from '@server/project/controller/project.controller';
+import { ProjectServiceImpl } from '@server/project/service/impl/project-impl.service';
+import { PROJECT_SERVICE } from '@server/constants';
+
+const providers = [
+  {
+    provide: PROJECT_SERVICE,
+    useClass: ProjectServiceImpl,
+  },
+];
+
+@Module({
+  imports: [PrismaModule, LLMModule],
+  controllers: [ProjectController],
+  providers,
+  exports: providers,
+})
+export class ProjectModule {}
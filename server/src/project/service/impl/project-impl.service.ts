@@ -0,0 +1,198 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { CodeLanguage, PrismaClient, Project } from '.prisma/client';
+import { LLMProvider } from '@server/config/llm.config';
+import { gitConfig } from '@server/config/git.config';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@server/core/error';
+import { ProjectService } from '@server/project/service/project.service';
+import { LLMService } from '@server/core/llm/service/llm.service';
+import {
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectDto,
+} from '@server/project/dto/project.dto';
+import { resolveSshKeyPath } from '@server/core/utils/git-ssh';
+import { PRISMA_REPOSITORY, LLM_SERVICE } from '@server/constants';
+
+@Injectable()
+export class ProjectServiceImpl implements ProjectService {
+  private readonly logger = new Logger(ProjectServiceImpl.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(LLM_SERVICE)
+    private readonly llmService: LLMService,
+
+    @Inject(gitConfig.KEY)
+    private readonly gitSettings: ConfigType<typeof gitConfig>,
+  ) {}
+
+  /**
+   * Create a project holding the defaults of its tasks
+   * @param dto Project settings
+   * @returns Created project
+   */
+  public async createProject(dto: CreateProjectDto): Promise<ProjectDto> {
+    if (!dto.name || !dto.repositoryUrl) {
+      throw new ValidationError('name and repositoryUrl are required');
+    }
+    this.validateSettings(dto);
+
+    const project = await this.prismaRepository.project.create({
+      data: {
+        name: dto.name,
+        repository_url: dto.repositoryUrl,
+        default_branch: dto.defaultBranch,
+        language: dto.language,
+        output_path: dto.outputPath,
+        preferred_providers: dto.preferredProviders,
+        min_quality_score: dto.minQualityScore,
+        credentials_ref: dto.credentialsRef,
+      },
+    });
+
+    this.logger.log(`Created project ${project.id} (${project.name})`);
+    return this.toProjectDto(project);
+  }
+
+  /**
+   * Get a project
+   * @param projectId Project ID
+   */
+  public async getProject(projectId: string): Promise<ProjectDto> {
+    return this.toProjectDto(await this.findProjectOrFail(projectId));
+  }
+
+  /**
+   * List every project, most recent first
+   */
+  public async listProjects(): Promise<ProjectDto[]> {
+    const projects = await this.prismaRepository.project.findMany({
+      orderBy: { created_at: 'desc' },
+    });
+
+    return projects.map((project) => this.toProjectDto(project));
+  }
+
+  /**
+   * Update the given settings of a project
+   * @param dto Project ID and settings to change
+   * @returns Updated project
+   */
+  public async updateProject(dto: UpdateProjectDto): Promise<ProjectDto> {
+    await this.findProjectOrFail(dto.projectId);
+    this.validateSettings(dto);
+
+    const project = await this.prismaRepository.project.update({
+      where: { id: dto.projectId },
+      data: {
+        name: dto.name,
+        repository_url: dto.repositoryUrl,
+        default_branch: dto.defaultBranch,
+        language: dto.language,
+        output_path: dto.outputPath,
+        preferred_providers: dto.preferredProviders,
+        min_quality_score: dto.minQualityScore,
+        credentials_ref: dto.credentialsRef,
+      },
+    });
+
+    this.logger.log(`Updated project ${project.id}`);
+    return this.toProjectDto(project);
+  }
+
+  /**
+   * Delete a project without tasks
+   * @param projectId Project ID
+   */
+  public async deleteProject(projectId: string): Promise<void> {
+    await this.findProjectOrFail(projectId);
+
+    const taskCount = await this.prismaRepository.requirementTask.count({
+      where: { project_id: projectId },
+    });
+    if (taskCount > 0) {
+      throw new ConflictError(
+        `Project ${projectId} still has ${taskCount} tasks and cannot be deleted`,
+      );
+    }
+
+    await this.prismaRepository.project.delete({ where: { id: projectId } });
+    this.logger.log(`Deleted project ${projectId}`);
+  }
+
+  /**
+   * @private
+   */
+  private async findProjectOrFail(projectId: string): Promise<Project> {
+    const project = await this.prismaRepository.project.findUnique({
+      where: { id: projectId },
+    });
+
+    if (!project) {
+      throw new NotFoundError(`Project with ID ${projectId} not found`);
+    }
+
+    return project;
+  }
+
+  /**
+   * @private
+   */
+  private validateSettings(dto: CreateProjectDto | UpdateProjectDto): void {
+    if (dto.language && !Object.values(CodeLanguage).includes(dto.language)) {
+      throw new ValidationError(`Unsupported language '${dto.language}'`);
+    }
+
+    // Discovered Ollama models are registered under names of their own
+    const registeredProviders = Object.keys(
+      this.llmService.getAvailableProviders(),
+    );
+    const unknownProviders = (dto.preferredProviders || []).filter(
+      (provider) =>
+        !Object.values(LLMProvider).includes(provider) &&
+        !registeredProviders.includes(provider),
+    );
+    if (unknownProviders.length > 0) {
+      throw new ValidationError(
+        `Unknown LLM providers: ${unknownProviders.join(', ')}`,
+      );
+    }
+
+    if (
+      dto.minQualityScore !== undefined &&
+      (dto.minQualityScore < 0 || dto.minQualityScore > 100)
+    ) {
+      throw new ValidationError('minQualityScore must be between 0 and 100');
+    }
+
+    if (dto.credentialsRef) {
+      resolveSshKeyPath(this.gitSettings, dto.credentialsRef);
+    }
+  }
+
+  /**
+   * @private
+   */
+  private toProjectDto(project: Project): ProjectDto {
+    return {
+      id: project.id,
+      name: project.name,
+      repositoryUrl: project.repository_url,
+      defaultBranch: project.default_branch,
+      language: project.language,
+      outputPath: project.output_path ?? undefined,
+      preferredProviders: project.preferred_providers as LLMProvider[],
+      minQualityScore: project.min_quality_score,
+      credentialsRef: project.credentials_ref ?? undefined,
+      createdAt: project.created_at.toISOString(),
+      updatedAt: project.updated_at.toISOString(),
+    };
+  }
+}
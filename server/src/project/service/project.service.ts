@@ -0,0 +1,38 @@
+import {
+  CreateProjectDto,
+  UpdateProjectDto,
+  ProjectDto,
+} from '@server/project/dto/project.dto';
+
+/**
+ * 專案服務介面定義
+ * 專案保存任務的預設設定，建立任務時可省略專案已定義的欄位
+ */
+export interface ProjectService {
+  /**
+   * 建立專案
+   */
+  createProject(dto: CreateProjectDto): Promise<ProjectDto>;
+
+  /**
+   * 取得專案
+   * @param projectId 專案ID
+   */
+  getProject(projectId: string): Promise<ProjectDto>;
+
+  /**
+   * 列出所有專案
+   */
+  listProjects(): Promise<ProjectDto[]>;
+
+  /**
+   * 更新專案設定，未提供的欄位保持不變
+   */
+  updateProject(dto: UpdateProjectDto): Promise<ProjectDto>;
+
+  /**
+   * 刪除專案，專案仍有任務時無法刪除
+   * @param projectId 專案ID
+   */
+  deleteProject(projectId: string): Promise<void>;
+}
@@ -5,3 +5,23 @@ export class ResponseQualityCheckDto {
   syntaxValidityScore: number;
   feedback: string;
 }
+
+export class CodeQualityScoresDto {
+  correctness: number;
+  completeness: number;
+  codeQuality: number;
+  errorHandling: number;
+  security: number;
+}
+
+export class CodeQualityEvaluationDto {
+  totalScore: number;
+  scores: CodeQualityScoresDto;
+  feedback: string;
+  issues: string[];
+}
+
+export class RequirementCoverageDto {
+  coverageScore: number;
+  reason: string;
+}
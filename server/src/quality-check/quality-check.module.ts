@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { PromptModule } from '@server/core/prompt/prompt.module';
 import { LLMModule } from '@server/core/llm/llm.module';
 import { QualityCheckServiceImpl } from '@server/quality-check/service/impl/quality-check-impl.service';
 import { QUALITY_CHECK_SERVICE } from '@server/constants';
@@ -12,7 +13,7 @@ const providers = [
 ];
 
 @Module({
-  imports: [PrismaModule, LLMModule],
+  imports: [PrismaModule, LLMModule, PromptModule],
   providers,
   exports: providers,
 })
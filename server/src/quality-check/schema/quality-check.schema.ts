@@ -0,0 +1,42 @@
+import { SchemaObject } from 'ajv';
+
+const score = (maximum: number) => ({ type: 'number', minimum: 0, maximum });
+
+export const CODE_QUALITY_EVALUATION_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {
+    totalScore: score(100),
+    scores: {
+      type: 'object',
+      properties: {
+        correctness: score(30),
+        completeness: score(25),
+        codeQuality: score(25),
+        errorHandling: score(10),
+        security: score(10),
+      },
+      required: [
+        'correctness',
+        'completeness',
+        'codeQuality',
+        'errorHandling',
+        'security',
+      ],
+      additionalProperties: false,
+    },
+    feedback: { type: 'string' },
+    issues: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['totalScore', 'scores', 'feedback', 'issues'],
+  additionalProperties: false,
+};
+
+export const REQUIREMENT_COVERAGE_SCHEMA: SchemaObject = {
+  type: 'object',
+  properties: {
+    coverageScore: score(100),
+    reason: { type: 'string' },
+  },
+  required: ['coverageScore', 'reason'],
+  additionalProperties: false,
+};
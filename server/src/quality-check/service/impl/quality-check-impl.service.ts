@@ -1,10 +1,24 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
 import * as path from 'path';
 import { PrismaClient, QualityMetric, CodeLanguage } from '.prisma/client';
-import { LLMProvider } from '@server/config/llm.config';
+import { LLMRoutingStage } from '@server/config/llm-routing.config';
 import { QualityCheckService } from '@server/quality-check/service/quality-check.service';
 import { LLMIntegrationService } from '@server/core/llm/service/llm-integration.service';
-import { PRISMA_REPOSITORY, LLM_INTEGRATION_SERVICE } from '@server/constants';
+import { PromptService } from '@server/core/prompt/service/prompt.service';
+import { PromptKey } from '@server/core/prompt/prompt-defaults';
+import {
+  CodeQualityEvaluationDto,
+  RequirementCoverageDto,
+} from '@server/quality-check/dto/quality-check.dto';
+import {
+  CODE_QUALITY_EVALUATION_SCHEMA,
+  REQUIREMENT_COVERAGE_SCHEMA,
+} from '@server/quality-check/schema/quality-check.schema';
+import {
+  PRISMA_REPOSITORY,
+  LLM_INTEGRATION_SERVICE,
+  PROMPT_SERVICE,
+} from '@server/constants';
 
 @Injectable()
 export class QualityCheckServiceImpl implements QualityCheckService {
@@ -16,6 +30,9 @@ export class QualityCheckServiceImpl implements QualityCheckService {
 
     @Inject(LLM_INTEGRATION_SERVICE)
     private readonly llmIntegrationService: LLMIntegrationService,
+
+    @Inject(PROMPT_SERVICE)
+    private readonly promptService: PromptService,
   ) {}
 
   /**
@@ -151,22 +168,18 @@ export class QualityCheckServiceImpl implements QualityCheckService {
     try {
       // 此處可整合語法檢查工具
       // 目前透過 LLM 進行基本檢查
-      const prompt = `
-        請檢查以下 ${language} 程式碼的基本語法。
-        不需要評估程式碼質量或風格，只需確認是否存在明顯的語法錯誤。
-        
-        程式碼:
-        \`\`\`${language}
-        ${content}
-        \`\`\`
-        
-        只回答 "valid" 或 "invalid"，後面附上發現的主要語法錯誤（如果有）。
-      `;
+      const { prompt, systemMessage, promptVersionId } =
+        await this.promptService.renderPrompt({
+          key: PromptKey.SYNTAX_CHECK,
+          variables: { language, content },
+        });
 
       const result = await this.llmIntegrationService.callLLmApi({
         prompt,
+        systemMessage,
+        promptVersionId,
         options: {
-          provider: LLMProvider.OLLAMA_DEEPSEEK_CHAT,
+          stage: LLMRoutingStage.SYNTAX_CHECK,
           temperature: 0.2,
           useFallback: true,
         },
@@ -205,47 +218,30 @@ export class QualityCheckServiceImpl implements QualityCheckService {
       .join('\n\n========\n\n')
       .substring(0, 8000); // 限制提示大小
 
-    const prompt = `
-      作為專業的程式碼審查員，請評估以下程式碼是否符合需求，並評估其品質。
-      
-      需求分析:
-      ${JSON.stringify(requirementAnalysis, null, 2)}
-      
-      程式碼樣本:
-      ${codeSnippets}
-      
-      請從以下幾個方面評估程式碼 (滿分 100 分):
-      1. 程式碼正確性 (是否正確實現需求功能): 30 分
-      2. 程式碼完整性 (是否實現了所有需求): 25 分
-      3. 程式碼品質 (結構、可維護性、遵循最佳實踐): 25 分
-      4. 錯誤處理 (是否適當處理潛在錯誤): 10 分
-      5. 安全性 (是否避免常見安全漏洞): 10 分
-      
-      請以 JSON 格式回覆:
-      {
-        "totalScore": 分數,
-        "scores": {
-          "correctness": 分數,
-          "completeness": 分數,
-          "codeQuality": 分數,
-          "errorHandling": 分數,
-          "security": 分數
-        },
-        "feedback": "簡要反饋",
-        "issues": ["問題1", "問題2", ...]
-      }
-    `;
-
     try {
-      const result = await this.llmIntegrationService.callLLmApi({
-        prompt,
-        options: {
-          provider: LLMProvider.OLLAMA_DEEPSEEK_CHAT,
-          temperature: 0.2,
-          useFallback: true,
-        },
-      });
-      const evaluation = JSON.parse(result);
+      const { prompt, systemMessage, promptVersionId } =
+        await this.promptService.renderPrompt({
+          key: PromptKey.CODE_EVALUATION,
+          variables: {
+            requirementAnalysis: JSON.stringify(requirementAnalysis, null, 2),
+            codeSnippets,
+          },
+        });
+      const evaluation =
+        await this.llmIntegrationService.callStructuredLLmApi<CodeQualityEvaluationDto>(
+          {
+            prompt,
+            systemMessage,
+            promptVersionId,
+            schemaName: 'code_quality_evaluation',
+            schema: CODE_QUALITY_EVALUATION_SCHEMA,
+            options: {
+              stage: LLMRoutingStage.EVALUATION,
+              temperature: 0.2,
+              useFallback: true,
+            },
+          },
+        );
 
       return {
         codeQualityScore: evaluation.totalScore,
@@ -305,36 +301,31 @@ export class QualityCheckServiceImpl implements QualityCheckService {
     }
 
     // 使用 LLM 評估功能覆蓋率
-    const prompt = `
-      評估生成的程式碼是否覆蓋了需求中的所有關鍵功能和組件。
-      
-      需求功能:
-      ${functionality}
-      
-      需求組件:
-      ${requiredComponents.join('\n')}
-      
-      生成的程式碼內容:
-      ${allCode.substring(0, 8000)}
-      
-      請給出覆蓋率評分 (0-100)，並簡單說明原因。
-      只需回覆 JSON 格式:
-      {
-        "coverageScore": 分數,
-        "reason": "理由"
-      }
-    `;
-
     try {
-      const result = await this.llmIntegrationService.callLLmApi({
-        prompt,
-        options: {
-          provider: LLMProvider.OLLAMA_DEEPSEEK_CHAT,
-          temperature: 0.2,
-          useFallback: true,
-        },
-      });
-      const evaluation = JSON.parse(result);
+      const { prompt, systemMessage, promptVersionId } =
+        await this.promptService.renderPrompt({
+          key: PromptKey.REQUIREMENT_COVERAGE,
+          variables: {
+            functionality,
+            components: requiredComponents.join('\n'),
+            code: allCode.substring(0, 8000),
+          },
+        });
+      const evaluation =
+        await this.llmIntegrationService.callStructuredLLmApi<RequirementCoverageDto>(
+          {
+            prompt,
+            systemMessage,
+            promptVersionId,
+            schemaName: 'requirement_coverage',
+            schema: REQUIREMENT_COVERAGE_SCHEMA,
+            options: {
+              stage: LLMRoutingStage.EVALUATION,
+              temperature: 0.2,
+              useFallback: true,
+            },
+          },
+        );
 
       // 綜合文件結構覆蓋率和功能覆蓋率
       return (fileStructureCoverage * 30 + evaluation.coverageScore * 70) / 100;
@@ -364,16 +355,23 @@ export class QualityCheckServiceImpl implements QualityCheckService {
     staticAnalysisResults: Record<string, any>,
     feedback: string,
   ): Promise<QualityMetric> {
-    const metrics = await this.prismaRepository.qualityMetric.create({
-      data: {
-        task_id: taskId,
-        code_quality_score: codeQualityScore,
-        requirement_coverage_score: requirementCoverageScore,
-        syntax_validity_score: syntaxValidityScore,
-        static_analysis_results: JSON.stringify(staticAnalysisResults),
-        feedback,
-      },
-    });
+    // 同步更新任務的品質分數，供任務列表排序使用
+    const [metrics] = await this.prismaRepository.$transaction([
+      this.prismaRepository.qualityMetric.create({
+        data: {
+          task_id: taskId,
+          code_quality_score: codeQualityScore,
+          requirement_coverage_score: requirementCoverageScore,
+          syntax_validity_score: syntaxValidityScore,
+          static_analysis_results: JSON.stringify(staticAnalysisResults),
+          feedback,
+        },
+      }),
+      this.prismaRepository.requirementTask.update({
+        where: { id: taskId },
+        data: { quality_score: codeQualityScore },
+      }),
+    ]);
 
     return metrics;
   }
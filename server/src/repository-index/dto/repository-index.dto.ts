@@ -0,0 +1,38 @@
+export class SyncRepositoryIndexDto {
+  repositoryUrl: string;
+  branch: string;
+  // Project whose credentials are used to reach the repository
+  projectId?: string;
+}
+
+export class IndexRepositoryDto {
+  repositoryUrl: string;
+  branch: string;
+  // Working tree checked out at the commit
+  directory: string;
+  commitHash: string;
+}
+
+export class RetrieveRepositoryContextDto extends SyncRepositoryIndexDto {
+  query: string;
+  // Defaults to the configured number of results
+  limit?: number;
+}
+
+export class RepositoryChunkDto {
+  filePath: string;
+  startLine: number;
+  endLine: number;
+  symbols: string[];
+  content: string;
+  // Cosine similarity to the query, 1 is identical
+  score: number;
+}
+
+export class RepositoryIndexStatsDto {
+  commitHash: string;
+  // Files embedded again because they are new or changed
+  indexedFiles: number;
+  removedFiles: number;
+  chunks: number;
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { LLMModule } from '@server/core/llm/llm.module';
+import { RepositoryIndexServiceImpl } from '@server/repository-index/service/impl/repository-index-impl.service';
+import { REPOSITORY_INDEX_SERVICE } from '@server/constants';
+
+const providers = [
+  {
+    provide: REPOSITORY_INDEX_SERVICE,
+    useClass: RepositoryIndexServiceImpl,
+  },
+];
+
+@Module({
+  imports: [PrismaModule, LLMModule],
+  providers,
+  exports: providers,
+})
+export class RepositoryIndexModule {}
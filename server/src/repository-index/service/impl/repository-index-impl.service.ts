@@ -0,0 +1,457 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import simpleGit, { SimpleGit } from 'simple-git';
+import { PrismaClient, RepositoryIndex } from '.prisma/client';
+import { gitConfig } from '@server/config/git.config';
+import { dynamicLlmConfig } from '@server/config/llm.config';
+import { repositoryIndexConfig } from '@server/config/repository-index.config';
+import { LLMService } from '@server/core/llm/service/llm.service';
+import { RepositoryIndexService } from '@server/repository-index/service/repository-index.service';
+import {
+  chunkCode,
+  CodeChunk,
+  isSourceFile,
+} from '@server/core/utils/code-chunker';
+import { getGitSshCommand } from '@server/core/utils/git-ssh';
+import {
+  SyncRepositoryIndexDto,
+  IndexRepositoryDto,
+  RetrieveRepositoryContextDto,
+  RepositoryChunkDto,
+  RepositoryIndexStatsDto,
+} from '@server/repository-index/dto/repository-index.dto';
+import { PRISMA_REPOSITORY, LLM_SERVICE } from '@server/constants';
+
+// Chunks embedded and saved together while indexing
+const CHUNK_BATCH_SIZE = 128;
+
+// Longer chunks, e.g. of minified code, are cut before embedding
+const MAX_EMBEDDED_CHARS = 6000;
+
+type PendingChunk = CodeChunk & {
+  filePath: string;
+  fileHash: string;
+};
+
+type ChunkRow = {
+  file_path: string;
+  start_line: number;
+  end_line: number;
+  symbols: string[];
+  content: string;
+  score: number;
+};
+
+@Injectable()
+export class RepositoryIndexServiceImpl implements RepositoryIndexService {
+  private readonly logger = new Logger(RepositoryIndexServiceImpl.name);
+  // Running syncs, so the tasks of a repository wait for the same one
+  private readonly syncs = new Map<string, Promise<RepositoryIndex | null>>();
+  // Latest index update of each branch, the next one waits for it
+  private readonly updates = new Map<
+    string,
+    Promise<RepositoryIndexStatsDto>
+  >();
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(LLM_SERVICE)
+    private readonly llmService: LLMService,
+
+    @Inject(gitConfig.KEY)
+    private readonly gitSettings: ConfigType<typeof gitConfig>,
+
+    @Inject(dynamicLlmConfig.KEY)
+    private readonly llmConfig: ConfigType<typeof dynamicLlmConfig>,
+
+    @Inject(repositoryIndexConfig.KEY)
+    private readonly config: ConfigType<typeof repositoryIndexConfig>,
+  ) {}
+
+  /**
+   * Whether retrieval is enabled, which needs an embedding provider
+   */
+  public isEnabled(): boolean {
+    return this.config.enabled && !!this.llmConfig.embedding;
+  }
+
+  /**
+   * Find the chunks of existing code closest to a query, after bringing
+   * the index up to date with the remote branch
+   * @param dto Repository, branch and query
+   * @returns Chunks by decreasing similarity, none when retrieval is disabled
+   */
+  public async retrieveContext(
+    dto: RetrieveRepositoryContextDto,
+  ): Promise<RepositoryChunkDto[]> {
+    if (!this.isEnabled() || !dto.query?.trim()) {
+      return [];
+    }
+
+    const index = await this.syncIndex(dto);
+    if (!index?.commit_hash) {
+      return [];
+    }
+
+    const { embeddings } = await this.llmService.createEmbeddings({
+      input: [dto.query.substring(0, MAX_EMBEDDED_CHARS)],
+    });
+    const vector = this.toVector(embeddings[0]);
+    const limit = dto.limit ?? this.config.maxResults;
+
+    const rows = await this.prismaRepository.$queryRaw<ChunkRow[]>`
+      SELECT "file_path", "start_line", "end_line", "symbols", "content",
+        1 - ("embedding" <=> ${vector}::vector) AS "score"
+      FROM "repository_chunks"
+      WHERE "index_id" = ${index.id}::uuid AND "embedding" IS NOT NULL
+      ORDER BY "embedding" <=> ${vector}::vector
+      LIMIT ${limit}`;
+
+    return rows.map((row) => ({
+      filePath: row.file_path,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      symbols: row.symbols,
+      content: row.content,
+      score: Number(row.score),
+    }));
+  }
+
+  /**
+   * Bring the index up to date with the latest commit of the remote branch,
+   * cloning it only when the index is behind
+   * @param dto Repository and branch
+   * @returns Index, or null when the branch does not exist yet
+   */
+  public async syncIndex(
+    dto: SyncRepositoryIndexDto,
+  ): Promise<RepositoryIndex | null> {
+    const key = `${dto.repositoryUrl}#${dto.branch}`;
+
+    let sync = this.syncs.get(key);
+    if (!sync) {
+      sync = this.runSync(dto).finally(() => this.syncs.delete(key));
+      this.syncs.set(key, sync);
+    }
+
+    return sync;
+  }
+
+  /**
+   * Update the index from a checked out working tree. Only new and changed
+   * files are embedded again, chunks of deleted files are removed. A change
+   * of embedding model rebuilds the whole index. Updates of the same branch
+   * run one after the other.
+   * @param dto Repository, branch, working tree and its commit
+   */
+  public async indexDirectory(
+    dto: IndexRepositoryDto,
+  ): Promise<RepositoryIndexStatsDto> {
+    const key = `${dto.repositoryUrl}#${dto.branch}`;
+    const previous = this.updates.get(key);
+    const update = (previous ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.updateIndex(dto));
+    this.updates.set(key, update);
+
+    try {
+      return await update;
+    } finally {
+      if (this.updates.get(key) === update) {
+        this.updates.delete(key);
+      }
+    }
+  }
+
+  /**
+   * @private
+   */
+  private async updateIndex(
+    dto: IndexRepositoryDto,
+  ): Promise<RepositoryIndexStatsDto> {
+    const embeddingModel = this.getEmbeddingModel();
+    let index = await this.prismaRepository.repositoryIndex.upsert({
+      where: {
+        repository_url_branch: {
+          repository_url: dto.repositoryUrl,
+          branch: dto.branch,
+        },
+      },
+      create: {
+        repository_url: dto.repositoryUrl,
+        branch: dto.branch,
+        embedding_model: embeddingModel,
+      },
+      update: {},
+    });
+
+    // Vectors of different models cannot be compared
+    if (index.embedding_model !== embeddingModel) {
+      this.logger.log(
+        `Embedding model of ${dto.repositoryUrl}#${dto.branch} changed to ${embeddingModel}, rebuilding its index`,
+      );
+      await this.prismaRepository.repositoryChunk.deleteMany({
+        where: { index_id: index.id },
+      });
+      index = await this.prismaRepository.repositoryIndex.update({
+        where: { id: index.id },
+        data: { embedding_model: embeddingModel, commit_hash: null },
+      });
+    }
+
+    const stored = await this.prismaRepository.repositoryChunk.findMany({
+      where: { index_id: index.id },
+      select: { file_path: true, file_hash: true },
+      distinct: ['file_path'],
+    });
+    const storedHashes = new Map(
+      stored.map((chunk) => [chunk.file_path, chunk.file_hash]),
+    );
+
+    const files = await this.listSourceFiles(dto.directory);
+    const changedFiles: { filePath: string; fileHash: string }[] = [];
+    for (const filePath of files) {
+      const content = this.readSourceFile(dto.directory, filePath);
+      if (content === null) {
+        continue;
+      }
+      const fileHash = crypto
+        .createHash('sha256')
+        .update(content)
+        .digest('hex');
+      if (storedHashes.get(filePath) !== fileHash) {
+        changedFiles.push({ filePath, fileHash });
+      }
+      storedHashes.delete(filePath);
+    }
+    // Files left were deleted, or are no longer indexed
+    const removedFiles = [...storedHashes.keys()];
+
+    let chunkCount = 0;
+    let pending: PendingChunk[] = [];
+    const emptyFiles: string[] = [];
+    for (const file of changedFiles) {
+      const content = this.readSourceFile(dto.directory, file.filePath);
+      const chunks = chunkCode(content ?? '', this.config.chunkLines);
+      if (chunks.length === 0) {
+        emptyFiles.push(file.filePath);
+      }
+      chunks.forEach((chunk) => pending.push({ ...chunk, ...file }));
+
+      // Chunks of a file are saved together, replacing its old ones at once
+      if (pending.length >= CHUNK_BATCH_SIZE) {
+        chunkCount += await this.saveChunks(index.id, pending);
+        pending = [];
+      }
+    }
+    chunkCount += await this.saveChunks(index.id, pending);
+
+    const outdatedFiles = [...removedFiles, ...emptyFiles];
+    if (outdatedFiles.length > 0) {
+      await this.prismaRepository.repositoryChunk.deleteMany({
+        where: { index_id: index.id, file_path: { in: outdatedFiles } },
+      });
+    }
+
+    // Set last, an interrupted run resumes with the files it missed
+    await this.prismaRepository.repositoryIndex.update({
+      where: { id: index.id },
+      data: { commit_hash: dto.commitHash, indexed_at: new Date() },
+    });
+
+    this.logger.log(
+      `Indexed ${dto.repositoryUrl}#${dto.branch} at ${dto.commitHash}: ${changedFiles.length} files embedded, ${removedFiles.length} removed`,
+    );
+
+    return {
+      commitHash: dto.commitHash,
+      indexedFiles: changedFiles.length,
+      removedFiles: removedFiles.length,
+      chunks: chunkCount,
+    };
+  }
+
+  /**
+   * Compare the index to the remote branch and index a shallow clone of
+   * the branch when it is behind
+   * @private
+   */
+  private async runSync(
+    dto: SyncRepositoryIndexDto,
+  ): Promise<RepositoryIndex | null> {
+    const git = await this.createGit(dto.projectId);
+    const where = {
+      repository_url_branch: {
+        repository_url: dto.repositoryUrl,
+        branch: dto.branch,
+      },
+    };
+
+    const remote = await git.listRemote([
+      dto.repositoryUrl,
+      `refs/heads/${dto.branch}`,
+    ]);
+    const head = remote.split(/\s+/)[0];
+    const index = await this.prismaRepository.repositoryIndex.findUnique({
+      where,
+    });
+    if (
+      !head ||
+      (index?.commit_hash === head &&
+        index.embedding_model === this.getEmbeddingModel())
+    ) {
+      return index;
+    }
+
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'repo-index-'));
+    try {
+      await git.clone(dto.repositoryUrl, directory, [
+        '--depth',
+        '1',
+        '--branch',
+        dto.branch,
+      ]);
+      const commitHash = await simpleGit(directory).revparse(['HEAD']);
+      await this.indexDirectory({
+        repositoryUrl: dto.repositoryUrl,
+        branch: dto.branch,
+        directory,
+        commitHash,
+      });
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+
+    return this.prismaRepository.repositoryIndex.findUnique({ where });
+  }
+
+  /**
+   * Git client using the SSH key of the project, or the configured one
+   * @private
+   */
+  private async createGit(projectId?: string): Promise<SimpleGit> {
+    const git = simpleGit();
+    const project = projectId
+      ? await this.prismaRepository.project.findUnique({
+          where: { id: projectId },
+          select: { credentials_ref: true },
+        })
+      : null;
+    const sshCommand = getGitSshCommand(
+      this.gitSettings,
+      project?.credentials_ref,
+    );
+    if (sshCommand) {
+      git.env('GIT_SSH_COMMAND', sshCommand);
+    }
+
+    return git;
+  }
+
+  /**
+   * Tracked source files of a working tree, ignored files are left out
+   * @private
+   */
+  private async listSourceFiles(directory: string): Promise<string[]> {
+    const output = await simpleGit(directory).raw(['ls-files']);
+    return output
+      .split('\n')
+      .map((filePath) => filePath.trim())
+      .filter((filePath) => filePath && isSourceFile(filePath));
+  }
+
+  /**
+   * Read a source file, or null when it is too large or binary
+   * @private
+   */
+  private readSourceFile(directory: string, filePath: string): string | null {
+    const fullPath = path.join(directory, filePath);
+    try {
+      const stats = fs.statSync(fullPath);
+      if (!stats.isFile() || stats.size > this.config.maxFileSize) {
+        return null;
+      }
+      const content = fs.readFileSync(fullPath, 'utf8');
+      return content.includes('\0') ? null : content;
+    } catch (error) {
+      this.logger.warn(`Could not read ${filePath}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Embed chunks and save them with their vectors. The chunks of each file
+   * replace its old ones in a transaction holding a lock on the file, so
+   * that concurrent updates never leave duplicate chunks behind.
+   * @returns Number of chunks saved
+   * @private
+   */
+  private async saveChunks(
+    indexId: string,
+    chunks: PendingChunk[],
+  ): Promise<number> {
+    if (chunks.length === 0) {
+      return 0;
+    }
+
+    // The path tells the model where the code lives, e.g. `utils/date.ts`
+    const { embeddings } = await this.llmService.createEmbeddings({
+      input: chunks.map((chunk) =>
+        `File: ${chunk.filePath}\n${chunk.content}`.substring(
+          0,
+          MAX_EMBEDDED_CHARS,
+        ),
+      ),
+    });
+
+    const files = new Map<string, { chunk: PendingChunk; vector: string }[]>();
+    chunks.forEach((chunk, i) => {
+      const fileChunks = files.get(chunk.filePath) ?? [];
+      fileChunks.push({ chunk, vector: this.toVector(embeddings[i]) });
+      files.set(chunk.filePath, fileChunks);
+    });
+
+    for (const [filePath, fileChunks] of files) {
+      await this.prismaRepository.$transaction(async (tx) => {
+        await tx.$executeRaw`
+          SELECT pg_advisory_xact_lock(hashtext(${`${indexId}:${filePath}`}))`;
+        await tx.repositoryChunk.deleteMany({
+          where: { index_id: indexId, file_path: filePath },
+        });
+        for (const { chunk, vector } of fileChunks) {
+          await tx.$executeRaw`
+            INSERT INTO "repository_chunks"
+              ("index_id", "file_path", "file_hash", "start_line", "end_line",
+               "symbols", "content", "embedding")
+            VALUES (${indexId}::uuid, ${chunk.filePath}, ${chunk.fileHash},
+              ${chunk.startLine}, ${chunk.endLine}, ${chunk.symbols}::text[],
+              ${chunk.content}, ${vector}::vector)`;
+        }
+      });
+    }
+
+    return chunks.length;
+  }
+
+  /**
+   * @private
+   */
+  private getEmbeddingModel(): string {
+    const { provider, model } = this.llmConfig.embedding;
+    return `${provider}:${model}`;
+  }
+
+  /**
+   * pgvector literal of a vector, e.g. `[0.1,0.2]`
+   * @private
+   */
+  private toVector(embedding: number[]): string {
+    return `[${embedding.join(',')}]`;
+  }
+}
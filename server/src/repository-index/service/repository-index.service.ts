@@ -0,0 +1,42 @@
+import { RepositoryIndex } from '.prisma/client';
+import {
+  SyncRepositoryIndexDto,
+  IndexRepositoryDto,
+  RetrieveRepositoryContextDto,
+  RepositoryChunkDto,
+  RepositoryIndexStatsDto,
+} from '@server/repository-index/dto/repository-index.dto';
+
+/**
+ * 程式碼庫向量索引服務介面定義
+ * 將目標程式碼庫的原始碼切塊並計算 embedding 存入 Postgres (pgvector)，供生成程式碼時檢索相關的既有程式碼
+ */
+export interface RepositoryIndexService {
+  /**
+   * 是否啟用檢索 (需設定 embedding 提供商)
+   */
+  isEnabled(): boolean;
+
+  /**
+   * 檢索與查詢最相關的既有程式碼片段，索引落後於遠端分支時先增量更新
+   * @param dto 程式碼庫、分支與查詢內容
+   * @returns 依相似度排序的程式碼片段，未啟用時為空陣列
+   */
+  retrieveContext(
+    dto: RetrieveRepositoryContextDto,
+  ): Promise<RepositoryChunkDto[]>;
+
+  /**
+   * 將索引同步到遠端分支的最新提交
+   * @param dto 程式碼庫與分支
+   * @returns 索引，分支不存在時為 null
+   */
+  syncIndex(dto: SyncRepositoryIndexDto): Promise<RepositoryIndex | null>;
+
+  /**
+   * 以已檢出的工作目錄增量更新索引，只重新計算新增或變更的檔案
+   * @param dto 程式碼庫、分支、工作目錄與提交
+   * @returns 更新的統計
+   */
+  indexDirectory(dto: IndexRepositoryDto): Promise<RepositoryIndexStatsDto>;
+}
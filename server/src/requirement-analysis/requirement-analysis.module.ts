@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
-import { HttpModule } from '@nestjs/axios';
 import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { PromptModule } from '@server/core/prompt/prompt.module';
+import { LLMModule } from '@server/core/llm/llm.module';
 import { RequirementAnalysisServiceImpl } from '@server/requirement-analysis/service/impl/requirement-analysis-impl.service';
 import { REQUIREMENT_ANALYSIS_SERVICE } from '@server/constants';
 
@@ -12,7 +13,7 @@ const providers = [
 ];
 
 @Module({
-  imports: [HttpModule, PrismaModule],
+  imports: [PrismaModule, PromptModule, LLMModule],
   controllers: [],
   providers,
   exports: providers,
@@ -1,12 +1,16 @@
 import { Injectable, Logger, Inject } from '@nestjs/common';
-import { HttpService } from '@nestjs/axios';
-import { ConfigType } from '@nestjs/config';
-import { lastValueFrom } from 'rxjs';
 import { PrismaClient } from '.prisma/client';
-import { llMConfig } from '@server/config/llm.config';
+import { LLMRoutingStage } from '@server/config/llm-routing.config';
 import { RequirementAnalysisService } from '@server/requirement-analysis/service/requirement-analysis.service';
 import { AnalyzeRequirementDto } from '@server/requirement-analysis/dto/analyze-requirement.dto';
-import { PRISMA_REPOSITORY } from '@server/constants';
+import { PromptService } from '@server/core/prompt/service/prompt.service';
+import { PromptKey } from '@server/core/prompt/prompt-defaults';
+import { LLMService } from '@server/core/llm/service/llm.service';
+import {
+  PRISMA_REPOSITORY,
+  PROMPT_SERVICE,
+  LLM_SERVICE,
+} from '@server/constants';
 
 @Injectable()
 export class RequirementAnalysisServiceImpl
@@ -15,13 +19,14 @@ export class RequirementAnalysisServiceImpl
   private readonly logger = new Logger(RequirementAnalysisServiceImpl.name);
 
   constructor(
-    private readonly httpService: HttpService,
-
-    @Inject(llMConfig.KEY)
-    private config: ConfigType<typeof llMConfig>,
+    @Inject(LLM_SERVICE)
+    private readonly llmService: LLMService,
 
     @Inject(PRISMA_REPOSITORY)
     private prismaRepository: PrismaClient,
+
+    @Inject(PROMPT_SERVICE)
+    private readonly promptService: PromptService,
   ) {}
 
   /**
@@ -55,37 +60,23 @@ export class RequirementAnalysisServiceImpl
       }
     }
 
-    const prompt = `
-      分析以下軟體需求並將其分解為結構化組件。
-      代碼將使用 ${language} 實現。
-      
-      需求:
-      ${requirementText}
-      
-      ${templateId ? `使用以下模板作為基礎：\n${templateContent}\n` : ''}
-      
-      請提供：
-      1. 這個需求的明確標題
-      2. 請求的主要功能
-      3. 所需的關鍵組件或模塊
-      4. 預期的輸入和輸出
-      5. 提到的任何依賴項或約束條件
-      6. 建議的實現文件結構
-      7. 實現策略和方法
-      
-      以JSON格式返回結果，包含以下字段：
-      {
-        "title": "需求標題",
-        "functionality": "主要功能描述",
-        "components": ["組件1", "組件2", ...],
-        "inputsOutputs": "輸入輸出說明",
-        "dependencies": "依賴項和約束條件",
-        "fileStructure": ["文件1.ts", "文件2.ts", ...],
-        "implementationStrategy": "實現策略描述"
-      }
-    `;
+    const { prompt, systemMessage, promptVersionId } =
+      await this.promptService.renderPrompt({
+        key: PromptKey.DETAILED_REQUIREMENT_ANALYSIS,
+        variables: {
+          language,
+          requirement: requirementText,
+          templateContext: templateContent
+            ? `Use the following template as a basis:\n${templateContent}\n`
+            : '',
+        },
+      });
 
-    const result = await this.callLlmApi(prompt);
+    const result = await this.callLlmApi(
+      prompt,
+      systemMessage,
+      promptVersionId,
+    );
 
     try {
       // 嘗試直接解析為JSON
@@ -197,37 +188,29 @@ export class RequirementAnalysisServiceImpl
   }
 
   /**
-   * 調用LLM API
+   * 調用LLM API，依分析階段的路由規則選擇提供商
    * @param prompt 發送到LLM的提示
+   * @param systemMessage 系統訊息
+   * @param promptVersionId 提示詞版本ID，隨呼叫一併記錄
    * @private
    */
-  private async callLlmApi(prompt: string): Promise<string> {
+  private async callLlmApi(
+    prompt: string,
+    systemMessage?: string,
+    promptVersionId?: string,
+  ): Promise<string> {
     try {
-      const response = await lastValueFrom(
-        this.httpService.post(
-          this.config.llmApiUrl,
-          {
-            model: this.config.llmApiModel,
-            messages: [
-              {
-                role: 'system',
-                content:
-                  '你是一個專門用於軟體開發的助手，專長於理解和解析軟體需求。你需要將自然語言需求分解為結構化的組件，以便於後續的代碼生成。',
-              },
-              { role: 'user', content: prompt },
-            ],
-            temperature: 0.2,
-          },
-          {
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${this.config.llmApiKey}`,
-            },
-          },
-        ),
-      );
+      const { content } = await this.llmService.callLLMApiWithFallback({
+        prompt,
+        systemMessage,
+        promptVersionId,
+        options: {
+          temperature: 0.2,
+          stage: LLMRoutingStage.ANALYSIS,
+        },
+      });
 
-      return response.data.choices[0].message.content;
+      return content;
     } catch (error) {
       this.logger.error(`Error calling LLM API: ${error.message}`);
       throw new Error(`Failed to call LLM API: ${error.message}`);
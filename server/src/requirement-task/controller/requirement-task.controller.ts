@@ -10,21 +10,50 @@ import {
   HttpStatus,
   Logger,
   Inject,
+  Sse,
+  MessageEvent,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
-import { PrismaClient, RequirementStatus } from '.prisma/client';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Observable, catchError, map, of } from 'rxjs';
+import {
+  CodeLanguage,
+  PipelineStage,
+  RequirementStatus,
+  TaskPriority,
+} from '.prisma/client';
 import { RequirementTaskService } from '@server/requirement-task/service/requirement-task.service';
 import { RequirementQueueService } from '@server/requirement-task//service/requirement-queue.service';
+import { TaskStreamService } from '@server/requirement-task/service/task-stream.service';
+import { TaskDependencyService } from '@server/requirement-task/service/task-dependency.service';
 import {
   RequirementRequestDto,
   RequirementResponseDto,
   TaskStatusDto,
+  TaskListDto,
+  TaskSortField,
+  TaskEventDto,
   QueueStatsDto,
 } from '../dto/requirement-task.dto';
+import { SubmitTaskBatchDto, TaskBatchStatusDto } from '../dto/task-batch.dto';
+import { TaskDependencyGraphDto } from '../dto/task-dependency.dto';
+import { LlmUsageSummaryDto } from '@server/core/llm/dto/llm-usage.dto';
+import {
+  detectBacklogFormat,
+  parseBacklog,
+} from '@server/core/utils/backlog-parser';
+import { toHttpStatus, ValidationError } from '@server/core/error';
 import {
   REQUIREMENT_TASK_SERVICE,
   REQUIREMENT_QUEUE_SERVICE,
+  TASK_STREAM_SERVICE,
+  TASK_DEPENDENCY_SERVICE,
 } from '@server/constants';
 
+// Uploaded backlog files larger than this are rejected (bytes)
+const MAX_BACKLOG_FILE_SIZE = 1024 * 1024;
+
 @Controller('requirement-tasks')
 export class RequirementTaskController {
   private readonly logger = new Logger(RequirementTaskController.name);
@@ -34,6 +63,10 @@ export class RequirementTaskController {
     private readonly requirementTaskService: RequirementTaskService,
     @Inject(REQUIREMENT_QUEUE_SERVICE)
     private readonly requirementQueueService: RequirementQueueService,
+    @Inject(TASK_STREAM_SERVICE)
+    private readonly taskStreamService: TaskStreamService,
+    @Inject(TASK_DEPENDENCY_SERVICE)
+    private readonly taskDependencyService: TaskDependencyService,
   ) {}
 
   @Post()
@@ -48,7 +81,62 @@ export class RequirementTaskController {
       this.logger.error(`Error creating task: ${error.message}`, error.stack);
       throw new HttpException(
         `Failed to create requirement task: ${error.message}`,
-        HttpStatus.INTERNAL_SERVER_ERROR,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post('batch')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_BACKLOG_FILE_SIZE } }),
+  )
+  async createTaskBatch(
+    @Body() dto: SubmitTaskBatchDto,
+    @UploadedFile() file?: Express.Multer.File,
+  ): Promise<TaskBatchStatusDto> {
+    try {
+      let items = dto.items;
+      if (file) {
+        const format =
+          dto.format || detectBacklogFormat(file.originalname, file.mimetype);
+        if (!format) {
+          throw new ValidationError(
+            `Cannot detect the backlog format of ${file.originalname}`,
+          );
+        }
+        items = parseBacklog(file.buffer.toString('utf8'), format);
+      }
+
+      return await this.requirementTaskService.createTaskBatch({
+        projectId: dto.projectId,
+        items,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error creating task batch: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to create task batch: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get('batch/:batchId')
+  async getTaskBatchStatus(
+    @Param('batchId') batchId: string,
+  ): Promise<TaskBatchStatusDto> {
+    try {
+      return await this.requirementTaskService.getTaskBatchStatus(batchId);
+    } catch (error) {
+      this.logger.error(
+        `Error getting batch status: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to get batch status: ${error.message}`,
+        toHttpStatus(error),
       );
     }
   }
@@ -71,21 +159,168 @@ export class RequirementTaskController {
     }
   }
 
+  @Get(':taskId/dependencies')
+  async getTaskDependencies(
+    @Param('taskId') taskId: string,
+  ): Promise<TaskDependencyGraphDto> {
+    try {
+      return await this.taskDependencyService.getDependencyGraph(taskId);
+    } catch (error) {
+      this.logger.error(
+        `Error getting task dependencies: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to get task dependencies: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get(':taskId/usage')
+  async getTaskUsage(
+    @Param('taskId') taskId: string,
+  ): Promise<LlmUsageSummaryDto> {
+    try {
+      return await this.requirementTaskService.getTaskUsage(taskId);
+    } catch (error) {
+      this.logger.error(
+        `Error getting task usage: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to get task usage: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get(':taskId/timeline')
+  async getTaskTimeline(
+    @Param('taskId') taskId: string,
+  ): Promise<TaskEventDto[]> {
+    try {
+      return await this.requirementTaskService.getTaskTimeline(taskId);
+    } catch (error) {
+      this.logger.error(
+        `Error getting task timeline: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to get task timeline: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Sse(':taskId/stream')
+  streamTask(@Param('taskId') taskId: string): Observable<MessageEvent> {
+    return this.taskStreamService.watchTask(taskId).pipe(
+      map((event) => ({ type: event.type, data: event })),
+      catchError((error) => {
+        this.logger.error(`Error streaming task: ${error.message}`);
+        return of({ type: 'error', data: { message: error.message } });
+      }),
+    );
+  }
+
+  @Post(':taskId/cancel')
+  async cancelTask(
+    @Param('taskId') taskId: string,
+  ): Promise<RequirementResponseDto> {
+    try {
+      return await this.requirementTaskService.cancelTask(taskId);
+    } catch (error) {
+      this.logger.error(`Error cancelling task: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to cancel task: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post(':taskId/pause')
+  async pauseTask(
+    @Param('taskId') taskId: string,
+  ): Promise<RequirementResponseDto> {
+    try {
+      return await this.requirementTaskService.pauseTask(taskId);
+    } catch (error) {
+      this.logger.error(`Error pausing task: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to pause task: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post(':taskId/resume')
+  async resumeTask(
+    @Param('taskId') taskId: string,
+  ): Promise<RequirementResponseDto> {
+    try {
+      return await this.requirementTaskService.resumeTask(taskId);
+    } catch (error) {
+      this.logger.error(`Error resuming task: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to resume task: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post(':taskId/retry')
+  async retryTask(
+    @Param('taskId') taskId: string,
+    @Body() body: { fromStage?: PipelineStage },
+  ): Promise<RequirementResponseDto> {
+    try {
+      return await this.requirementTaskService.retryTask({
+        taskId,
+        fromStage: body?.fromStage,
+      });
+    } catch (error) {
+      this.logger.error(`Error retrying task: ${error.message}`, error.stack);
+      throw new HttpException(
+        `Failed to retry task: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
   @Get()
   async listTasks(
     @Query('projectId') projectId?: string,
     @Query('status') status?: RequirementStatus,
-  ): Promise<TaskStatusDto[]> {
+    @Query('language') language?: CodeLanguage,
+    @Query('priority') priority?: TaskPriority,
+    @Query('createdFrom') createdFrom?: string,
+    @Query('createdTo') createdTo?: string,
+    @Query('search') search?: string,
+    @Query('sortBy') sortBy?: TaskSortField,
+    @Query('sortOrder') sortOrder?: 'asc' | 'desc',
+    @Query('cursor') cursor?: string,
+    @Query('limit') limit?: string,
+  ): Promise<TaskListDto> {
     try {
       return await this.requirementTaskService.listTasks({
         projectId,
         status,
+        language,
+        priority,
+        createdFrom,
+        createdTo,
+        search,
+        sortBy,
+        sortOrder,
+        cursor,
+        limit: limit ? Number(limit) : undefined,
       });
     } catch (error) {
       this.logger.error(`Error listing tasks: ${error.message}`, error.stack);
       throw new HttpException(
         `Failed to list tasks: ${error.message}`,
-        HttpStatus.INTERNAL_SERVER_ERROR,
+        toHttpStatus(error),
       );
     }
   }
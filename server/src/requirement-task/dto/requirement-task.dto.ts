@@ -1,18 +1,26 @@
-import { TaskPriority, CodeLanguage, RequirementStatus } from '.prisma/client';
+import {
+  TaskPriority,
+  CodeLanguage,
+  RequirementStatus,
+  PipelineStage,
+} from '.prisma/client';
 import { Transform } from 'class-transformer';
+import { LlmUsageTotalsDto } from '@server/core/llm/dto/llm-usage.dto';
 
 export class RequirementRequestDto {
   projectId: string;
-  repositoryUrl: string;
-  branch: string;
+  // Settings below default to the ones of the project
+  repositoryUrl?: string;
+  branch?: string;
   requirementText: string;
   @Transform(({ value }) => (value ? value : TaskPriority.medium))
   priority?: TaskPriority;
   additionalContext?: Record<string, any>;
-  @Transform(({ value }) => (value ? value : CodeLanguage.typescript))
   language?: CodeLanguage;
   outputPath?: string;
   templateId?: string;
+  // IDs of tasks of the same project that must complete first
+  dependsOn?: string[];
 }
 
 export class RequirementResponseDto {
@@ -25,6 +33,7 @@ export class TaskStatusDto {
   taskId: string;
   status: RequirementStatus;
   progress: number;
+  attempts: number;
   details?: Record<string, any>;
   createdAt: string;
   updatedAt: string;
@@ -37,6 +46,8 @@ export class TaskStatusDto {
     requirementCoverageScore: number;
     syntaxValidityScore: number;
   }[];
+  // Token usage and cost of the LLM calls made for the task
+  usage?: LlmUsageTotalsDto;
 }
 
 export class QueueStatsDto {
@@ -49,9 +60,33 @@ export class QueueStatsDto {
   timestamp: string;
 }
 
+export type TaskSortField =
+  | 'created_at'
+  | 'priority'
+  | 'progress'
+  | 'quality_score';
+
 export class QueryRequirementTaskDto {
   projectId?: string;
   status?: RequirementStatus;
+  language?: CodeLanguage;
+  priority?: TaskPriority;
+  // ISO 8601 bounds of the creation date
+  createdFrom?: string;
+  createdTo?: string;
+  // Full-text search over the requirement text
+  search?: string;
+  sortBy?: TaskSortField;
+  sortOrder?: 'asc' | 'desc';
+  // ID of the last task of the previous page
+  cursor?: string;
+  limit?: number;
+}
+
+export class TaskListDto {
+  items: TaskStatusDto[];
+  // Cursor of the next page, absent on the last page
+  nextCursor?: string;
 }
 
 export class UpdateTaskStatusDto {
@@ -59,6 +94,24 @@ export class UpdateTaskStatusDto {
   status: RequirementStatus;
   progress: number;
   details: Record<string, any>;
+  stage?: PipelineStage;
+  model?: string;
+}
+
+export class RetryTaskDto {
+  taskId: string;
+  fromStage?: PipelineStage;
+}
+
+export class TaskEventDto {
+  id: string;
+  status: RequirementStatus;
+  stage?: PipelineStage;
+  progress: number;
+  model?: string;
+  message?: string;
+  payload?: Record<string, any>;
+  createdAt: string;
 }
 
 export class UpdateTaskQualityMetricsDto {
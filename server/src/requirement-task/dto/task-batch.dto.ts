@@ -0,0 +1,39 @@
+import { RequirementStatus } from '.prisma/client';
+import { RequirementRequestDto } from '@server/requirement-task/dto/requirement-task.dto';
+
+export type BacklogFormat = 'json' | 'csv' | 'markdown';
+
+// A batch item takes the same settings as a single task, the project
+// comes from the batch
+export type TaskBatchItemDto = Omit<RequirementRequestDto, 'projectId'>;
+
+// Request body of a batch submission, either JSON with the items or a
+// multipart form with an uploaded backlog file
+export class SubmitTaskBatchDto {
+  projectId: string;
+  items?: TaskBatchItemDto[];
+  // Format of the uploaded file, detected from its name when omitted
+  format?: BacklogFormat;
+}
+
+export class CreateTaskBatchDto {
+  projectId: string;
+  items: TaskBatchItemDto[];
+}
+
+export class TaskBatchStatusDto {
+  batchId: string;
+  projectId: string;
+  // Status rolled up from the member tasks
+  status: RequirementStatus;
+  // Average progress of the member tasks (0-1)
+  progress: number;
+  total: number;
+  counts: Record<RequirementStatus, number>;
+  tasks: {
+    taskId: string;
+    status: RequirementStatus;
+    progress: number;
+  }[];
+  createdAt: string;
+}
@@ -0,0 +1,41 @@
+import { RequirementStatus } from '.prisma/client';
+
+export class TaskDependencyNodeDto {
+  taskId: string;
+  status: RequirementStatus;
+  progress: number;
+  requirementText: string;
+  // IDs of the tasks this task waits for
+  dependsOn: string[];
+}
+
+export class TaskDependencyGraphDto {
+  taskId: string;
+  // The task, every task it transitively waits for and every task
+  // transitively waiting for it
+  nodes: TaskDependencyNodeDto[];
+  edges: {
+    taskId: string;
+    dependsOnId: string;
+  }[];
+}
+
+export class TaskReadinessDto {
+  // Every prerequisite completed
+  ready: boolean;
+  // Prerequisites that failed or were cancelled
+  blockedBy: {
+    taskId: string;
+    status: RequirementStatus;
+  }[];
+  // Prerequisites still pending, paused or in progress
+  waitingFor: string[];
+}
+
+export class PrerequisiteContextDto {
+  taskId: string;
+  requirementText: string;
+  commitHash?: string;
+  // Generated files of the prerequisite, keyed by path
+  files: Record<string, string>;
+}
@@ -0,0 +1,28 @@
+import { PipelineStage } from '.prisma/client';
+
+export type TaskStageOutputs = Partial<
+  Record<PipelineStage, Record<string, any>>
+>;
+
+export class StartTaskStageDto {
+  taskId: string;
+  stage: PipelineStage;
+  attempt: number;
+}
+
+export class CompleteTaskStageDto {
+  taskId: string;
+  stage: PipelineStage;
+  output: Record<string, any>;
+}
+
+export class FailTaskStageDto {
+  taskId: string;
+  stage: PipelineStage;
+  error: string;
+}
+
+export class ResetTaskStagesDto {
+  taskId: string;
+  fromStage: PipelineStage;
+}
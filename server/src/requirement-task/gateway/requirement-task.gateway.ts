@@ -0,0 +1,56 @@
+import { Inject, Logger } from '@nestjs/common';
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  OnGatewayInit,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { TaskStreamService } from '@server/requirement-task/service/task-stream.service';
+import { TASK_STREAM_SERVICE } from '@server/constants';
+
+/**
+ * Pushes live task events to WebSocket clients.
+ * Clients emit `subscribe` / `unsubscribe` with a task ID and receive
+ * `task.status`, `task.queue`, `task.llm-output` and `task.lifecycle`
+ * messages.
+ */
+@WebSocketGateway({ namespace: 'requirement-tasks', cors: { origin: true } })
+export class RequirementTaskGateway implements OnGatewayInit {
+  private readonly logger = new Logger(RequirementTaskGateway.name);
+
+  @WebSocketServer()
+  private server: Server;
+
+  constructor(
+    @Inject(TASK_STREAM_SERVICE)
+    private readonly taskStreamService: TaskStreamService,
+  ) {}
+
+  public afterInit() {
+    this.taskStreamService.watchAll().subscribe((event) => {
+      this.server.to(event.taskId).emit(event.type, event);
+    });
+  }
+
+  @SubscribeMessage('subscribe')
+  async subscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { taskId: string },
+  ): Promise<{ taskId: string; subscribed: boolean }> {
+    await client.join(body.taskId);
+    this.logger.debug(`Client ${client.id} subscribed to task ${body.taskId}`);
+    return { taskId: body.taskId, subscribed: true };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  async unsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { taskId: string },
+  ): Promise<{ taskId: string; subscribed: boolean }> {
+    await client.leave(body.taskId);
+    return { taskId: body.taskId, subscribed: false };
+  }
+}
@@ -5,14 +5,23 @@ import { ConfigModule } from '@nestjs/config';
 import { HttpModule } from '@nestjs/axios';
 import { PrismaModule } from '@server/core/prisma/prisma.module';
 import { RedisClientModule } from '@server/core/redis-client/redis-client.module';
+import { ProjectModule } from '@server/project/project.module';
+import { LLMModule } from '@server/core/llm/llm.module';
 import { RequirementQueueServiceImpl } from '@server/requirement-task/service/impl/requirement-queue-impl.service';
 import { RequirementTaskController } from '@server/requirement-task/controller/requirement-task.controller';
 import { redisConfig } from '@server/config/redis.config';
 import {
   REQUIREMENT_QUEUE_SERVICE,
   REQUIREMENT_TASK_SERVICE,
+  TASK_STAGE_SERVICE,
+  TASK_STREAM_SERVICE,
+  TASK_DEPENDENCY_SERVICE,
 } from '@server/constants';
 import { RequirementTaskServiceImpl } from './service/impl/requirement-task-impl.service';
+import { TaskStageServiceImpl } from './service/impl/task-stage-impl.service';
+import { TaskStreamServiceImpl } from './service/impl/task-stream-impl.service';
+import { TaskDependencyServiceImpl } from './service/impl/task-dependency-impl.service';
+import { RequirementTaskGateway } from './gateway/requirement-task.gateway';
 
 const providers = [
   {
@@ -23,17 +32,31 @@ const providers = [
     provide: REQUIREMENT_TASK_SERVICE,
     useClass: RequirementTaskServiceImpl,
   },
+  {
+    provide: TASK_STAGE_SERVICE,
+    useClass: TaskStageServiceImpl,
+  },
+  {
+    provide: TASK_STREAM_SERVICE,
+    useClass: TaskStreamServiceImpl,
+  },
+  {
+    provide: TASK_DEPENDENCY_SERVICE,
+    useClass: TaskDependencyServiceImpl,
+  },
 ];
 
 @Module({
   imports: [
     ConfigModule.forFeature(redisConfig),
     HttpModule,
+    LLMModule,
     PrismaModule,
+    ProjectModule,
     RedisClientModule,
   ],
   controllers: [RequirementTaskController],
-  providers: providers,
+  providers: [...providers, RequirementTaskGateway],
   exports: providers,
 })
 export class RequirementTaskModule {}
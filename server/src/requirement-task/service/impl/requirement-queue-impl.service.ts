@@ -1,16 +1,31 @@
 // src/requirement-task/services/requirement-queue.service.ts
 
 import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { Queue, Worker, Job } from 'bullmq';
 import { Cluster as RedisCluster } from 'ioredis';
 import { TaskPriority } from '.prisma/client';
 import {
   TaskJobStatus,
   TaskQueueStatus,
+  TaskProcessorFn,
   RequirementQueueService,
 } from '@server/requirement-task/service/requirement-queue.service';
+import { TaskEventType } from '@server/core/event/event';
+import { createTaskStreamEvent } from '@server/core/event/task-stream.event';
 import { REDIS_REPOSITORY } from '@server/constants';
 
+// Redis channel used to broadcast task aborts to every instance
+const TASK_ABORT_CHANNEL = 'requirement-processing:abort';
+
+// Job states in which a job has not been picked up by a worker yet
+const PENDING_JOB_STATES = [
+  'waiting',
+  'delayed',
+  'prioritized',
+  'waiting-children',
+];
+
 @Injectable()
 export class RequirementQueueServiceImpl
   implements OnModuleInit, RequirementQueueService
@@ -18,10 +33,16 @@ export class RequirementQueueServiceImpl
   private readonly logger = new Logger(RequirementQueueServiceImpl.name);
   private requirementQueue: Queue;
   private worker: Worker;
+  private taskProcessor: TaskProcessorFn;
+  private abortSubscriber: RedisCluster;
+  // Abort controllers of the jobs running on this instance, keyed by task ID
+  private readonly abortControllers = new Map<string, AbortController>();
 
   constructor(
     @Inject(REDIS_REPOSITORY)
     private readonly redisRepository: RedisCluster,
+
+    private readonly eventEmitter: EventEmitter2,
   ) {}
 
   public async onModuleInit() {
@@ -41,43 +62,93 @@ export class RequirementQueueServiceImpl
       },
     });
 
-    // Initialize worker for processing tasks
+    // Initialize worker for processing tasks. The worker only starts pulling
+    // jobs once a task processor has been registered.
     this.worker = new Worker(
       'requirement-processing',
       async (job: Job) => {
-        // The worker will emit an event that the processor function will handle
         this.logger.log(`Processing job ${job.id} for task ${job.data.taskId}`);
-        return job.data; // Return the data to be handled by the processor
+
+        if (!this.taskProcessor) {
+          throw new Error('No task processor registered');
+        }
+
+        const taskId: string = job.data.taskId;
+        const abortController = new AbortController();
+        this.abortControllers.set(taskId, abortController);
+
+        try {
+          // Errors thrown here fail the job, so BullMQ retries cover real failures
+          return await this.taskProcessor({
+            taskId,
+            attempt: job.attemptsMade + 1,
+            maxAttempts: job.opts.attempts || 1,
+            signal: abortController.signal,
+            reportProgress: (progress: number) => job.updateProgress(progress),
+          });
+        } finally {
+          this.abortControllers.delete(taskId);
+        }
       },
       {
         connection: this.redisRepository,
         concurrency: parseInt(process.env.MAX_CONCURRENT_TASKS || '5'),
-        autorun: true,
+        autorun: false,
       },
     );
 
     // Set up event handlers for the worker
     this.worker.on('completed', (job) => {
       this.logger.log(`Job ${job.id} completed successfully`);
+      this.emitQueueEvent(job.data.taskId, 'completed');
     });
 
     this.worker.on('failed', (job, err) => {
       this.logger.error(`Job ${job?.id} failed with error: ${err.message}`);
+      if (job) {
+        this.emitQueueEvent(job.data.taskId, 'failed', {
+          error: err.message,
+          attemptsMade: job.attemptsMade,
+        });
+      }
     });
 
     this.worker.on('active', (job) => {
       this.logger.log(`Job ${job.id} has started processing`);
+      this.emitQueueEvent(job.data.taskId, 'active', {
+        attempt: job.attemptsMade + 1,
+      });
+    });
+
+    this.worker.on('progress', (job, progress) => {
+      this.emitQueueEvent(job.data.taskId, 'active', { progress });
     });
 
     this.worker.on('stalled', (jobId) => {
       this.logger.warn(`Job ${jobId} has been stalled`);
+      // Job IDs are task IDs
+      this.emitQueueEvent(jobId, 'stalled');
+    });
+
+    // Listen for aborts requested on any instance
+    this.abortSubscriber = this.redisRepository.duplicate();
+    this.abortSubscriber.on('message', (channel: string, taskId: string) => {
+      if (channel === TASK_ABORT_CHANNEL) {
+        this.abortLocalTask(taskId);
+      }
     });
+    await this.abortSubscriber.subscribe(TASK_ABORT_CHANNEL);
+
+    if (this.taskProcessor) {
+      this.startWorker();
+    }
 
     this.logger.log('Requirement Queue Service initialized');
   }
 
   /**
-   * Add a requirement task to the processing queue
+   * Add a requirement task to the processing queue.
+   * Re-adding a finished task queues it again so it resumes from its last completed stage.
    * @param taskId The ID of the task to process
    * @param priority Priority level for the task
    * @returns Job ID
@@ -86,6 +157,18 @@ export class RequirementQueueServiceImpl
     taskId: string,
     priority: TaskPriority = TaskPriority.medium,
   ): Promise<string> {
+    // The task ID doubles as the job ID, so a finished job has to be removed
+    // before the task can be queued again
+    const existingJob = await this.requirementQueue.getJob(taskId);
+    if (existingJob) {
+      const state = await existingJob.getState();
+      if (state !== 'completed' && state !== 'failed') {
+        this.logger.log(`Task ${taskId} is already queued (${state})`);
+        return existingJob.id;
+      }
+      await existingJob.remove();
+    }
+
     const job = await this.requirementQueue.add(
       'process-requirement',
       { taskId },
@@ -96,9 +179,41 @@ export class RequirementQueueServiceImpl
     );
 
     this.logger.log(`Task ${taskId} added to queue with job ID: ${job.id}`);
+    this.emitQueueEvent(taskId, 'waiting');
     return job.id;
   }
 
+  /**
+   * Remove a task from the queue if it has not started yet
+   * @param taskId The ID of the task
+   * @returns Whether a job was removed
+   */
+  public async removeTask(taskId: string): Promise<boolean> {
+    const job = await this.requirementQueue.getJob(taskId);
+    if (!job) {
+      return false;
+    }
+
+    const state = await job.getState();
+    if (!PENDING_JOB_STATES.includes(state)) {
+      return false;
+    }
+
+    await job.remove();
+    this.logger.log(`Task ${taskId} removed from queue (${state})`);
+    this.emitQueueEvent(taskId, 'removed');
+    return true;
+  }
+
+  /**
+   * Abort a running task on whichever instance is processing it
+   * @param taskId The ID of the task
+   */
+  public async abortTask(taskId: string): Promise<void> {
+    this.abortLocalTask(taskId);
+    await this.redisRepository.publish(TASK_ABORT_CHANNEL, taskId);
+  }
+
   /**
    * Get the status of a job in the queue
    * @param jobId The ID of the job
@@ -114,26 +229,39 @@ export class RequirementQueueServiceImpl
     const state = await job.getState();
     return {
       state,
-      progress: job.progress,
+      progress: typeof job.progress === 'number' ? job.progress : undefined,
     };
   }
 
   /**
-   * Register a processor function to handle completed jobs
+   * Get the status of several jobs. Each job is looked up on its own, as
+   * the queue keys have no hash tag and may live on different cluster nodes.
+   * @param jobIds The IDs of the jobs
+   * @returns Job statuses keyed by job ID
+   */
+  public async getJobStatuses(
+    jobIds: string[],
+  ): Promise<Record<string, TaskJobStatus>> {
+    const statuses = await Promise.all(
+      jobIds.map((jobId) => this.getJobStatus(jobId)),
+    );
+
+    return jobIds.reduce((result, jobId, index) => {
+      result[jobId] = statuses[index];
+      return result;
+    }, {} as Record<string, TaskJobStatus>);
+  }
+
+  /**
+   * Register the processor function that runs inside each job
    * @param processorFn The function to process tasks
    */
-  public registerTaskProcessor(
-    processorFn: (taskId: string) => Promise<void>,
-  ): void {
-    this.worker.on('completed', async (job) => {
-      try {
-        await processorFn(job.data.taskId);
-      } catch (error) {
-        this.logger.error(
-          `Error in task processor for task ${job.data.taskId}: ${error.message}`,
-        );
-      }
-    });
+  public registerTaskProcessor(processorFn: TaskProcessorFn): void {
+    this.taskProcessor = processorFn;
+
+    if (this.worker) {
+      this.startWorker();
+    }
 
     this.logger.log('Task processor registered');
   }
@@ -173,6 +301,51 @@ export class RequirementQueueServiceImpl
     this.logger.log(`Queue cleaned with grace period of ${grace} seconds`);
   }
 
+  /**
+   * Start pulling jobs from the queue if the worker is not running yet
+   * @private
+   */
+  private startWorker(): void {
+    if (this.worker.isRunning()) {
+      return;
+    }
+
+    this.worker.run().catch((error) => {
+      this.logger.error(`Requirement worker stopped: ${error.message}`);
+    });
+  }
+
+  /**
+   * Abort the task if it is running on this instance
+   * @param taskId The ID of the task
+   * @private
+   */
+  private abortLocalTask(taskId: string): void {
+    const abortController = this.abortControllers.get(taskId);
+    if (abortController && !abortController.signal.aborted) {
+      abortController.abort();
+      this.logger.warn(`Task ${taskId} aborted`);
+    }
+  }
+
+  /**
+   * Notify live subscribers about a queue state change
+   * @param taskId The ID of the task
+   * @param state New queue state
+   * @param data Additional data
+   * @private
+   */
+  private emitQueueEvent(
+    taskId: string,
+    state: string,
+    data: Record<string, any> = {},
+  ): void {
+    this.eventEmitter.emit(
+      TaskEventType.QUEUE,
+      createTaskStreamEvent(taskId, TaskEventType.QUEUE, { state, ...data }),
+    );
+  }
+
   /**
    * Convert priority string to numeric value for queue
    * @param priority Priority level
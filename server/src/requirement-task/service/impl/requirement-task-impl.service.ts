@@ -1,9 +1,29 @@
 // src/requirement-task/services/requirement-task.service.ts
 
 import { Injectable, Logger, Inject } from '@nestjs/common';
-import { PrismaClient, RequirementStatus } from '.prisma/client';
+import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
+import {
+  Prisma,
+  PrismaClient,
+  PipelineStage,
+  RequirementStatus,
+  RequirementTask,
+  TaskLifecycleEvent,
+  TaskPriority,
+} from '.prisma/client';
 import { RequirementTaskService } from '@server/requirement-task/service/requirement-task.service';
 import { RequirementQueueService } from '@server/requirement-task/service/requirement-queue.service';
+import { TaskStageService } from '@server/requirement-task/service/task-stage.service';
+import { TaskDependencyService } from '@server/requirement-task/service/task-dependency.service';
+import { ProjectService } from '@server/project/service/project.service';
+import { LLMRetryDto } from '@server/core/llm/dto/llm.dto';
+import { LlmUsageService } from '@server/core/llm/service/llm-usage.service';
+import { LlmUsageSummaryDto } from '@server/core/llm/dto/llm-usage.dto';
+import { TaskEventType } from '@server/core/event/event';
+import {
+  TaskStreamEvent,
+  createTaskStreamEvent,
+} from '@server/core/event/task-stream.event';
 import {
   RequirementRequestDto,
   RequirementResponseDto,
@@ -11,12 +31,61 @@ import {
   UpdateTaskStatusDto,
   UpdateTaskQualityMetricsDto,
   TaskStatusDto,
+  TaskListDto,
+  TaskSortField,
+  TaskEventDto,
+  RetryTaskDto,
 } from '@server/requirement-task/dto/requirement-task.dto';
+import {
+  CreateTaskBatchDto,
+  TaskBatchStatusDto,
+} from '@server/requirement-task/dto/task-batch.dto';
+import { validateBacklogItems } from '@server/core/utils/backlog-parser';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@server/core/error';
 import {
   PRISMA_REPOSITORY,
   REQUIREMENT_QUEUE_SERVICE,
+  TASK_STAGE_SERVICE,
+  TASK_DEPENDENCY_SERVICE,
+  PROJECT_SERVICE,
+  LLM_USAGE_SERVICE,
 } from '@server/constants';
 
+// Statuses set by users that the pipeline must not overwrite
+const INTERRUPTED_STATUSES: RequirementStatus[] = [
+  RequirementStatus.paused,
+  RequirementStatus.cancelled,
+];
+
+const TASK_SORT_FIELDS: TaskSortField[] = [
+  'created_at',
+  'priority',
+  'progress',
+  'quality_score',
+];
+
+// Statuses after which a task no longer progresses
+const FINISHED_STATUSES: RequirementStatus[] = [
+  RequirementStatus.completed,
+  RequirementStatus.failed,
+  RequirementStatus.cancelled,
+];
+
+const MAX_BATCH_SIZE = 200;
+
+// Creating a large batch takes longer than the default transaction timeout
+const BATCH_TRANSACTION_TIMEOUT = 30000;
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 @Injectable()
 export class RequirementTaskServiceImpl implements RequirementTaskService {
   private readonly logger = new Logger(RequirementTaskServiceImpl.name);
@@ -27,15 +96,26 @@ export class RequirementTaskServiceImpl implements RequirementTaskService {
 
     @Inject(REQUIREMENT_QUEUE_SERVICE)
     private requirementQueueService: RequirementQueueService,
-  ) {
-    // Register the task processor with the queue service
-    this.requirementQueueService.registerTaskProcessor(
-      this.processRequirementTask.bind(this),
-    );
-  }
+
+    @Inject(TASK_STAGE_SERVICE)
+    private taskStageService: TaskStageService,
+
+    @Inject(TASK_DEPENDENCY_SERVICE)
+    private taskDependencyService: TaskDependencyService,
+
+    @Inject(PROJECT_SERVICE)
+    private projectService: ProjectService,
+
+    @Inject(LLM_USAGE_SERVICE)
+    private llmUsageService: LlmUsageService,
+
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
 
   /**
-   * Create a new requirement task and queue it for processing
+   * Create a new requirement task and queue it for processing.
+   * Settings omitted from the request fall back to the project defaults,
+   * a task with prerequisites is only queued once they all completed.
    * @param requirement The requirement details
    * @returns Task ID and status
    */
@@ -46,33 +126,221 @@ export class RequirementTaskServiceImpl implements RequirementTaskService {
       `Creating new requirement task for project ${requirement.projectId}`,
     );
 
-    return this.prismaRepository.$transaction(async (tx) => {
+    const project = await this.projectService.getProject(requirement.projectId);
+    const dependsOn = [...new Set(requirement.dependsOn || [])];
+    if (dependsOn.length > 0) {
+      await this.taskDependencyService.validatePrerequisites(
+        project.id,
+        dependsOn,
+      );
+    }
+    const message =
+      dependsOn.length > 0
+        ? 'Task created and waiting for its prerequisites'
+        : 'Task created and queued for processing';
+
+    const response = await this.prismaRepository.$transaction(async (tx) => {
       // Create a new task record in the database
       const task = await tx.requirementTask.create({
         data: {
-          project_id: requirement.projectId,
-          repository_url: requirement.repositoryUrl,
-          branch: requirement.branch,
+          project_id: project.id,
+          repository_url: requirement.repositoryUrl || project.repositoryUrl,
+          branch: requirement.branch || project.defaultBranch,
           requirement_text: requirement.requirementText,
           priority: requirement.priority,
           additional_context: requirement.additionalContext,
-          language: requirement.language,
-          output_path: requirement.outputPath,
+          language: requirement.language || project.language,
+          output_path: requirement.outputPath || project.outputPath,
           status: RequirementStatus.pending,
           progress: 0,
-          details: { message: 'Task created and queued for processing' },
+          details: { message, dependsOn },
+          dependencies: {
+            create: dependsOn.map((taskId) => ({ depends_on_id: taskId })),
+          },
         },
       });
 
-      // Add the task to the processing queue
-      await this.requirementQueueService.addTask(task.id, requirement.priority);
+      await tx.taskEvent.create({
+        data: {
+          task_id: task.id,
+          status: RequirementStatus.pending,
+          progress: 0,
+          message,
+        },
+      });
 
       return {
         taskId: task.id,
         status: RequirementStatus.pending,
-        message: 'Requirement task created and queued for processing',
+        message:
+          dependsOn.length > 0
+            ? 'Requirement task created and waiting for its prerequisites'
+            : 'Requirement task created and queued for processing',
       };
     });
+
+    this.emitLifecycle(response.taskId, TaskLifecycleEvent.task_created, {
+      projectId: project.id,
+      repositoryUrl: requirement.repositoryUrl || project.repositoryUrl,
+      branch: requirement.branch || project.defaultBranch,
+      dependsOn,
+    });
+
+    // The task is queued once committed, so that no worker picks it up
+    // before it can be read, and a completing prerequisite sees it
+    if (dependsOn.length > 0) {
+      await this.enqueueWhenReady(response.taskId, requirement.priority);
+    } else {
+      await this.requirementQueueService.addTask(
+        response.taskId,
+        requirement.priority,
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Create every task of a batch in a single transaction, then queue them
+   * with their priorities. Items fall back to the project defaults.
+   * @param dto Project ID and batch items
+   * @returns Batch ID and aggregate status
+   */
+  public async createTaskBatch(
+    dto: CreateTaskBatchDto,
+  ): Promise<TaskBatchStatusDto> {
+    const items = validateBacklogItems(dto.items);
+    if (items.length > MAX_BATCH_SIZE) {
+      throw new ValidationError(
+        `A batch holds at most ${MAX_BATCH_SIZE} items, got ${items.length}`,
+      );
+    }
+
+    const project = await this.projectService.getProject(dto.projectId);
+    for (const item of items) {
+      if (item.dependsOn?.length > 0) {
+        await this.taskDependencyService.validatePrerequisites(
+          project.id,
+          item.dependsOn,
+        );
+      }
+    }
+
+    const { batchId, tasks } = await this.prismaRepository.$transaction(
+      async (tx) => {
+        const batch = await tx.taskBatch.create({
+          data: { project_id: project.id },
+        });
+
+        const tasks: RequirementTask[] = [];
+        for (const item of items) {
+          const task = await tx.requirementTask.create({
+            data: {
+              project_id: project.id,
+              batch_id: batch.id,
+              repository_url: item.repositoryUrl || project.repositoryUrl,
+              branch: item.branch || project.defaultBranch,
+              requirement_text: item.requirementText,
+              priority: item.priority,
+              additional_context: item.additionalContext,
+              language: item.language || project.language,
+              output_path: item.outputPath || project.outputPath,
+              status: RequirementStatus.pending,
+              progress: 0,
+              details: { message: `Task created in batch ${batch.id}` },
+              dependencies: {
+                create: [...new Set(item.dependsOn || [])].map((taskId) => ({
+                  depends_on_id: taskId,
+                })),
+              },
+            },
+          });
+          tasks.push(task);
+        }
+
+        await tx.taskEvent.createMany({
+          data: tasks.map((task) => ({
+            task_id: task.id,
+            status: RequirementStatus.pending,
+            progress: 0,
+            message: `Task created in batch ${batch.id}`,
+          })),
+        });
+
+        return { batchId: batch.id, tasks };
+      },
+      { timeout: BATCH_TRANSACTION_TIMEOUT },
+    );
+
+    // Tasks are queued once committed, so that no worker picks up a task
+    // that could still be rolled back. Tasks with prerequisites keep waiting.
+    for (const task of tasks) {
+      await this.enqueueWhenReady(task.id, task.priority);
+      this.emitLifecycle(task.id, TaskLifecycleEvent.task_created, {
+        projectId: project.id,
+        batchId,
+        repositoryUrl: task.repository_url,
+        branch: task.branch,
+      });
+    }
+
+    this.logger.log(
+      `Created batch ${batchId} with ${tasks.length} tasks for project ${project.id}`,
+    );
+    return this.getTaskBatchStatus(batchId);
+  }
+
+  /**
+   * Get the status of a batch rolled up from its member tasks
+   * @param batchId Batch ID
+   * @returns Aggregate status, progress and per-task status
+   */
+  public async getTaskBatchStatus(
+    batchId: string,
+  ): Promise<TaskBatchStatusDto> {
+    if (!UUID_PATTERN.test(batchId)) {
+      throw new NotFoundError(`Batch with ID ${batchId} not found`);
+    }
+
+    const batch = await this.prismaRepository.taskBatch.findUnique({
+      where: { id: batchId },
+      include: {
+        tasks: {
+          select: { id: true, status: true, progress: true },
+          orderBy: { created_at: 'asc' },
+        },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundError(`Batch with ID ${batchId} not found`);
+    }
+
+    const counts = Object.values(RequirementStatus).reduce(
+      (result, status) => ({ ...result, [status]: 0 }),
+      {} as Record<RequirementStatus, number>,
+    );
+    batch.tasks.forEach((task) => counts[task.status]++);
+
+    const total = batch.tasks.length;
+    const progress =
+      total > 0
+        ? batch.tasks.reduce((sum, task) => sum + task.progress, 0) / total
+        : 0;
+
+    return {
+      batchId: batch.id,
+      projectId: batch.project_id,
+      status: this.rollUpBatchStatus(counts, total),
+      progress,
+      total,
+      counts,
+      tasks: batch.tasks.map((task) => ({
+        taskId: task.id,
+        status: task.status,
+        progress: task.progress,
+      })),
+      createdAt: batch.created_at.toISOString(),
+    };
   }
 
   /**
@@ -93,14 +361,18 @@ export class RequirementTaskServiceImpl implements RequirementTaskService {
       throw new Error(`Task with ID ${taskId} not found`);
     }
 
-    // 取得佇列狀態資訊
-    const queueInfo = await this.requirementQueueService.getJobStatus(taskId);
+    // 取得佇列狀態資訊與 LLM 用量
+    const [queueInfo, usage] = await Promise.all([
+      this.requirementQueueService.getJobStatus(taskId),
+      this.llmUsageService.getTaskTotals([taskId]),
+    ]);
 
     // 組合回應資料
     const response: TaskStatusDto = {
       taskId: task.id,
       status: task.status,
       progress: task.progress,
+      attempts: task.attempts,
       details:
         typeof task.details === 'string'
           ? JSON.parse(task.details)
@@ -116,85 +388,377 @@ export class RequirementTaskServiceImpl implements RequirementTaskService {
         requirementCoverageScore: m.requirement_coverage_score,
         syntaxValidityScore: m.syntax_validity_score,
       })),
+      usage: usage[taskId],
     };
 
     return response;
   }
 
   /**
-   * List all requirement tasks with optional filtering
-   * @param projectId Optional project ID filter
-   * @param status Optional status filter
-   * @returns Array of tasks
+   * List requirement tasks page by page, with filters, sorting and
+   * full-text search over the requirement text
+   * @param dto Filters, sorting and page cursor
+   * @returns Page of tasks and the cursor of the next page
    */
-  public async listTasks(
-    dto: QueryRequirementTaskDto,
-  ): Promise<TaskStatusDto[]> {
-    // 取得任務列表，同時包含品質指標
-    const tasks = await this.prismaRepository.requirementTask.findMany({
-      where: {
-        project_id: dto.projectId,
-        status: dto.status,
+  public async listTasks(dto: QueryRequirementTaskDto): Promise<TaskListDto> {
+    const {
+      sortBy = 'created_at',
+      sortOrder = 'desc',
+      limit = DEFAULT_PAGE_SIZE,
+      cursor,
+    } = dto;
+
+    if (!TASK_SORT_FIELDS.includes(sortBy)) {
+      throw new ValidationError(
+        `sortBy must be one of ${TASK_SORT_FIELDS.join(', ')}`,
+      );
+    }
+    if (!['asc', 'desc'].includes(sortOrder)) {
+      throw new ValidationError("sortOrder must be 'asc' or 'desc'");
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new ValidationError(
+        `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+    if (cursor && !UUID_PATTERN.test(cursor)) {
+      throw new ValidationError(`Invalid cursor '${cursor}'`);
+    }
+
+    const searchQuery = this.toSearchQuery(dto.search);
+    const where: Prisma.RequirementTaskWhereInput = {
+      project_id: dto.projectId,
+      status: dto.status,
+      language: dto.language,
+      priority: dto.priority,
+      created_at: {
+        gte: this.parseDate(dto.createdFrom, 'createdFrom'),
+        lte: this.parseDate(dto.createdTo, 'createdTo'),
       },
-      orderBy: { created_at: 'desc' },
+      id: searchQuery
+        ? { in: await this.findMatchingTaskIds(searchQuery, dto.projectId) }
+        : undefined,
+    };
+
+    // One extra task tells whether a next page exists, the ID breaks ties
+    // between tasks sharing the same sort value
+    const tasks = await this.prismaRepository.requirementTask.findMany({
+      where,
+      orderBy: [
+        sortBy === 'quality_score'
+          ? { quality_score: { sort: sortOrder, nulls: 'last' } }
+          : { [sortBy]: sortOrder },
+        { id: sortOrder },
+      ],
+      cursor: cursor ? { id: cursor } : undefined,
+      skip: cursor ? 1 : 0,
+      take: limit + 1,
       include: {
         metrics: true,
       },
     });
 
+    const page = tasks.slice(0, limit);
+    const pageIds = page.map((task) => task.id);
+    const [queueInfos, usages] = await Promise.all([
+      this.requirementQueueService.getJobStatuses(pageIds),
+      this.llmUsageService.getTaskTotals(pageIds),
+    ]);
+
     // 轉換為 DTO 格式
-    return Promise.all(
-      tasks.map(async (task) => {
-        const queueInfo = await this.requirementQueueService.getJobStatus(
-          task.id,
-        );
-        const taskDto: TaskStatusDto = {
-          taskId: task.id,
-          status: task.status,
-          progress: task.progress,
-          details: task.details as Record<string, any>,
-          createdAt: task.created_at.toISOString(),
-          updatedAt: task.updated_at.toISOString(),
-          queueInfo: {
-            state: queueInfo.state,
-            progress: queueInfo.progress,
-          },
-          qualityMetrics: task.metrics.map((m) => ({
-            codeQualityScore: m.code_quality_score,
-            requirementCoverageScore: m.requirement_coverage_score,
-            syntaxValidityScore: m.syntax_validity_score,
-          })),
-        };
+    const items = page.map((task) => {
+      const queueInfo = queueInfos[task.id];
+      const taskDto: TaskStatusDto = {
+        taskId: task.id,
+        status: task.status,
+        progress: task.progress,
+        attempts: task.attempts,
+        details: task.details as Record<string, any>,
+        createdAt: task.created_at.toISOString(),
+        updatedAt: task.updated_at.toISOString(),
+        queueInfo: {
+          state: queueInfo.state,
+          progress: queueInfo.progress,
+        },
+        qualityMetrics: task.metrics.map((m) => ({
+          codeQualityScore: m.code_quality_score,
+          requirementCoverageScore: m.requirement_coverage_score,
+          syntaxValidityScore: m.syntax_validity_score,
+        })),
+        usage: usages[task.id],
+      };
 
-        return taskDto;
-      }),
-    );
+      return taskDto;
+    });
+
+    return {
+      items,
+      nextCursor: tasks.length > limit ? page[page.length - 1].id : undefined,
+    };
   }
 
   /**
-   * Update the status of a task
+   * Update the status of a task and append it to the task timeline.
+   * Paused and cancelled tasks are left untouched.
    * @param taskId Task ID
    * @param status New status
    * @param progress Progress percentage (0-1)
    * @param details Additional details
+   * @param stage Pipeline stage the update belongs to
+   * @param model LLM model involved in the update
    */
   public async updateTaskStatus(dto: UpdateTaskStatusDto): Promise<void> {
-    const { taskId, status, progress, details } = dto;
-    await this.prismaRepository.requirementTask.update({
-      where: { id: taskId },
-      data: {
-        status,
-        progress,
-        details,
-        updated_at: new Date(),
-      },
+    const { taskId, status, progress, details, stage, model } = dto;
+    const updated = await this.prismaRepository.$transaction(async (tx) => {
+      const { count } = await tx.requirementTask.updateMany({
+        where: { id: taskId, status: { notIn: INTERRUPTED_STATUSES } },
+        data: {
+          status,
+          progress,
+          details,
+          updated_at: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        return false;
+      }
+
+      await tx.taskEvent.create({
+        data: {
+          task_id: taskId,
+          status,
+          stage,
+          progress,
+          model,
+          message: details?.message ?? details?.error,
+          payload: details,
+        },
+      });
+
+      return true;
     });
 
+    if (!updated) {
+      this.logger.warn(
+        `Task ${taskId} is missing or interrupted, status ${status} ignored`,
+      );
+      return;
+    }
+
+    this.emitStatus(taskId, { status, progress, stage, model, details });
     this.logger.log(
       `Updated task ${taskId} status to ${status} with progress ${progress}`,
     );
   }
 
+  /**
+   * Get every status transition of a task in chronological order
+   * @param taskId Task ID
+   * @returns Task timeline
+   */
+  public async getTaskTimeline(taskId: string): Promise<TaskEventDto[]> {
+    const task = await this.prismaRepository.requirementTask.findUnique({
+      where: { id: taskId },
+      include: {
+        events: { orderBy: { created_at: 'asc' } },
+      },
+    });
+
+    if (!task) {
+      throw new NotFoundError(`Task with ID ${taskId} not found`);
+    }
+
+    return task.events.map((event) => ({
+      id: event.id,
+      status: event.status,
+      stage: event.stage ?? undefined,
+      progress: event.progress,
+      model: event.model ?? undefined,
+      message: event.message ?? undefined,
+      payload: event.payload as Record<string, any>,
+      createdAt: event.created_at.toISOString(),
+    }));
+  }
+
+  /**
+   * Get the token usage and cost of a task, per provider and model
+   * @param taskId Task ID
+   */
+  public async getTaskUsage(taskId: string): Promise<LlmUsageSummaryDto> {
+    await this.findTaskOrFail(taskId);
+    return this.llmUsageService.getTaskUsage(taskId);
+  }
+
+  /**
+   * Cancel a task. Waiting jobs are removed from the queue and running
+   * jobs are aborted, including in-flight LLM calls.
+   * @param taskId Task ID
+   * @returns Task ID and new status
+   */
+  public async cancelTask(taskId: string): Promise<RequirementResponseDto> {
+    const task = await this.findTaskOrFail(taskId);
+    const cancellable: RequirementStatus[] = [
+      RequirementStatus.pending,
+      RequirementStatus.in_progress,
+      RequirementStatus.paused,
+    ];
+
+    if (!cancellable.includes(task.status)) {
+      throw new ConflictError(
+        `Task with ID ${taskId} is ${task.status} and cannot be cancelled`,
+      );
+    }
+
+    await this.setControlStatus(
+      task,
+      RequirementStatus.cancelled,
+      'Task cancelled',
+    );
+    await this.requirementQueueService.removeTask(taskId);
+    await this.requirementQueueService.abortTask(taskId);
+    this.emitLifecycle(taskId, TaskLifecycleEvent.task_cancelled, {
+      previousStatus: task.status,
+    });
+
+    return {
+      taskId,
+      status: RequirementStatus.cancelled,
+      message: 'Requirement task cancelled',
+    };
+  }
+
+  /**
+   * Pause a task. Waiting jobs are removed from the queue, running jobs
+   * stop once their current stage completes.
+   * @param taskId Task ID
+   * @returns Task ID and new status
+   */
+  public async pauseTask(taskId: string): Promise<RequirementResponseDto> {
+    const task = await this.findTaskOrFail(taskId);
+    const pausable: RequirementStatus[] = [
+      RequirementStatus.pending,
+      RequirementStatus.in_progress,
+    ];
+
+    if (!pausable.includes(task.status)) {
+      throw new ConflictError(
+        `Task with ID ${taskId} is ${task.status} and cannot be paused`,
+      );
+    }
+
+    await this.setControlStatus(task, RequirementStatus.paused, 'Task paused');
+    await this.requirementQueueService.removeTask(taskId);
+
+    return {
+      taskId,
+      status: RequirementStatus.paused,
+      message: 'Requirement task paused',
+    };
+  }
+
+  /**
+   * Resume a paused task from its last completed stage
+   * @param taskId Task ID
+   * @returns Task ID and new status
+   */
+  public async resumeTask(taskId: string): Promise<RequirementResponseDto> {
+    const task = await this.findTaskOrFail(taskId);
+
+    if (task.status !== RequirementStatus.paused) {
+      throw new ConflictError(
+        `Task with ID ${taskId} is ${task.status} and cannot be resumed`,
+      );
+    }
+
+    await this.setControlStatus(
+      task,
+      RequirementStatus.pending,
+      'Task resumed and queued for processing',
+    );
+    await this.enqueueWhenReady(taskId, task.priority);
+
+    return {
+      taskId,
+      status: RequirementStatus.pending,
+      message: 'Requirement task resumed and queued for processing',
+    };
+  }
+
+  /**
+   * Retry a failed or cancelled task. Stages before `fromStage` reuse their
+   * persisted outputs, without `fromStage` the task resumes after its last
+   * completed stage.
+   * @param taskId Task ID
+   * @param fromStage First stage to run again
+   * @returns Task ID and new status
+   */
+  public async retryTask(dto: RetryTaskDto): Promise<RequirementResponseDto> {
+    const { taskId, fromStage } = dto;
+
+    if (fromStage && !Object.values(PipelineStage).includes(fromStage)) {
+      throw new ValidationError(`Unknown pipeline stage '${fromStage}'`);
+    }
+
+    const task = await this.findTaskOrFail(taskId);
+    const retryable: RequirementStatus[] = [
+      RequirementStatus.failed,
+      RequirementStatus.cancelled,
+    ];
+
+    if (!retryable.includes(task.status)) {
+      throw new ConflictError(
+        `Task with ID ${taskId} is ${task.status} and cannot be retried`,
+      );
+    }
+
+    if (fromStage) {
+      await this.taskStageService.resetStages({ taskId, fromStage });
+    }
+
+    const attempts = task.attempts + 1;
+    const message = fromStage
+      ? `Task retried from stage ${fromStage}`
+      : 'Task retried from the last completed stage';
+
+    await this.prismaRepository.$transaction([
+      this.prismaRepository.requirementTask.update({
+        where: { id: taskId },
+        data: {
+          status: RequirementStatus.pending,
+          progress: 0,
+          attempts,
+          details: { message, fromStage, attempts },
+          updated_at: new Date(),
+        },
+      }),
+      this.prismaRepository.taskEvent.create({
+        data: {
+          task_id: taskId,
+          status: RequirementStatus.pending,
+          stage: fromStage,
+          progress: 0,
+          message,
+          payload: { fromStage, attempts },
+        },
+      }),
+    ]);
+    this.emitStatus(taskId, {
+      status: RequirementStatus.pending,
+      progress: 0,
+      stage: fromStage,
+      details: { message, fromStage, attempts },
+    });
+    await this.enqueueWhenReady(taskId, task.priority);
+
+    this.logger.log(`Task ${taskId} queued for attempt ${attempts}`);
+    return {
+      taskId,
+      status: RequirementStatus.pending,
+      message: `Requirement task queued for retry (attempt ${attempts})`,
+    };
+  }
+
   /**
    * Add or update quality metrics for a task
    * @param taskId Task ID
@@ -247,29 +811,298 @@ export class RequirementTaskServiceImpl implements RequirementTaskService {
       });
     }
 
+    await this.prismaRepository.requirementTask.update({
+      where: { id: taskId },
+      data: { quality_score: codeQualityScore },
+    });
+
     this.logger.log(`Updated quality metrics for task ${taskId}`);
   }
 
   /**
-   * Process a requirement task (to be called by the queue worker)
-   * This method will be called when the queue worker picks up a task
-   * @param taskId Task ID to process
+   * Add the LLM request retries of a task to its timeline, keeping the
+   * current status and progress
+   * @param event Retry event
    */
-  private async processRequirementTask(taskId: string): Promise<void> {
-    // This method is registered with the queue service and will be called
-    // when a task is ready to be processed. This is where you would integrate
-    // with the CodeGenerationService to handle the actual processing.
+  @OnEvent(TaskEventType.LLM_RETRY)
+  public async handleLlmRetryEvent(
+    event: TaskStreamEvent<LLMRetryDto>,
+  ): Promise<void> {
+    const { provider, model, attempt, maxRetries, delayMs, reason } =
+      event.data;
 
-    this.logger.log(`Received task ${taskId} for processing from queue`);
+    try {
+      const task = await this.prismaRepository.requirementTask.findUnique({
+        where: { id: event.taskId },
+        select: { status: true, progress: true },
+      });
+      if (!task) {
+        return;
+      }
 
-    // For now, we'll just update the status to show it's been received
-    await this.updateTaskStatus({
-      taskId,
-      status: RequirementStatus.in_progress,
-      progress: 0.1,
-      details: { message: 'Task received from queue and is being processed' },
+      await this.prismaRepository.taskEvent.create({
+        data: {
+          task_id: event.taskId,
+          status: task.status,
+          progress: task.progress,
+          model,
+          message: `${provider} request failed (${reason}), retry ${attempt}/${maxRetries} in ${delayMs}ms`,
+          payload: { ...event.data },
+        },
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to record the LLM retry of task ${event.taskId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Release or block the pending tasks waiting for a task once it finished
+   * @param event Task status event
+   */
+  @OnEvent(TaskEventType.STATUS)
+  public async handleTaskStatusEvent(event: TaskStreamEvent): Promise<void> {
+    if (!FINISHED_STATUSES.includes(event.data.status)) {
+      return;
+    }
+
+    try {
+      const dependentIds = await this.taskDependencyService.getDependents(
+        event.taskId,
+      );
+      if (dependentIds.length === 0) {
+        return;
+      }
+
+      const dependents = await this.prismaRepository.requirementTask.findMany({
+        where: { id: { in: dependentIds }, status: RequirementStatus.pending },
+        select: { id: true, priority: true },
+      });
+      for (const dependent of dependents) {
+        await this.enqueueWhenReady(dependent.id, dependent.priority);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to update the dependents of task ${event.taskId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Queue a task once every prerequisite completed. A task whose
+   * prerequisite failed or was cancelled fails as blocked, otherwise it
+   * keeps waiting.
+   * @param taskId Task ID
+   * @param priority Task priority
+   * @returns Whether the task was queued
+   * @private
+   */
+  private async enqueueWhenReady(
+    taskId: string,
+    priority: TaskPriority,
+  ): Promise<boolean> {
+    const { ready, blockedBy, waitingFor } =
+      await this.taskDependencyService.getReadiness(taskId);
+
+    if (ready) {
+      await this.requirementQueueService.addTask(taskId, priority);
+      return true;
+    }
+
+    if (blockedBy.length > 0) {
+      const message = `Blocked by prerequisite ${blockedBy
+        .map(
+          (prerequisite) => `${prerequisite.taskId} (${prerequisite.status})`,
+        )
+        .join(', ')}`;
+
+      await this.updateTaskStatus({
+        taskId,
+        status: RequirementStatus.failed,
+        progress: 0,
+        details: { message, blockedBy },
+      });
+      this.emitLifecycle(taskId, TaskLifecycleEvent.task_failed, {
+        error: message,
+        blockedBy,
+      });
+      return false;
+    }
+
+    this.logger.log(
+      `Task ${taskId} is waiting for prerequisites ${waitingFor.join(', ')}`,
+    );
+    return false;
+  }
+
+  /**
+   * A batch is finished once every task is, and failed when any task
+   * failed. Until then it is pending, paused or in progress.
+   * @private
+   */
+  private rollUpBatchStatus(
+    counts: Record<RequirementStatus, number>,
+    total: number,
+  ): RequirementStatus {
+    const finished = FINISHED_STATUSES.reduce(
+      (sum, status) => sum + counts[status],
+      0,
+    );
+
+    if (finished === total) {
+      if (counts.failed > 0) {
+        return RequirementStatus.failed;
+      }
+      return counts.completed > 0
+        ? RequirementStatus.completed
+        : RequirementStatus.cancelled;
+    }
+    if (counts.pending === total) {
+      return RequirementStatus.pending;
+    }
+    if (counts.paused > 0 && counts.in_progress === 0 && counts.pending === 0) {
+      return RequirementStatus.paused;
+    }
+    return RequirementStatus.in_progress;
+  }
+
+  /**
+   * Turn free text into a prefix-matching tsquery where every word must match
+   * @param search Free text
+   * @private
+   */
+  private toSearchQuery(search?: string): string | undefined {
+    const words = search?.match(/[\p{L}\p{N}_]+/gu);
+    return words?.map((word) => `${word}:*`).join(' & ');
+  }
+
+  /**
+   * IDs of the tasks whose requirement text matches a tsquery, found
+   * through the GIN index of the generated search column
+   * @private
+   */
+  private async findMatchingTaskIds(
+    searchQuery: string,
+    projectId?: string,
+  ): Promise<string[]> {
+    const rows = await this.prismaRepository.$queryRaw<{ id: string }[]>`
+      SELECT "id"::text AS "id"
+      FROM "requirement_tasks"
+      WHERE "requirement_search" @@ to_tsquery('english', ${searchQuery})
+      ${
+        projectId ? Prisma.sql`AND "project_id" = ${projectId}` : Prisma.empty
+      }`;
+
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * @private
+   */
+  private parseDate(
+    value: string | undefined,
+    field: string,
+  ): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`${field} must be an ISO 8601 date`);
+    }
+    return date;
+  }
+
+  /**
+   * Load a task or throw when it does not exist
+   * @param taskId Task ID
+   * @private
+   */
+  private async findTaskOrFail(taskId: string): Promise<RequirementTask> {
+    const task = await this.prismaRepository.requirementTask.findUnique({
+      where: { id: taskId },
     });
-    // The actual processing will be handled by the CodeGenerationService
-    // which will be injected into that service
+
+    if (!task) {
+      throw new NotFoundError(`Task with ID ${taskId} not found`);
+    }
+
+    return task;
+  }
+
+  /**
+   * Set a status requested by a user, bypassing the interrupted status
+   * guard of updateTaskStatus
+   * @param task Task to update
+   * @param status New status
+   * @param message Timeline message
+   * @private
+   */
+  private async setControlStatus(
+    task: RequirementTask,
+    status: RequirementStatus,
+    message: string,
+  ): Promise<void> {
+    await this.prismaRepository.$transaction([
+      this.prismaRepository.requirementTask.update({
+        where: { id: task.id },
+        data: {
+          status,
+          details: { message, previousStatus: task.status },
+          updated_at: new Date(),
+        },
+      }),
+      this.prismaRepository.taskEvent.create({
+        data: {
+          task_id: task.id,
+          status,
+          progress: task.progress,
+          message,
+        },
+      }),
+    ]);
+
+    this.emitStatus(task.id, {
+      status,
+      progress: task.progress,
+      details: { message, previousStatus: task.status },
+    });
+    this.logger.log(`Task ${task.id} ${status}`);
+  }
+
+  /**
+   * Notify live subscribers about a status transition
+   * @param taskId Task ID
+   * @param data Status, progress and details of the transition
+   * @private
+   */
+  private emitStatus(taskId: string, data: Record<string, any>): void {
+    this.eventEmitter.emit(
+      TaskEventType.STATUS,
+      createTaskStreamEvent(taskId, TaskEventType.STATUS, data),
+    );
+  }
+
+  /**
+   * Notify listeners, such as webhooks, about a task lifecycle event
+   * @param taskId Task ID
+   * @param event Lifecycle event
+   * @param data Event details
+   * @private
+   */
+  private emitLifecycle(
+    taskId: string,
+    event: TaskLifecycleEvent,
+    data: Record<string, any>,
+  ): void {
+    this.eventEmitter.emit(
+      TaskEventType.LIFECYCLE,
+      createTaskStreamEvent(taskId, TaskEventType.LIFECYCLE, {
+        event,
+        ...data,
+      }),
+    );
   }
 }
@@ -0,0 +1,282 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import {
+  PipelineStage,
+  PrismaClient,
+  RequirementStatus,
+  TaskDependency,
+} from '.prisma/client';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '@server/core/error';
+import { TaskDependencyService } from '@server/requirement-task/service/task-dependency.service';
+import { TaskStageService } from '@server/requirement-task/service/task-stage.service';
+import {
+  TaskDependencyGraphDto,
+  TaskReadinessDto,
+  PrerequisiteContextDto,
+} from '@server/requirement-task/dto/task-dependency.dto';
+import { PRISMA_REPOSITORY, TASK_STAGE_SERVICE } from '@server/constants';
+
+// Prerequisite statuses that prevent a dependent task from ever running
+const BLOCKING_STATUSES: RequirementStatus[] = [
+  RequirementStatus.failed,
+  RequirementStatus.cancelled,
+];
+
+// Prerequisite files longer than this are truncated in the prompt context
+const MAX_CONTEXT_FILE_LENGTH = 8000;
+
+@Injectable()
+export class TaskDependencyServiceImpl implements TaskDependencyService {
+  private readonly logger = new Logger(TaskDependencyServiceImpl.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(TASK_STAGE_SERVICE)
+    private readonly taskStageService: TaskStageService,
+  ) {}
+
+  /**
+   * Make sure every prerequisite exists, belongs to the project and can
+   * still complete
+   * @param projectId Project ID of the dependent task
+   * @param dependsOn Prerequisite task IDs
+   */
+  public async validatePrerequisites(
+    projectId: string,
+    dependsOn: string[],
+  ): Promise<void> {
+    if (!Array.isArray(dependsOn)) {
+      throw new ValidationError('dependsOn must be an array of task IDs');
+    }
+
+    const prerequisites = await this.prismaRepository.requirementTask.findMany({
+      where: { id: { in: dependsOn } },
+      select: { id: true, project_id: true, status: true },
+    });
+
+    const missing = dependsOn.filter(
+      (taskId) => !prerequisites.some((task) => task.id === taskId),
+    );
+    if (missing.length > 0) {
+      throw new NotFoundError(
+        `Prerequisite tasks not found: ${missing.join(', ')}`,
+      );
+    }
+
+    const foreign = prerequisites.filter(
+      (task) => task.project_id !== projectId,
+    );
+    if (foreign.length > 0) {
+      throw new ValidationError(
+        `Prerequisite tasks belong to another project: ${foreign
+          .map((task) => task.id)
+          .join(', ')}`,
+      );
+    }
+
+    const blocking = prerequisites.filter((task) =>
+      BLOCKING_STATUSES.includes(task.status),
+    );
+    if (blocking.length > 0) {
+      throw new ConflictError(
+        `Prerequisite tasks cannot complete: ${blocking
+          .map((task) => `${task.id} (${task.status})`)
+          .join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Check the prerequisites of a task
+   * @param taskId Task ID
+   * @returns Whether the task can run, and what blocks or delays it
+   */
+  public async getReadiness(taskId: string): Promise<TaskReadinessDto> {
+    const dependencies = await this.prismaRepository.taskDependency.findMany({
+      where: { task_id: taskId },
+      include: { depends_on: { select: { id: true, status: true } } },
+    });
+    const prerequisites = dependencies.map(({ depends_on }) => depends_on);
+
+    const blockedBy = prerequisites
+      .filter((task) => BLOCKING_STATUSES.includes(task.status))
+      .map((task) => ({ taskId: task.id, status: task.status }));
+    const waitingFor = prerequisites
+      .filter(
+        (task) =>
+          task.status !== RequirementStatus.completed &&
+          !BLOCKING_STATUSES.includes(task.status),
+      )
+      .map((task) => task.id);
+
+    return {
+      ready: blockedBy.length === 0 && waitingFor.length === 0,
+      blockedBy,
+      waitingFor,
+    };
+  }
+
+  /**
+   * Get the tasks directly waiting for a task
+   * @param taskId Task ID
+   */
+  public async getDependents(taskId: string): Promise<string[]> {
+    const dependents = await this.prismaRepository.taskDependency.findMany({
+      where: { depends_on_id: taskId },
+      select: { task_id: true },
+    });
+
+    return dependents.map((dependency) => dependency.task_id);
+  }
+
+  /**
+   * Walk the dependency graph of a task in both directions
+   * @param taskId Task ID
+   * @returns Tasks and dependency edges reachable from the task
+   */
+  public async getDependencyGraph(
+    taskId: string,
+  ): Promise<TaskDependencyGraphDto> {
+    const task = await this.prismaRepository.requirementTask.findUnique({
+      where: { id: taskId },
+      select: { id: true },
+    });
+
+    if (!task) {
+      throw new NotFoundError(`Task with ID ${taskId} not found`);
+    }
+
+    const edges = new Map<string, TaskDependency>();
+    const addEdges = (dependencies: TaskDependency[]) =>
+      dependencies.forEach((dependency) =>
+        edges.set(
+          `${dependency.task_id}:${dependency.depends_on_id}`,
+          dependency,
+        ),
+      );
+
+    // Upstream: the prerequisites of the prerequisites, and so on
+    const taskIds = new Set([taskId]);
+    let frontier = [taskId];
+    while (frontier.length > 0) {
+      const dependencies = await this.prismaRepository.taskDependency.findMany({
+        where: { task_id: { in: frontier } },
+      });
+      addEdges(dependencies);
+      frontier = this.collectUnvisited(
+        dependencies.map((dependency) => dependency.depends_on_id),
+        taskIds,
+      );
+    }
+
+    // Downstream: the tasks waiting for this task, and so on
+    const downstreamIds = new Set([taskId]);
+    frontier = [taskId];
+    while (frontier.length > 0) {
+      const dependencies = await this.prismaRepository.taskDependency.findMany({
+        where: { depends_on_id: { in: frontier } },
+      });
+      addEdges(dependencies);
+      frontier = this.collectUnvisited(
+        dependencies.map((dependency) => dependency.task_id),
+        downstreamIds,
+      );
+    }
+    downstreamIds.forEach((id) => taskIds.add(id));
+
+    const tasks = await this.prismaRepository.requirementTask.findMany({
+      where: { id: { in: [...taskIds] } },
+      select: {
+        id: true,
+        status: true,
+        progress: true,
+        requirement_text: true,
+        created_at: true,
+      },
+      orderBy: { created_at: 'asc' },
+    });
+    const edgeList = [...edges.values()];
+
+    return {
+      taskId,
+      nodes: tasks.map((node) => ({
+        taskId: node.id,
+        status: node.status,
+        progress: node.progress,
+        requirementText: node.requirement_text,
+        dependsOn: edgeList
+          .filter((edge) => edge.task_id === node.id)
+          .map((edge) => edge.depends_on_id),
+      })),
+      edges: edgeList.map((edge) => ({
+        taskId: edge.task_id,
+        dependsOnId: edge.depends_on_id,
+      })),
+    };
+  }
+
+  /**
+   * Collect the generated files and commit of every direct prerequisite
+   * @param taskId Task ID
+   */
+  public async getPrerequisiteContext(
+    taskId: string,
+  ): Promise<PrerequisiteContextDto[]> {
+    const dependencies = await this.prismaRepository.taskDependency.findMany({
+      where: { task_id: taskId },
+      include: {
+        depends_on: { select: { id: true, requirement_text: true } },
+      },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return Promise.all(
+      dependencies.map(async ({ depends_on: prerequisite }) => {
+        const outputs = await this.taskStageService.getCompletedOutputs(
+          prerequisite.id,
+        );
+        const generatedCode: Record<string, string> =
+          outputs[PipelineStage.generation]?.generatedCode || {};
+
+        const files = Object.entries(generatedCode).reduce(
+          (result, [path, content]) => {
+            result[path] =
+              content.length > MAX_CONTEXT_FILE_LENGTH
+                ? `${content.substring(0, MAX_CONTEXT_FILE_LENGTH)}\n...`
+                : content;
+            return result;
+          },
+          {} as Record<string, string>,
+        );
+
+        if (Object.keys(files).length === 0) {
+          this.logger.warn(
+            `Prerequisite ${prerequisite.id} of task ${taskId} has no generated files`,
+          );
+        }
+
+        return {
+          taskId: prerequisite.id,
+          requirementText: prerequisite.requirement_text,
+          commitHash: outputs[PipelineStage.commit]?.commitHash,
+          files,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Mark the given IDs as visited and return those seen for the first time
+   * @private
+   */
+  private collectUnvisited(ids: string[], visited: Set<string>): string[] {
+    const unvisited = ids.filter((id) => !visited.has(id));
+    unvisited.forEach((id) => visited.add(id));
+    return [...new Set(unvisited)];
+  }
+}
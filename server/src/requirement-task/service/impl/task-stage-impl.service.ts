@@ -0,0 +1,137 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { PrismaClient, PipelineStage, StageStatus } from '.prisma/client';
+import { TaskStageService } from '@server/requirement-task/service/task-stage.service';
+import {
+  StartTaskStageDto,
+  CompleteTaskStageDto,
+  FailTaskStageDto,
+  ResetTaskStagesDto,
+  TaskStageOutputs,
+} from '@server/requirement-task/dto/task-stage.dto';
+import { PRISMA_REPOSITORY } from '@server/constants';
+
+@Injectable()
+export class TaskStageServiceImpl implements TaskStageService {
+  private readonly logger = new Logger(TaskStageServiceImpl.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+  ) {}
+
+  /**
+   * Mark a stage as running for the given attempt
+   * @param dto Task, stage and attempt number
+   */
+  public async startStage(dto: StartTaskStageDto): Promise<void> {
+    const { taskId, stage, attempt } = dto;
+    const now = new Date();
+
+    await this.prismaRepository.taskStage.upsert({
+      where: { task_id_stage: { task_id: taskId, stage } },
+      create: {
+        task_id: taskId,
+        stage,
+        status: StageStatus.running,
+        attempt,
+        started_at: now,
+      },
+      update: {
+        status: StageStatus.running,
+        output: null,
+        error: null,
+        attempt,
+        started_at: now,
+        completed_at: null,
+      },
+    });
+  }
+
+  /**
+   * Persist the output of a completed stage
+   * @param dto Task, stage and stage output
+   */
+  public async completeStage(dto: CompleteTaskStageDto): Promise<void> {
+    const { taskId, stage, output } = dto;
+    const now = new Date();
+
+    await this.prismaRepository.taskStage.upsert({
+      where: { task_id_stage: { task_id: taskId, stage } },
+      create: {
+        task_id: taskId,
+        stage,
+        status: StageStatus.completed,
+        output,
+        started_at: now,
+        completed_at: now,
+      },
+      update: {
+        status: StageStatus.completed,
+        output,
+        error: null,
+        completed_at: now,
+      },
+    });
+
+    this.logger.log(`Stage ${stage} of task ${taskId} completed`);
+  }
+
+  /**
+   * Record a stage failure
+   * @param dto Task, stage and error message
+   */
+  public async failStage(dto: FailTaskStageDto): Promise<void> {
+    const { taskId, stage, error } = dto;
+
+    await this.prismaRepository.taskStage.upsert({
+      where: { task_id_stage: { task_id: taskId, stage } },
+      create: {
+        task_id: taskId,
+        stage,
+        status: StageStatus.failed,
+        error,
+      },
+      update: {
+        status: StageStatus.failed,
+        error,
+        completed_at: null,
+      },
+    });
+
+    this.logger.warn(`Stage ${stage} of task ${taskId} failed: ${error}`);
+  }
+
+  /**
+   * Get the outputs of every completed stage of a task
+   * @param taskId Task ID
+   * @returns Stage outputs keyed by stage
+   */
+  public async getCompletedOutputs(taskId: string): Promise<TaskStageOutputs> {
+    const stages = await this.prismaRepository.taskStage.findMany({
+      where: { task_id: taskId, status: StageStatus.completed },
+    });
+
+    return stages.reduce<TaskStageOutputs>((outputs, stage) => {
+      outputs[stage.stage] = stage.output as Record<string, any>;
+      return outputs;
+    }, {});
+  }
+
+  /**
+   * Delete the given stage and every later stage, so the next run
+   * executes them again
+   * @param dto Task and first stage to re-run
+   */
+  public async resetStages(dto: ResetTaskStagesDto): Promise<void> {
+    const { taskId, fromStage } = dto;
+    // Enum members are declared in pipeline order
+    const stages = Object.values(PipelineStage);
+    const resetStages = stages.slice(stages.indexOf(fromStage));
+
+    await this.prismaRepository.taskStage.deleteMany({
+      where: { task_id: taskId, stage: { in: resetStages } },
+    });
+
+    this.logger.log(`Reset stages ${resetStages.join(', ')} of task ${taskId}`);
+  }
+}
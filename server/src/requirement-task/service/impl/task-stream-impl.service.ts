@@ -0,0 +1,149 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Cluster as RedisCluster } from 'ioredis';
+import { Observable, Subject, filter, takeWhile } from 'rxjs';
+import { RequirementStatus } from '.prisma/client';
+import { TaskEventType } from '@server/core/event/event';
+import {
+  TaskStreamEvent,
+  createTaskStreamEvent,
+} from '@server/core/event/task-stream.event';
+import { TaskStreamService } from '@server/requirement-task/service/task-stream.service';
+import { RequirementTaskService } from '@server/requirement-task/service/requirement-task.service';
+import { REDIS_REPOSITORY, REQUIREMENT_TASK_SERVICE } from '@server/constants';
+
+// Redis channel used to relay task events to every instance
+const TASK_STREAM_CHANNEL = 'requirement-task:stream';
+
+// Statuses after which a task stream completes
+const FINAL_STATUSES: RequirementStatus[] = [
+  RequirementStatus.completed,
+  RequirementStatus.failed,
+  RequirementStatus.cancelled,
+];
+
+@Injectable()
+export class TaskStreamServiceImpl
+  implements OnModuleInit, OnModuleDestroy, TaskStreamService
+{
+  private readonly logger = new Logger(TaskStreamServiceImpl.name);
+  private readonly events = new Subject<TaskStreamEvent>();
+  private subscriber: RedisCluster;
+
+  constructor(
+    @Inject(REDIS_REPOSITORY)
+    private readonly redisRepository: RedisCluster,
+
+    @Inject(REQUIREMENT_TASK_SERVICE)
+    private readonly requirementTaskService: RequirementTaskService,
+  ) {}
+
+  public async onModuleInit() {
+    this.subscriber = this.redisRepository.duplicate();
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== TASK_STREAM_CHANNEL) {
+        return;
+      }
+
+      try {
+        this.events.next(JSON.parse(message));
+      } catch (error) {
+        this.logger.warn(`Dropped malformed task event: ${error.message}`);
+      }
+    });
+    await this.subscriber.subscribe(TASK_STREAM_CHANNEL);
+  }
+
+  public async onModuleDestroy() {
+    this.events.complete();
+    await this.subscriber?.quit();
+  }
+
+  /**
+   * Relay events emitted on this instance to every instance
+   * @param event Task event
+   */
+  @OnEvent(TaskEventType.STATUS)
+  @OnEvent(TaskEventType.QUEUE)
+  @OnEvent(TaskEventType.LLM_OUTPUT)
+  @OnEvent(TaskEventType.LLM_RETRY)
+  @OnEvent(TaskEventType.LIFECYCLE)
+  public async relayEvent(event: TaskStreamEvent): Promise<void> {
+    try {
+      await this.redisRepository.publish(
+        TASK_STREAM_CHANNEL,
+        JSON.stringify(event),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to relay ${event.type} event of task ${event.taskId}: ${error.message}`,
+      );
+    }
+  }
+
+  /**
+   * Watch the events of every task
+   * @returns Stream of task events
+   */
+  public watchAll(): Observable<TaskStreamEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Watch the events of a task, starting with its current status.
+   * The stream completes once the task reaches a final status.
+   * @param taskId Task ID
+   * @returns Stream of task events
+   */
+  public watchTask(taskId: string): Observable<TaskStreamEvent> {
+    const stream = new Observable<TaskStreamEvent>((subscriber) => {
+      // Events emitted while the status loads are held back until it was
+      // sent, so that none of them is lost, e.g. the final status
+      let pending: TaskStreamEvent[] | null = [];
+      const updates = this.events
+        .pipe(filter((event) => event.taskId === taskId))
+        .subscribe({
+          next: (event) =>
+            pending ? pending.push(event) : subscriber.next(event),
+          error: (error) => subscriber.error(error),
+          complete: () => {
+            if (!pending) {
+              subscriber.complete();
+            }
+          },
+        });
+
+      this.requirementTaskService.getTaskStatus(taskId).then(
+        (status) => {
+          subscriber.next(
+            createTaskStreamEvent(taskId, TaskEventType.STATUS, status),
+          );
+          const buffered = pending;
+          pending = null;
+          buffered.forEach((event) => subscriber.next(event));
+          if (updates.closed) {
+            subscriber.complete();
+          }
+        },
+        (error) => subscriber.error(error),
+      );
+
+      return () => updates.unsubscribe();
+    });
+
+    return stream.pipe(
+      takeWhile(
+        (event) =>
+          event.type !== TaskEventType.STATUS ||
+          !FINAL_STATUSES.includes(event.data.status),
+        true,
+      ),
+    );
+  }
+}
@@ -17,6 +17,43 @@ export interface TaskJobStatus {
   progress?: number;
 }
 
+/**
+ * 佇列任務執行上下文
+ * 由 worker 傳遞給已註冊的處理函數
+ */
+export interface TaskJobContext {
+  /**
+   * 任務ID
+   */
+  taskId: string;
+
+  /**
+   * 目前的嘗試次數（從 1 開始）
+   */
+  attempt: number;
+
+  /**
+   * 最大嘗試次數
+   */
+  maxAttempts: number;
+
+  /**
+   * 任務被取消時觸發的中止訊號
+   */
+  signal: AbortSignal;
+
+  /**
+   * 回報任務進度（0-1）給佇列
+   */
+  reportProgress(progress: number): Promise<void>;
+}
+
+/**
+ * 任務處理函數
+ * 拋出錯誤時佇列會依照重試策略重新執行
+ */
+export type TaskProcessorFn = (context: TaskJobContext) => Promise<unknown>;
+
 /**
  * 佇列統計資訊
  */
@@ -64,12 +101,27 @@ export interface TaskQueueStatus {
 export interface RequirementQueueService {
   /**
    * 將任務添加到處理佇列中
+   * 已完成或失敗的任務會被重新排入佇列，任務仍在佇列中時不會重複加入
    * @param taskId 任務ID
    * @param priority 任務優先級
    * @returns 任務在佇列中的ID
    */
   addTask(taskId: string, priority?: TaskPriority): Promise<string>;
 
+  /**
+   * 從佇列中移除尚未開始執行的任務
+   * @param taskId 任務ID
+   * @returns 是否有任務被移除，執行中的任務不會被移除
+   */
+  removeTask(taskId: string): Promise<boolean>;
+
+  /**
+   * 中止正在執行的任務
+   * 中止訊號會廣播到所有實例，由實際執行該任務的 worker 處理
+   * @param taskId 任務ID
+   */
+  abortTask(taskId: string): Promise<void>;
+
   /**
    * 獲取任務在佇列中的狀態
    * @param jobId 任務ID
@@ -77,12 +129,20 @@ export interface RequirementQueueService {
    */
   getJobStatus(jobId: string): Promise<TaskJobStatus>;
 
+  /**
+   * 批次獲取多個任務在佇列中的狀態
+   * 各任務分別查詢並同時進行，佇列的鍵可能位於不同的叢集節點
+   * @param jobIds 任務ID列表
+   * @returns 以任務ID為鍵的任務狀態資訊
+   */
+  getJobStatuses(jobIds: string[]): Promise<Record<string, TaskJobStatus>>;
+
   /**
    * 註冊任務處理函數
-   * 當佇列中的任務完成時，會調用此處理函數
-   * @param processorFn 處理函數，接收任務ID
+   * worker 取得任務後會在 job 內調用此處理函數，處理函數的錯誤會觸發佇列重試
+   * @param processorFn 處理函數，接收任務執行上下文
    */
-  registerTaskProcessor(processorFn: (taskId: string) => Promise<void>): void;
+  registerTaskProcessor(processorFn: TaskProcessorFn): void;
 
   /**
    * 獲取佇列統計資訊
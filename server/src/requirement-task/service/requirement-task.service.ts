@@ -5,14 +5,46 @@ import {
   UpdateTaskStatusDto,
   UpdateTaskQualityMetricsDto,
   TaskStatusDto,
+  TaskListDto,
+  TaskEventDto,
+  RetryTaskDto,
 } from '@server/requirement-task/dto/requirement-task.dto';
+import {
+  CreateTaskBatchDto,
+  TaskBatchStatusDto,
+} from '@server/requirement-task/dto/task-batch.dto';
+import { LlmUsageSummaryDto } from '@server/core/llm/dto/llm-usage.dto';
 
 export interface RequirementTaskService {
   createRequirementTask(
     requirement: RequirementRequestDto,
   ): Promise<RequirementResponseDto>;
   getTaskStatus(taskId: string): Promise<TaskStatusDto>;
-  listTasks(dto: QueryRequirementTaskDto): Promise<TaskStatusDto[]>;
+
+  /**
+   * 在同一個交易中建立一批任務，並依優先級加入處理佇列
+   * @param dto 專案ID與批次項目
+   * @returns 批次彙總狀態
+   */
+  createTaskBatch(dto: CreateTaskBatchDto): Promise<TaskBatchStatusDto>;
+
+  /**
+   * 獲取批次的彙總狀態與各任務進度
+   * @param batchId 批次ID
+   */
+  getTaskBatchStatus(batchId: string): Promise<TaskBatchStatusDto>;
+  listTasks(dto: QueryRequirementTaskDto): Promise<TaskListDto>;
   updateTaskStatus(dto: UpdateTaskStatusDto): Promise<void>;
+  getTaskTimeline(taskId: string): Promise<TaskEventDto[]>;
+
+  /**
+   * 獲取任務各提供商與模型的 token 用量與費用
+   * @param taskId 任務ID
+   */
+  getTaskUsage(taskId: string): Promise<LlmUsageSummaryDto>;
+  cancelTask(taskId: string): Promise<RequirementResponseDto>;
+  pauseTask(taskId: string): Promise<RequirementResponseDto>;
+  resumeTask(taskId: string): Promise<RequirementResponseDto>;
+  retryTask(dto: RetryTaskDto): Promise<RequirementResponseDto>;
   updateTaskQualityMetrics(dto: UpdateTaskQualityMetricsDto): Promise<void>;
 }
@@ -0,0 +1,43 @@
+import {
+  TaskDependencyGraphDto,
+  TaskReadinessDto,
+  PrerequisiteContextDto,
+} from '@server/requirement-task/dto/task-dependency.dto';
+
+/**
+ * 任務相依服務介面定義
+ * 任務只能相依於已存在的任務，因此相依關係必定構成有向無環圖 (DAG)
+ */
+export interface TaskDependencyService {
+  /**
+   * 驗證前置任務存在且屬於同一個專案
+   * @param projectId 專案ID
+   * @param dependsOn 前置任務ID列表
+   */
+  validatePrerequisites(projectId: string, dependsOn: string[]): Promise<void>;
+
+  /**
+   * 檢查任務的前置任務是否都已完成
+   * @param taskId 任務ID
+   * @returns 是否可執行，以及阻擋或等待中的前置任務
+   */
+  getReadiness(taskId: string): Promise<TaskReadinessDto>;
+
+  /**
+   * 取得直接相依於此任務的任務ID
+   * @param taskId 任務ID
+   */
+  getDependents(taskId: string): Promise<string[]>;
+
+  /**
+   * 取得任務所在的相依圖，包含所有上游與下游任務
+   * @param taskId 任務ID
+   */
+  getDependencyGraph(taskId: string): Promise<TaskDependencyGraphDto>;
+
+  /**
+   * 取得直接前置任務產生的檔案與 commit hash，作為程式碼生成的上下文
+   * @param taskId 任務ID
+   */
+  getPrerequisiteContext(taskId: string): Promise<PrerequisiteContextDto[]>;
+}
@@ -0,0 +1,39 @@
+import {
+  StartTaskStageDto,
+  CompleteTaskStageDto,
+  FailTaskStageDto,
+  ResetTaskStagesDto,
+  TaskStageOutputs,
+} from '@server/requirement-task/dto/task-stage.dto';
+
+/**
+ * 任務階段服務介面定義
+ * 持久化每個 pipeline 階段的輸出，讓任務可以從最後完成的階段繼續執行
+ */
+export interface TaskStageService {
+  /**
+   * 標記階段開始執行
+   */
+  startStage(dto: StartTaskStageDto): Promise<void>;
+
+  /**
+   * 標記階段完成並儲存輸出
+   */
+  completeStage(dto: CompleteTaskStageDto): Promise<void>;
+
+  /**
+   * 標記階段失敗
+   */
+  failStage(dto: FailTaskStageDto): Promise<void>;
+
+  /**
+   * 取得任務所有已完成階段的輸出
+   * @param taskId 任務ID
+   */
+  getCompletedOutputs(taskId: string): Promise<TaskStageOutputs>;
+
+  /**
+   * 清除指定階段及其之後所有階段的紀錄，讓任務從該階段重新執行
+   */
+  resetStages(dto: ResetTaskStagesDto): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import { Observable } from 'rxjs';
+import { TaskStreamEvent } from '@server/core/event/task-stream.event';
+
+/**
+ * 任務即時串流服務介面定義
+ * 將任務狀態、佇列狀態與 LLM 輸出廣播到所有實例，供 SSE 與 WebSocket 推送
+ */
+export interface TaskStreamService {
+  /**
+   * 訂閱所有任務的即時事件
+   */
+  watchAll(): Observable<TaskStreamEvent>;
+
+  /**
+   * 訂閱單一任務的即時事件
+   * 會先推送任務目前的狀態，任務結束後串流自動完成
+   * @param taskId 任務ID
+   */
+  watchTask(taskId: string): Observable<TaskStreamEvent>;
+}
@@ -0,0 +1,121 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  Query,
+  HttpException,
+  Logger,
+  Inject,
+} from '@nestjs/common';
+import { toHttpStatus } from '@server/core/error';
+import { WebhookService } from '@server/webhook/service/webhook.service';
+import {
+  CreateWebhookSubscriptionDto,
+  WebhookSubscriptionDto,
+  WebhookDeliveryDto,
+} from '@server/webhook/dto/webhook.dto';
+import { WEBHOOK_SERVICE } from '@server/constants';
+
+@Controller('webhooks')
+export class WebhookController {
+  private readonly logger = new Logger(WebhookController.name);
+
+  constructor(
+    @Inject(WEBHOOK_SERVICE)
+    private readonly webhookService: WebhookService,
+  ) {}
+
+  @Post()
+  async createSubscription(
+    @Body() dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto> {
+    try {
+      return await this.webhookService.createSubscription(dto);
+    } catch (error) {
+      this.logger.error(
+        `Error creating webhook subscription: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to create webhook subscription: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get()
+  async listSubscriptions(
+    @Query('projectId') projectId?: string,
+  ): Promise<WebhookSubscriptionDto[]> {
+    try {
+      return await this.webhookService.listSubscriptions({ projectId });
+    } catch (error) {
+      this.logger.error(
+        `Error listing webhook subscriptions: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to list webhook subscriptions: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Delete(':webhookId')
+  async deleteSubscription(
+    @Param('webhookId') webhookId: string,
+  ): Promise<{ success: boolean }> {
+    try {
+      await this.webhookService.deleteSubscription(webhookId);
+      return { success: true };
+    } catch (error) {
+      this.logger.error(
+        `Error deleting webhook subscription: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to delete webhook subscription: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Get(':webhookId/deliveries')
+  async listDeliveries(
+    @Param('webhookId') webhookId: string,
+  ): Promise<WebhookDeliveryDto[]> {
+    try {
+      return await this.webhookService.listDeliveries(webhookId);
+    } catch (error) {
+      this.logger.error(
+        `Error listing webhook deliveries: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to list webhook deliveries: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+
+  @Post('deliveries/:deliveryId/redeliver')
+  async redeliver(
+    @Param('deliveryId') deliveryId: string,
+  ): Promise<WebhookDeliveryDto> {
+    try {
+      return await this.webhookService.redeliver(deliveryId);
+    } catch (error) {
+      this.logger.error(
+        `Error redelivering webhook: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        `Failed to redeliver webhook: ${error.message}`,
+        toHttpStatus(error),
+      );
+    }
+  }
+}
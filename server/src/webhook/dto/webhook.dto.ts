@@ -0,0 +1,47 @@
+import { DeliveryStatus, TaskLifecycleEvent } from '.prisma/client';
+
+export class CreateWebhookSubscriptionDto {
+  projectId: string;
+  url: string;
+  // Generated when omitted
+  secret?: string;
+  // Every lifecycle event when omitted or empty
+  events?: TaskLifecycleEvent[];
+}
+
+export class QueryWebhookSubscriptionDto {
+  projectId?: string;
+}
+
+export class WebhookSubscriptionDto {
+  id: string;
+  projectId: string;
+  url: string;
+  // Only returned when the subscription is created
+  secret?: string;
+  events: TaskLifecycleEvent[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class WebhookDeliveryDto {
+  id: string;
+  subscriptionId: string;
+  taskId: string;
+  event: TaskLifecycleEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  deliveredAt?: string;
+  createdAt: string;
+}
+
+export class WebhookPayloadDto {
+  event: TaskLifecycleEvent;
+  taskId: string;
+  projectId: string;
+  timestamp: string;
+  data: Record<string, any>;
+}
@@ -0,0 +1,222 @@
+import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common';
+import { HttpService } from '@nestjs/axios';
+import { lastValueFrom } from 'rxjs';
+import * as crypto from 'crypto';
+import { Queue, Worker, Job } from 'bullmq';
+import { Cluster as RedisCluster } from 'ioredis';
+import { DeliveryStatus, PrismaClient } from '.prisma/client';
+import { WebhookDeliveryService } from '@server/webhook/service/webhook-delivery.service';
+import { WebhookPayloadDto } from '@server/webhook/dto/webhook.dto';
+import { PRISMA_REPOSITORY, REDIS_REPOSITORY } from '@server/constants';
+
+const WEBHOOK_QUEUE_NAME = 'webhook-delivery';
+
+// Delivery attempts before a delivery is marked as failed
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+// Receivers have to answer within this time (ms)
+const DELIVERY_TIMEOUT = 10000;
+
+// Response bodies are truncated before being stored in the delivery log
+const MAX_RESPONSE_BODY_LENGTH = 2000;
+
+@Injectable()
+export class WebhookDeliveryServiceImpl
+  implements OnModuleInit, WebhookDeliveryService
+{
+  private readonly logger = new Logger(WebhookDeliveryServiceImpl.name);
+  private deliveryQueue: Queue;
+  private worker: Worker;
+
+  constructor(
+    private readonly httpService: HttpService,
+
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(REDIS_REPOSITORY)
+    private readonly redisRepository: RedisCluster,
+  ) {}
+
+  public onModuleInit() {
+    this.deliveryQueue = new Queue(WEBHOOK_QUEUE_NAME, {
+      connection: this.redisRepository,
+      defaultJobOptions: {
+        attempts: MAX_DELIVERY_ATTEMPTS,
+        backoff: {
+          type: 'exponential',
+          delay: 10000,
+        },
+        removeOnComplete: true, // The delivery log keeps the history
+        removeOnFail: true,
+      },
+    });
+
+    this.worker = new Worker(
+      WEBHOOK_QUEUE_NAME,
+      (job: Job) => this.deliver(job),
+      { connection: this.redisRepository },
+    );
+
+    this.worker.on('failed', (job, err) => {
+      this.logger.warn(
+        `Webhook delivery ${job?.data.deliveryId} failed: ${err.message}`,
+      );
+    });
+  }
+
+  /**
+   * Create a delivery for every subscription of the project listening to
+   * the event, and queue them
+   * @param projectId Project ID
+   * @param payload Webhook payload
+   * @returns Created delivery IDs
+   */
+  public async dispatch(
+    projectId: string,
+    payload: WebhookPayloadDto,
+  ): Promise<string[]> {
+    const subscriptions =
+      await this.prismaRepository.webhookSubscription.findMany({
+        where: {
+          project_id: projectId,
+          enabled: true,
+          // An empty event filter subscribes to every event
+          OR: [
+            { events: { isEmpty: true } },
+            { events: { has: payload.event } },
+          ],
+        },
+      });
+
+    const deliveryIds: string[] = [];
+    for (const subscription of subscriptions) {
+      const delivery = await this.prismaRepository.webhookDelivery.create({
+        data: {
+          subscription_id: subscription.id,
+          task_id: payload.taskId,
+          event: payload.event,
+          payload: { ...payload },
+        },
+      });
+
+      await this.enqueue(delivery.id);
+      deliveryIds.push(delivery.id);
+    }
+
+    return deliveryIds;
+  }
+
+  /**
+   * Queue an existing delivery
+   * @param deliveryId Delivery ID
+   */
+  public async enqueue(deliveryId: string): Promise<void> {
+    await this.deliveryQueue.add(
+      'deliver-webhook',
+      { deliveryId },
+      { jobId: deliveryId },
+    );
+  }
+
+  /**
+   * Send a signed delivery. Failures are rethrown so the queue retries them
+   * with backoff.
+   * @param job Delivery job
+   * @private
+   */
+  private async deliver(job: Job): Promise<void> {
+    const { deliveryId } = job.data;
+    const delivery = await this.prismaRepository.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { subscription: true },
+    });
+
+    if (!delivery) {
+      this.logger.warn(`Webhook delivery ${deliveryId} no longer exists`);
+      return;
+    }
+
+    const attempt = job.attemptsMade + 1;
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({
+      id: delivery.id,
+      ...(delivery.payload as Record<string, any>),
+    });
+
+    try {
+      const response = await lastValueFrom(
+        this.httpService.post(delivery.subscription.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Id': delivery.id,
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Timestamp': timestamp.toString(),
+            'X-Webhook-Signature': `sha256=${this.sign(
+              delivery.subscription.secret,
+              timestamp,
+              body,
+            )}`,
+          },
+          timeout: DELIVERY_TIMEOUT,
+        }),
+      );
+
+      await this.prismaRepository.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: DeliveryStatus.succeeded,
+          attempts: attempt,
+          response_status: response.status,
+          response_body: this.truncate(response.data),
+          error: null,
+          delivered_at: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Webhook ${delivery.event} delivered to ${delivery.subscription.url}`,
+      );
+    } catch (error) {
+      const maxAttempts = job.opts.attempts || 1;
+      await this.prismaRepository.webhookDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status:
+            attempt >= maxAttempts
+              ? DeliveryStatus.failed
+              : DeliveryStatus.pending,
+          attempts: attempt,
+          response_status: error.response?.status ?? null,
+          response_body: this.truncate(error.response?.data),
+          error: error.message,
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * HMAC-SHA256 signature of `${timestamp}.${body}`
+   * @private
+   */
+  private sign(secret: string, timestamp: number, body: string): string {
+    return crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+  }
+
+  /**
+   * @private
+   */
+  private truncate(data: unknown): string | null {
+    if (data === undefined || data === null || data === '') {
+      return null;
+    }
+
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return text.substring(0, MAX_RESPONSE_BODY_LENGTH);
+  }
+}
@@ -0,0 +1,230 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import * as crypto from 'crypto';
+import {
+  PrismaClient,
+  TaskLifecycleEvent,
+  WebhookDelivery,
+  WebhookSubscription,
+} from '.prisma/client';
+import { NotFoundError, ValidationError } from '@server/core/error';
+import { WebhookService } from '@server/webhook/service/webhook.service';
+import { WebhookDeliveryService } from '@server/webhook/service/webhook-delivery.service';
+import {
+  CreateWebhookSubscriptionDto,
+  QueryWebhookSubscriptionDto,
+  WebhookSubscriptionDto,
+  WebhookDeliveryDto,
+} from '@server/webhook/dto/webhook.dto';
+import { PRISMA_REPOSITORY, WEBHOOK_DELIVERY_SERVICE } from '@server/constants';
+
+// Number of deliveries returned by the delivery log
+const DELIVERY_LOG_LIMIT = 100;
+
+@Injectable()
+export class WebhookServiceImpl implements WebhookService {
+  private readonly logger = new Logger(WebhookServiceImpl.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(WEBHOOK_DELIVERY_SERVICE)
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+  ) {}
+
+  /**
+   * Register a webhook subscription for a project
+   * @param dto Project, URL, secret and event filter
+   * @returns Subscription including its secret
+   */
+  public async createSubscription(
+    dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto> {
+    const { projectId, url, secret, events = [] } = dto;
+
+    if (!projectId) {
+      throw new ValidationError('projectId is required');
+    }
+    const project = await this.prismaRepository.project.findUnique({
+      where: { id: projectId },
+    });
+    if (!project) {
+      throw new NotFoundError(`Project with ID ${projectId} not found`);
+    }
+    this.validateUrl(url);
+
+    const unknownEvents = events.filter(
+      (event) => !Object.values(TaskLifecycleEvent).includes(event),
+    );
+    if (unknownEvents.length > 0) {
+      throw new ValidationError(
+        `Unknown webhook events: ${unknownEvents.join(', ')}`,
+      );
+    }
+
+    const subscription = await this.prismaRepository.webhookSubscription.create(
+      {
+        data: {
+          project_id: projectId,
+          url,
+          secret: secret || crypto.randomBytes(32).toString('hex'),
+          events,
+        },
+      },
+    );
+
+    this.logger.log(
+      `Created webhook subscription ${subscription.id} for project ${projectId}`,
+    );
+    return {
+      ...this.toSubscriptionDto(subscription),
+      secret: subscription.secret,
+    };
+  }
+
+  /**
+   * List webhook subscriptions, secrets are never returned
+   * @param dto Optional project filter
+   */
+  public async listSubscriptions(
+    dto: QueryWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto[]> {
+    const subscriptions =
+      await this.prismaRepository.webhookSubscription.findMany({
+        where: { project_id: dto.projectId },
+        orderBy: { created_at: 'desc' },
+      });
+
+    return subscriptions.map((subscription) =>
+      this.toSubscriptionDto(subscription),
+    );
+  }
+
+  /**
+   * Delete a subscription together with its delivery log
+   * @param subscriptionId Subscription ID
+   */
+  public async deleteSubscription(subscriptionId: string): Promise<void> {
+    await this.findSubscriptionOrFail(subscriptionId);
+    await this.prismaRepository.webhookSubscription.delete({
+      where: { id: subscriptionId },
+    });
+
+    this.logger.log(`Deleted webhook subscription ${subscriptionId}`);
+  }
+
+  /**
+   * Get the latest deliveries of a subscription
+   * @param subscriptionId Subscription ID
+   */
+  public async listDeliveries(
+    subscriptionId: string,
+  ): Promise<WebhookDeliveryDto[]> {
+    await this.findSubscriptionOrFail(subscriptionId);
+    const deliveries = await this.prismaRepository.webhookDelivery.findMany({
+      where: { subscription_id: subscriptionId },
+      orderBy: { created_at: 'desc' },
+      take: DELIVERY_LOG_LIMIT,
+    });
+
+    return deliveries.map((delivery) => this.toDeliveryDto(delivery));
+  }
+
+  /**
+   * Send the payload of a previous delivery again as a new delivery
+   * @param deliveryId Delivery ID
+   */
+  public async redeliver(deliveryId: string): Promise<WebhookDeliveryDto> {
+    const original = await this.prismaRepository.webhookDelivery.findUnique({
+      where: { id: deliveryId },
+    });
+
+    if (!original) {
+      throw new NotFoundError(`Webhook delivery ${deliveryId} not found`);
+    }
+
+    const delivery = await this.prismaRepository.webhookDelivery.create({
+      data: {
+        subscription_id: original.subscription_id,
+        task_id: original.task_id,
+        event: original.event,
+        payload: original.payload,
+      },
+    });
+    await this.webhookDeliveryService.enqueue(delivery.id);
+
+    this.logger.log(`Redelivering webhook ${deliveryId} as ${delivery.id}`);
+    return this.toDeliveryDto(delivery);
+  }
+
+  /**
+   * @private
+   */
+  private async findSubscriptionOrFail(
+    subscriptionId: string,
+  ): Promise<WebhookSubscription> {
+    const subscription =
+      await this.prismaRepository.webhookSubscription.findUnique({
+        where: { id: subscriptionId },
+      });
+
+    if (!subscription) {
+      throw new NotFoundError(
+        `Webhook subscription ${subscriptionId} not found`,
+      );
+    }
+
+    return subscription;
+  }
+
+  /**
+   * @private
+   */
+  private validateUrl(url: string): void {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch (error) {
+      throw new ValidationError(`Invalid webhook URL: ${url}`);
+    }
+
+    if (!['http:', 'https:'].includes(parsed.protocol)) {
+      throw new ValidationError('Webhook URL must use http or https');
+    }
+  }
+
+  /**
+   * @private
+   */
+  private toSubscriptionDto(
+    subscription: WebhookSubscription,
+  ): WebhookSubscriptionDto {
+    return {
+      id: subscription.id,
+      projectId: subscription.project_id,
+      url: subscription.url,
+      events: subscription.events,
+      enabled: subscription.enabled,
+      createdAt: subscription.created_at.toISOString(),
+      updatedAt: subscription.updated_at.toISOString(),
+    };
+  }
+
+  /**
+   * @private
+   */
+  private toDeliveryDto(delivery: WebhookDelivery): WebhookDeliveryDto {
+    return {
+      id: delivery.id,
+      subscriptionId: delivery.subscription_id,
+      taskId: delivery.task_id,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      responseStatus: delivery.response_status ?? undefined,
+      error: delivery.error ?? undefined,
+      deliveredAt: delivery.delivered_at?.toISOString(),
+      createdAt: delivery.created_at.toISOString(),
+    };
+  }
+}
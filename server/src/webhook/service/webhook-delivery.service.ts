@@ -0,0 +1,21 @@
+import { WebhookPayloadDto } from '@server/webhook/dto/webhook.dto';
+
+/**
+ * Webhook 投遞服務介面定義
+ * 透過佇列投遞簽章後的 webhook，失敗時依退避策略重試
+ */
+export interface WebhookDeliveryService {
+  /**
+   * 為符合條件的訂閱建立投遞紀錄並加入投遞佇列
+   * @param projectId 專案ID
+   * @param payload 投遞內容
+   * @returns 建立的投遞ID
+   */
+  dispatch(projectId: string, payload: WebhookPayloadDto): Promise<string[]>;
+
+  /**
+   * 將既有的投遞紀錄加入投遞佇列
+   * @param deliveryId 投遞ID
+   */
+  enqueue(deliveryId: string): Promise<void>;
+}
@@ -0,0 +1,44 @@
+import {
+  CreateWebhookSubscriptionDto,
+  QueryWebhookSubscriptionDto,
+  WebhookSubscriptionDto,
+  WebhookDeliveryDto,
+} from '@server/webhook/dto/webhook.dto';
+
+/**
+ * Webhook 訂閱服務介面定義
+ * 管理各專案的 webhook 訂閱與投遞紀錄
+ */
+export interface WebhookService {
+  /**
+   * 建立 webhook 訂閱，未提供 secret 時自動產生
+   */
+  createSubscription(
+    dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto>;
+
+  /**
+   * 列出 webhook 訂閱
+   */
+  listSubscriptions(
+    dto: QueryWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto[]>;
+
+  /**
+   * 刪除 webhook 訂閱及其投遞紀錄
+   * @param subscriptionId 訂閱ID
+   */
+  deleteSubscription(subscriptionId: string): Promise<void>;
+
+  /**
+   * 列出訂閱的投遞紀錄，由新到舊排序
+   * @param subscriptionId 訂閱ID
+   */
+  listDeliveries(subscriptionId: string): Promise<WebhookDeliveryDto[]>;
+
+  /**
+   * 以相同內容重新投遞，會建立新的投遞紀錄
+   * @param deliveryId 投遞ID
+   */
+  redeliver(deliveryId: string): Promise<WebhookDeliveryDto>;
+}
@@ -0,0 +1,81 @@
+import { Injectable, Logger, Inject } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { PrismaClient, TaskLifecycleEvent } from '.prisma/client';
+import { INotificationStrategy } from '@server/core/event/event.listener';
+import { TaskEventType } from '@server/core/event/event';
+import { TaskStreamEvent } from '@server/core/event/task-stream.event';
+import { WebhookDeliveryService } from '@server/webhook/service/webhook-delivery.service';
+import { PRISMA_REPOSITORY, WEBHOOK_DELIVERY_SERVICE } from '@server/constants';
+
+/**
+ * Notifies the webhook subscriptions of a task's project about its
+ * lifecycle events
+ */
+@Injectable()
+export class WebhookNotificationStrategy implements INotificationStrategy {
+  private readonly logger = new Logger(WebhookNotificationStrategy.name);
+
+  constructor(
+    @Inject(PRISMA_REPOSITORY)
+    private prismaRepository: PrismaClient,
+
+    @Inject(WEBHOOK_DELIVERY_SERVICE)
+    private readonly webhookDeliveryService: WebhookDeliveryService,
+  ) {}
+
+  @OnEvent(TaskEventType.LIFECYCLE)
+  public async handleLifecycleEvent(event: TaskStreamEvent): Promise<void> {
+    const { event: lifecycleEvent, ...data } = event.data;
+
+    try {
+      await this.notifyEvent(event.taskId, lifecycleEvent, data);
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch ${lifecycleEvent} webhooks for task ${event.taskId}: ${error.message}`,
+      );
+    }
+  }
+
+  public async notifyCompletion(taskId: string): Promise<void> {
+    await this.notifyEvent(taskId, TaskLifecycleEvent.task_committed, {});
+  }
+
+  /**
+   * Dispatch a lifecycle event to the webhooks of the task's project
+   * @param taskId Task ID
+   * @param event Lifecycle event
+   * @param data Event details
+   */
+  public async notifyEvent(
+    taskId: string,
+    event: TaskLifecycleEvent,
+    data: Record<string, any>,
+  ): Promise<void> {
+    const task = await this.prismaRepository.requirementTask.findUnique({
+      where: { id: taskId },
+      select: { project_id: true },
+    });
+
+    if (!task) {
+      this.logger.warn(`Task ${taskId} not found, ${event} webhooks skipped`);
+      return;
+    }
+
+    const deliveryIds = await this.webhookDeliveryService.dispatch(
+      task.project_id,
+      {
+        event,
+        taskId,
+        projectId: task.project_id,
+        timestamp: new Date().toISOString(),
+        data,
+      },
+    );
+
+    if (deliveryIds.length > 0) {
+      this.logger.debug(
+        `Queued ${deliveryIds.length} ${event} webhooks for task ${taskId}`,
+      );
+    }
+  }
+}
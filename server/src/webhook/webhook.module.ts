@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { HttpModule } from '@nestjs/axios';
+import { PrismaModule } from '@server/core/prisma/prisma.module';
+import { RedisClientModule } from '@server/core/redis-client/redis-client.module';
+import { WebhookController } from '@server/webhook/controller/webhook.controller';
+import { WebhookServiceImpl } from '@server/webhook/service/impl/webhook-impl.service';
+import { WebhookDeliveryServiceImpl } from '@server/webhook/service/impl/webhook-delivery-impl.service';
+import { WebhookNotificationStrategy } from '@server/webhook/strategy/webhook-notification.strategy';
+import {
+  WEBHOOK_SERVICE,
+  WEBHOOK_DELIVERY_SERVICE,
+  WEBHOOK_NOTIFICATION_STRATEGY,
+} from '@server/constants';
+
+const providers = [
+  {
+    provide: WEBHOOK_SERVICE,
+    useClass: WebhookServiceImpl,
+  },
+  {
+    provide: WEBHOOK_DELIVERY_SERVICE,
+    useClass: WebhookDeliveryServiceImpl,
+  },
+  {
+    provide: WEBHOOK_NOTIFICATION_STRATEGY,
+    useClass: WebhookNotificationStrategy,
+  },
+];
+
+@Module({
+  imports: [HttpModule, PrismaModule, RedisClientModule],
+  controllers: [WebhookController],
+  providers,
+  exports: providers,
+})
+export class WebhookModule {}